@@ -0,0 +1,125 @@
+// Local stand-in for the FastAPI agent, for testing the bot offline.
+// Usage: npm run dev:fake-agent, then set AGENT_URL=http://localhost:8989/agent_chat
+//
+// FAKE_AGENT_MODE selects how answers are returned:
+//   sse      - text/event-stream, one "data: {"delta": ...}" event per word (default)
+//   ndjson   - application/x-ndjson, one {"delta": ...} line per word
+//   buffered - a single JSON body { "response": ... }, like an agent that doesn't stream
+//   contract - a versioned agent response (src/agent/agentResponse.ts) with users and suggested actions
+// A request can override the mode with ?mode=<mode>. FAKE_AGENT_DELAY_MS sets the delay between chunks.
+//
+// Bearer tokens from the bot (AGENT_AUTH_MOCK=true) are verified with AGENT_AUTH_MOCK_SECRET and the
+// user they name is echoed in the answer. FAKE_AGENT_REQUIRE_AUTH=true rejects requests without one (401).
+import express from "express";
+import { JwtPayload, verify } from "jsonwebtoken";
+
+const port = parseInt(process.env.FAKE_AGENT_PORT || "8989", 10);
+const defaultMode = process.env.FAKE_AGENT_MODE || "sse";
+const delayMs = parseInt(process.env.FAKE_AGENT_DELAY_MS || "150", 10);
+const authSecret = process.env.AGENT_AUTH_MOCK_SECRET || "fake-agent-secret";
+const requireAuth = process.env.FAKE_AGENT_REQUIRE_AUTH === "true";
+
+const app = express();
+app.use(express.json());
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// The caller's claims, null for an invalid token, or undefined when there is no token
+function getCaller(authorization: string | undefined): JwtPayload | null | undefined {
+  const token = authorization?.match(/^Bearer (.+)$/i)?.[1];
+  if (!token) {
+    return undefined;
+  }
+  try {
+    return verify(token, authSecret, { algorithms: ["HS256"] }) as JwtPayload;
+  } catch (error) {
+    console.log(`[fake-agent] invalid token: ${error.message}`);
+    return null;
+  }
+}
+
+// Rejects the request with 401 and returns false when the token is invalid, or missing and required
+function authorize(req: express.Request, res: express.Response): JwtPayload | undefined | false {
+  const caller = getCaller(req.headers.authorization);
+  if (caller === null || (caller === undefined && requireAuth)) {
+    res.status(401).json({ detail: caller === null ? "Invalid token" : "Not authenticated" });
+    return false;
+  }
+  return caller;
+}
+
+function buildAnswer(sessionId: string, message: string, history: unknown[], caller?: JwtPayload): string {
+  return (
+    `This is the fake agent answering session ${sessionId}` +
+    (caller ? ` for ${caller.name || caller.oid} (tenant ${caller.tid}). ` : ". ") +
+    `You said: "${message}" with ${history.length} earlier message(s) as context. ` +
+    "The reply is streamed word by word so you can watch the message grow in Teams."
+  );
+}
+
+app.post("/agent_chat", async (req, res) => {
+  const caller = authorize(req, res);
+  if (caller === false) {
+    return;
+  }
+  const mode = String(req.query.mode || defaultMode);
+  const { session_id, message, stream, history = [], preferences, locale } = req.body || {};
+  const answer = buildAnswer(session_id, message, Array.isArray(history) ? history : [], caller);
+  console.log(`[fake-agent] ${mode} session=${session_id} stream=${!!stream} user=${caller?.oid || "none"} preferences=${JSON.stringify(preferences || {})} locale=${locale || "none"} message=${message}`);
+
+  if (mode === "contract") {
+    await sleep(delayMs * 5);
+    res.json({
+      version: "1",
+      text: answer,
+      tool_results: [{
+        tool: "search_users",
+        content: JSON.stringify([
+          { display_name: "Adele Vance", job_title: "Product Manager", department: "Sales", mail: "adelev@contoso.com" },
+          { display_name: "Alex Wilber", job_title: "Marketing Assistant", department: "Marketing", mail: "alexw@contoso.com" },
+        ]),
+      }],
+      suggested_actions: [{ title: "Find a time with Adele" }, { title: "Find a time with Alex" }],
+    });
+    return;
+  }
+
+  if (mode === "buffered" || !stream) {
+    await sleep(delayMs * 5);
+    res.json({ response: answer });
+    return;
+  }
+
+  const words = answer.split(/(?<= )/);
+  if (mode === "ndjson") {
+    res.setHeader("Content-Type", "application/x-ndjson");
+    for (const word of words) {
+      res.write(JSON.stringify({ delta: word }) + "\n");
+      await sleep(delayMs);
+    }
+    res.end();
+    return;
+  }
+
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.flushHeaders();
+  for (const word of words) {
+    res.write(`data: ${JSON.stringify({ delta: word })}\n\n`);
+    await sleep(delayMs);
+  }
+  res.write("data: [DONE]\n\n");
+  res.end();
+});
+
+app.post(["/clear_history", "/clear_chat_history"], (req, res) => {
+  if (authorize(req, res) === false) {
+    return;
+  }
+  console.log(`[fake-agent] clear history session=${req.body?.session_id}`);
+  res.json({ status: "cleared" });
+});
+
+app.listen(port, () => {
+  console.log(`Fake agent listening on http://localhost:${port} (mode: ${defaultMode})`);
+});
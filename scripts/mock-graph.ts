@@ -0,0 +1,233 @@
+// Local stand-in for Microsoft Graph, for testing Graph commands offline.
+// Usage: npm run dev:mock-graph, then set GRAPH_BASE_URL=http://localhost:5001 and GRAPH_MOCK_AUTH=true
+//
+// Any bearer token is accepted; requests without one get 401.
+// MOCK_GRAPH_THROTTLE_EVERY=n answers every nth request with 429 and Retry-After: 1.
+// MOCK_GRAPH_NO_PHOTO=true and MOCK_GRAPH_NO_MANAGER=true make those calls return 404.
+// MOCK_GRAPH_NO_TIMES=true makes findMeetingTimes return no suggestions.
+// MOCK_GRAPH_TIME_ZONE sets the mailbox time zone (default Pacific Standard Time). Calendar times are
+// generated as wall-clock times in the zone the client asks for, without any conversion.
+// List endpoints are paged with @odata.nextLink ($top, default 10).
+import express from "express";
+
+const port = parseInt(process.env.MOCK_GRAPH_PORT || "5001", 10);
+const throttleEvery = parseInt(process.env.MOCK_GRAPH_THROTTLE_EVERY || "0", 10);
+const mailboxTimeZone = process.env.MOCK_GRAPH_TIME_ZONE || "Pacific Standard Time";
+const origin = `http://localhost:${port}`;
+
+const me = {
+  id: "00000000-0000-0000-0000-000000000001",
+  displayName: "Megan Bowen",
+  userPrincipalName: "meganb@contoso.com",
+  mail: "meganb@contoso.com",
+  jobTitle: "Marketing Manager",
+  department: "Marketing",
+};
+
+const manager = {
+  id: "00000000-0000-0000-0000-000000000002",
+  displayName: "Miriam Graham",
+  userPrincipalName: "miriamg@contoso.com",
+  mail: "miriamg@contoso.com",
+  jobTitle: "Director",
+};
+
+const users = [me, manager, ...["Adele Vance", "Alex Wilber", "Diego Siciliani", "Grady Archie", "Henrietta Mueller",
+  "Isaiah Langer", "Johanna Lorenz", "Joni Sherman", "Lee Gu", "Lidia Holloway", "Lynne Robbins", "Nestor Wilke",
+  "Patti Fernandez", "Pradeep Gupta"].map((displayName, index) => {
+  const alias = displayName.split(" ")[0].toLowerCase() + displayName.split(" ")[1][0].toLowerCase();
+  return {
+    id: `00000000-0000-0000-0000-0000000001${String(index).padStart(2, "0")}`,
+    displayName,
+    userPrincipalName: `${alias}@contoso.com`,
+    mail: `${alias}@contoso.com`,
+    jobTitle: "Contoso employee",
+  };
+})];
+
+// A 1x1 JPEG
+const photo = Buffer.from(
+  "/9j/4AAQSkZJRgABAQEASABIAAD/2wBDAP//////////////////////////////////////////////////////////////////////////////////////wgALCAABAAEBAREA/8QAFBABAAAAAAAAAAAAAAAAAAAAAP/aAAgBAQABPxA=",
+  "base64"
+);
+
+const app = express();
+app.use(express.json());
+
+let requestCount = 0;
+app.use((req, res, next) => {
+  console.log(`[mock-graph] ${req.method} ${req.originalUrl}`);
+  if (!req.headers.authorization?.startsWith("Bearer ")) {
+    res.status(401).json({ error: { code: "InvalidAuthenticationToken", message: "Access token is empty." } });
+    return;
+  }
+  requestCount++;
+  if (throttleEvery > 0 && requestCount % throttleEvery === 0) {
+    res.setHeader("Retry-After", "1");
+    res.status(429).json({ error: { code: "TooManyRequests", message: "Too many requests" } });
+    return;
+  }
+  next();
+});
+
+// Page a list the way Graph does: $top items, then an @odata.nextLink carrying $skip
+function sendPage(req: express.Request, res: express.Response, items: unknown[]) {
+  const top = parseInt(String(req.query.$top || "10"), 10);
+  const skip = parseInt(String(req.query.$skip || "0"), 10);
+  const page: { [key: string]: unknown } = { value: items.slice(skip, skip + top) };
+  if (skip + top < items.length) {
+    const next = new URL(`${origin}${req.path}`);
+    Object.entries(req.query).forEach(([key, value]) => next.searchParams.set(key, String(value)));
+    next.searchParams.set("$skip", String(skip + top));
+    page["@odata.nextLink"] = next.toString();
+  }
+  res.json(page);
+}
+
+app.get("/v1.0/me", (req, res) => {
+  res.json(me);
+});
+
+app.get("/v1.0/me/manager", (req, res) => {
+  if (process.env.MOCK_GRAPH_NO_MANAGER === "true") {
+    res.status(404).json({ error: { code: "Request_ResourceNotFound", message: "Resource 'manager' does not exist." } });
+    return;
+  }
+  res.json(manager);
+});
+
+app.get("/v1.0/me/photo/\\$value", (req, res) => {
+  if (process.env.MOCK_GRAPH_NO_PHOTO === "true") {
+    res.status(404).json({ error: { code: "ImageNotFound", message: "The photo wasn't found." } });
+    return;
+  }
+  res.setHeader("Content-Type", "image/jpeg");
+  res.send(photo);
+});
+
+// $search as sent by the bot: "text" for people, "displayName:text" OR "mail:text" for users
+function matchesSearch(user: { displayName: string; mail: string }, search: unknown): boolean {
+  const text = String(search || "").match(/"(?:\w+:)?([^"]*)"/)?.[1]?.toLowerCase();
+  return !text || user.displayName.toLowerCase().includes(text) || user.mail.toLowerCase().includes(text);
+}
+
+app.get("/v1.0/users", (req, res) => {
+  sendPage(req, res, users.filter((user) => matchesSearch(user, req.query.$search)));
+});
+
+// The people the user works with most: everyone but the user, the manager first
+app.get("/v1.0/me/people", (req, res) => {
+  sendPage(req, res, users
+    .filter((user) => user !== me && matchesSearch(user, req.query.$search))
+    .map(({ mail, ...user }) => ({ ...user, scoredEmailAddresses: [{ address: mail }], personType: { class: "Person" } })));
+});
+
+app.get("/v1.0/me/mailboxSettings", (req, res) => {
+  res.json({ timeZone: mailboxTimeZone });
+});
+
+// A working day of meetings for every weekday in the requested range, and an all-day event on Mondays
+app.get("/v1.0/me/calendarView", (req, res) => {
+  const start = new Date(String(req.query.startDateTime));
+  const end = new Date(String(req.query.endDateTime));
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    res.status(400).json({ error: { code: "ErrorInvalidParameter", message: "startDateTime and endDateTime are required." } });
+    return;
+  }
+  const timeZone = /outlook\.timezone="([^"]+)"/.exec(String(req.headers.prefer || ""))?.[1] || "UTC";
+  const at = (date: string, time: string) => ({ dateTime: `${date}T${time}:00.0000000`, timeZone });
+
+  const events: unknown[] = [];
+  for (let day = new Date(start.toISOString().substring(0, 10)); day < end; day = new Date(day.getTime() + 24 * 60 * 60 * 1000)) {
+    const date = day.toISOString().substring(0, 10);
+    const next = new Date(day.getTime() + 24 * 60 * 60 * 1000).toISOString().substring(0, 10);
+    const weekday = day.getUTCDay();
+    if (weekday === 0 || weekday === 6) {
+      continue;
+    }
+    const meeting = (id: string, subject: string, from: string, to: string, extra: object = {}) => ({
+      id: `${date}-${id}`,
+      subject,
+      start: at(date, from),
+      end: at(date, to),
+      isAllDay: false,
+      isCancelled: false,
+      organizer: { emailAddress: { name: manager.displayName, address: manager.mail } },
+      webLink: `https://outlook.office.com/calendar/item/${date}-${id}`,
+      ...extra,
+    });
+    if (weekday === 1) {
+      events.push({ ...meeting("planning", "Sprint planning day", "00:00", "00:00"), end: at(next, "00:00"), isAllDay: true });
+    }
+    events.push(
+      meeting("standup", "Team standup", "09:00", "09:15", {
+        location: { displayName: "Microsoft Teams Meeting" },
+        onlineMeeting: { joinUrl: `https://teams.microsoft.com/l/meetup-join/mock-${date}-standup` },
+      }),
+      meeting("one-on-one", "1:1 with Miriam", "11:00", "11:30", { location: { displayName: "Miriam's office" } }),
+      meeting("review", "Campaign review", "14:00", "15:00", {
+        location: { displayName: "Conf Room Rainier" },
+        organizer: { emailAddress: { name: me.displayName, address: me.mail } },
+      }),
+    );
+  }
+  sendPage(req, res, events);
+});
+
+// Three suggestions on the first weekday of the window, or none when MOCK_GRAPH_NO_TIMES=true
+app.post("/v1.0/me/findMeetingTimes", (req, res) => {
+  const slot = req.body?.timeConstraint?.timeSlots?.[0];
+  const duration = /^PT(\d+)M$/.exec(String(req.body?.meetingDuration || ""));
+  if (!slot?.start?.dateTime || !duration) {
+    res.status(400).json({ error: { code: "ErrorInvalidRequest", message: "timeConstraint and meetingDuration are required." } });
+    return;
+  }
+  if (process.env.MOCK_GRAPH_NO_TIMES === "true") {
+    res.json({ emptySuggestionsReason: "attendeesUnavailable", meetingTimeSuggestions: [] });
+    return;
+  }
+  const timeZone = slot.start.timeZone || "UTC";
+  let day = new Date(`${String(slot.start.dateTime).substring(0, 10)}T00:00:00Z`);
+  while (day.getUTCDay() === 0 || day.getUTCDay() === 6) {
+    day = new Date(day.getTime() + 24 * 60 * 60 * 1000);
+  }
+  const date = day.toISOString().substring(0, 10);
+  const minutes = parseInt(duration[1], 10);
+  const time = (hour: number, offset = 0) => {
+    const total = hour * 60 + offset;
+    return `${date}T${String(Math.floor(total / 60)).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}:00.0000000`;
+  };
+  res.json({
+    emptySuggestionsReason: "",
+    meetingTimeSuggestions: [10, 13, 16].map((hour) => ({
+      confidence: 100,
+      organizerAvailability: "free",
+      suggestionReason: "Suggested because it is one of the nearest times when all attendees are available.",
+      meetingTimeSlot: { start: { dateTime: time(hour), timeZone }, end: { dateTime: time(hour, minutes), timeZone } },
+    })),
+  });
+});
+
+// Events are kept by transactionId, so a repeated request returns the same event as Graph does
+const createdEvents = new Map<string, unknown>();
+app.post("/v1.0/me/events", (req, res) => {
+  const { transactionId } = req.body || {};
+  if (transactionId && createdEvents.has(transactionId)) {
+    res.status(201).json(createdEvents.get(transactionId));
+    return;
+  }
+  const id = `event-${createdEvents.size + 1}`;
+  const event = {
+    id,
+    ...req.body,
+    organizer: { emailAddress: { name: me.displayName, address: me.mail } },
+    webLink: `https://outlook.office.com/calendar/item/${id}`,
+    onlineMeeting: req.body?.isOnlineMeeting ? { joinUrl: `https://teams.microsoft.com/l/meetup-join/mock-${id}` } : null,
+  };
+  createdEvents.set(transactionId || id, event);
+  res.status(201).json(event);
+});
+
+app.listen(port, () => {
+  console.log(`[mock-graph] listening on ${origin}/v1.0`);
+});
@@ -0,0 +1,335 @@
+import "isomorphic-fetch";
+import config from "../config";
+import { telemetryService } from "../telemetry";
+import { Localizer } from "../localization";
+import { STREAMING_ACCEPT_HEADER, getStreamFormat, readAgentStream } from "./agentStream";
+import { AgentResponse, MessageHistoryItem, parseAgentResponse } from "./agentResponse";
+import { CircuitBreaker } from "./circuitBreaker";
+
+export type AgentErrorKind = "timeout" | "http" | "unauthorized" | "network" | "circuitOpen";
+
+/**
+ * A failed call to the downstream agent. The message is for logs and telemetry only;
+ * use getAgentErrorMessage() for text that can be shown to users.
+ */
+export class AgentError extends Error {
+  constructor(public kind: AgentErrorKind, message: string, public statusCode?: number) {
+    super(message);
+    this.name = "AgentError";
+  }
+}
+
+export interface AgentChatRequest {
+  chatId: string;
+  sessionId: string;
+  message: string;
+  // Earlier turns of the conversation, oldest first
+  history?: MessageHistoryItem[];
+  // Receives text chunks as they arrive when the agent streams
+  onDelta?: (delta: string) => Promise<void> | void;
+  // The user's token for the agent (see agentTokenProvider.ts), sent as a bearer token
+  accessToken?: string;
+  // The user's settings, so answers use their time zone, working hours, language and level of detail
+  preferences?: AgentUserPreferences;
+  // The locale the bot shows the user's text in (BCP 47, e.g. "de-DE"), so dates and numbers in answers match it
+  locale?: string;
+}
+
+export interface AgentUserPreferences {
+  timeZone?: string;
+  workingHours?: { start: string; end: string };
+  language?: string;
+  verbosity?: string;
+}
+
+export interface AgentClientOptions {
+  agentUrl: string;
+  clearHistoryUrl: string;
+  chatTimeoutMs: number;
+  clearTimeoutMs: number;
+  maxAttempts: number;
+  retryBaseDelayMs: number;
+  circuitFailureThreshold: number;
+  circuitResetMs: number;
+}
+
+interface CallOptions {
+  operation: string;
+  timeoutMs: number;
+  // Idempotent calls are retried on any transient failure; others only when the request never reached the agent
+  idempotent: boolean;
+  properties: Record<string, string>;
+}
+
+// Errors raised before the request was sent, so retrying can't duplicate work on the agent
+const CONNECT_ERROR_CODES = new Set(["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"]);
+
+/**
+ * Client for the FastAPI agent (AGENT_URL / CLEAR_HISTORY_URL).
+ * Every call has a timeout and carries the current trace context. Transient failures are
+ * retried with jittered exponential backoff, and a circuit breaker fails fast while the
+ * agent is down.
+ */
+export class AgentClient {
+  private options: AgentClientOptions;
+  private circuit: CircuitBreaker;
+
+  constructor(options: Partial<AgentClientOptions> = {}) {
+    this.options = {
+      agentUrl: config.agentUrl,
+      clearHistoryUrl: config.clearHistoryUrl,
+      chatTimeoutMs: config.agentTimeoutMs,
+      clearTimeoutMs: config.agentClearTimeoutMs,
+      maxAttempts: config.agentMaxAttempts,
+      retryBaseDelayMs: config.agentRetryBaseDelayMs,
+      circuitFailureThreshold: config.agentCircuitFailureThreshold,
+      circuitResetMs: config.agentCircuitResetMs,
+      ...options,
+    };
+    this.circuit = new CircuitBreaker("Agent", {
+      failureThreshold: this.options.circuitFailureThreshold,
+      resetTimeoutMs: this.options.circuitResetMs,
+    });
+  }
+
+  /**
+   * Send a user message to the agent and return the complete, parsed answer.
+   * Streams when request.onDelta is given, streaming is enabled and the agent supports it.
+   */
+  async chat(request: AgentChatRequest): Promise<AgentResponse> {
+    const { chatId, sessionId, message, history = [], onDelta, accessToken, preferences, locale } = request;
+    const streaming = config.agentStreaming && !!onDelta;
+    const url = this.options.agentUrl;
+
+    telemetryService.trackCustomEvent('External_AI_Request', {
+      sessionId,
+      chatId,
+      url,
+      messageLength: message.length.toString(),
+      historyLength: history.length.toString(),
+      userToken: (!!accessToken).toString()
+    });
+
+    const response = await this.call(url, {
+      method: 'POST',
+      headers: {
+        'Accept': streaming ? STREAMING_ACCEPT_HEADER : 'application/json',
+        ...getAuthorizationHeader(accessToken)
+      },
+      body: JSON.stringify({
+        session_id: sessionId,
+        message,
+        history,
+        ...(preferences ? { preferences: getPreferencesPayload(preferences) } : {}),
+        ...(locale ? { locale } : {}),
+        ...(streaming ? { stream: true } : {})
+      })
+    }, {
+      operation: 'External_AI_API',
+      timeoutMs: this.options.chatTimeoutMs,
+      idempotent: false,
+      properties: { sessionId, chatId, url }
+    }, async (response) => {
+      const streamFormat = streaming ? getStreamFormat(response.headers.get('content-type')) : undefined;
+      if (streamFormat) {
+        let streamedText = '';
+        let chunks = 0;
+        for await (const delta of readAgentStream(response, streamFormat)) {
+          streamedText += delta;
+          chunks++;
+          await onDelta(delta);
+        }
+        return { payload: streamedText as unknown, length: streamedText.length, streamFormat, chunks };
+      }
+
+      const text = await response.text();
+      let payload: unknown = text;
+      try {
+        payload = JSON.parse(text);
+      } catch {
+        // Plain-text answer
+      }
+      return { payload, length: text.length };
+    });
+
+    telemetryService.trackCustomEvent('External_AI_Success', {
+      sessionId,
+      chatId,
+      url,
+      ...(response.streamFormat ? { streamFormat: response.streamFormat, chunks: response.chunks.toString() } : {}),
+      responseLength: response.length.toString()
+    });
+
+    return parseAgentResponse(response.payload);
+  }
+
+  /**
+   * Ask the agent to forget the history of a session. Safe to retry.
+   */
+  async clearHistory(sessionId: string, accessToken?: string): Promise<void> {
+    const url = this.options.clearHistoryUrl;
+    await this.call(url, {
+      method: 'POST',
+      headers: getAuthorizationHeader(accessToken),
+      body: JSON.stringify({ session_id: sessionId })
+    }, {
+      operation: 'Clear_History_API',
+      timeoutMs: this.options.clearTimeoutMs,
+      idempotent: true,
+      properties: { sessionId, url }
+    }, async () => undefined);
+  }
+
+  getHealth() {
+    return this.circuit.getState();
+  }
+
+  private async call<T>(
+    url: string,
+    init: RequestInit,
+    options: CallOptions,
+    handleResponse: (response: Response) => Promise<T>
+  ): Promise<T> {
+    const operationTimer = telemetryService.startOperation(options.operation);
+
+    if (!this.circuit.canAttempt()) {
+      const error = new AgentError("circuitOpen", `Agent circuit is open; ${options.operation} not attempted`);
+      telemetryService.trackCustomEvent('External_AI_Error', {
+        ...options.properties,
+        operation: options.operation,
+        errorKind: error.kind,
+        error: error.message
+      });
+      operationTimer.stop(false, error.message);
+      throw error;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await this.attempt(url, init, options.timeoutMs, handleResponse);
+        this.circuit.recordSuccess();
+        operationTimer.stop(true);
+        return result;
+      } catch (error) {
+        const agentError = this.toAgentError(error, options.timeoutMs);
+        const retry = attempt < this.options.maxAttempts && this.isRetryable(agentError, error, options.idempotent);
+
+        telemetryService.trackCustomEvent('External_AI_Error', {
+          ...options.properties,
+          operation: options.operation,
+          attempt: attempt.toString(),
+          willRetry: retry.toString(),
+          errorKind: agentError.kind,
+          ...(agentError.statusCode ? { statusCode: agentError.statusCode.toString() } : {}),
+          error: agentError.message
+        });
+
+        if (!retry) {
+          // A client error (4xx other than 429) means the agent is up and answering
+          const clientError = agentError.kind === "unauthorized" ||
+            (agentError.kind === "http" && agentError.statusCode < 500 && agentError.statusCode !== 429);
+          if (clientError) {
+            this.circuit.recordSuccess();
+          } else {
+            this.circuit.recordFailure();
+          }
+          operationTimer.stop(false, agentError.message);
+          throw agentError;
+        }
+        await new Promise((resolve) => setTimeout(resolve, this.getBackoffDelay(attempt)));
+      }
+    }
+  }
+
+  private async attempt<T>(
+    url: string,
+    init: RequestInit,
+    timeoutMs: number,
+    handleResponse: (response: Response) => Promise<T>
+  ): Promise<T> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+    const headers = new Headers(init.headers);
+    headers.set('Content-Type', 'application/json');
+    // Add OpenTelemetry trace context for distributed tracing
+    // This connects your bot telemetry with the FastAPI service telemetry
+    Object.entries(telemetryService.getTraceHeaders()).forEach(([key, value]) => {
+      if (typeof value === 'string') {
+        headers.set(key, value);
+      }
+    });
+
+    try {
+      const response = await fetch(url, { ...init, headers, signal: controller.signal });
+      if (response.status === 401) {
+        throw new AgentError("unauthorized", `Agent rejected the request (401) calling URL: ${url}`, 401);
+      }
+      if (!response.ok) {
+        throw new AgentError("http", `HTTP error! status: ${response.status} calling URL: ${url}`, response.status);
+      }
+      // The timeout also covers reading the body, including a stream
+      return await handleResponse(response);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private toAgentError(error: unknown, timeoutMs: number): AgentError {
+    if (error instanceof AgentError) {
+      return error;
+    }
+    if ((error as Error)?.name === "AbortError") {
+      return new AgentError("timeout", `Agent did not respond within ${timeoutMs}ms`);
+    }
+    return new AgentError("network", error instanceof Error ? error.message : String(error));
+  }
+
+  private isRetryable(agentError: AgentError, cause: unknown, idempotent: boolean): boolean {
+    const code = (cause as { cause?: { code?: string }; code?: string })?.cause?.code || (cause as { code?: string })?.code;
+    if (code && CONNECT_ERROR_CODES.has(code)) {
+      return true;
+    }
+    if (!idempotent) {
+      return false;
+    }
+    return (
+      agentError.kind === "timeout" ||
+      agentError.kind === "network" ||
+      agentError.statusCode === 429 ||
+      (agentError.statusCode !== undefined && agentError.statusCode >= 500)
+    );
+  }
+
+  // Exponential backoff with full jitter
+  private getBackoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.options.retryBaseDelayMs * 2 ** (attempt - 1), 10000);
+    return Math.floor(Math.random() * ceiling);
+  }
+}
+
+/**
+ * Text to show a user when an agent call failed. Never includes the raw error.
+ */
+export function getAgentErrorMessage(error: unknown, localizer: Localizer): string {
+  if (error instanceof AgentError && (error.kind === "circuitOpen" || error.kind === "unauthorized" || error.kind === "timeout")) {
+    return localizer.t(`agent.${error.kind}`);
+  }
+  return localizer.t("agent.failed");
+}
+
+function getAuthorizationHeader(accessToken?: string): Record<string, string> {
+  return accessToken ? { 'Authorization': `Bearer ${accessToken}` } : {};
+}
+
+// Snake case, like the rest of the request body
+function getPreferencesPayload(preferences: AgentUserPreferences): Record<string, unknown> {
+  return {
+    time_zone: preferences.timeZone,
+    working_hours: preferences.workingHours,
+    language: preferences.language,
+    verbosity: preferences.verbosity,
+  };
+}
+
+export const agentClient = new AgentClient();
@@ -0,0 +1,294 @@
+/**
+ * Agent response contract.
+ *
+ * The agent answers with a JSON object (snake_case, as produced by the FastAPI service):
+ * {
+ *   "version": "1",
+ *   "text": "Markdown answer shown to the user",
+ *   "tool_results": [{ "tool": "search_users", "content": <JSON value or JSON string> }],
+ *   "users": [{ "id", "display_name", "job_title", "department", "mail", "user_principal_name" }],
+ *   "suggested_actions": [{ "title": "Book 10:00", "value": "book the 10:00 slot" }],
+ *   "attachments": [{ "content_type": "application/vnd.microsoft.card.adaptive", "content": { ... } }],
+ *   "messages": [{ "role": "user" | "assistant" | "tool", "content": "..." }]
+ * }
+ * Every field except "version" is optional. Tool results whose content is a list of users
+ * are surfaced as users. Responses without a version (plain text, { response }, or an
+ * array of chat messages) are still accepted and mapped onto the same shape.
+ */
+
+import { Localizer } from "../localization";
+
+export const AGENT_RESPONSE_VERSION = "1";
+
+export interface MessageHistoryItem {
+  role: 'user' | 'assistant' | 'system' | 'tool';
+  content: string;
+}
+
+export interface AgentUser {
+  id?: string;
+  displayName: string;
+  jobTitle?: string;
+  department?: string;
+  mail?: string;
+  userPrincipalName?: string;
+}
+
+export interface AgentToolResult {
+  tool?: string;
+  content: unknown;
+}
+
+export interface AgentSuggestedAction {
+  title: string;
+  value?: string;
+}
+
+export interface AgentAttachment {
+  contentType: string;
+  content: unknown;
+  name?: string;
+}
+
+export interface AgentResponse {
+  version: string;
+  text?: string;
+  toolResults: AgentToolResult[];
+  users: AgentUser[];
+  suggestedActions: AgentSuggestedAction[];
+  attachments: AgentAttachment[];
+  messages: MessageHistoryItem[];
+  // Set by the bot on the placeholder answer used when the agent couldn't be reached
+  failed?: boolean;
+}
+
+// A JSON object from the agent, before its fields are checked
+type JsonObject = { [key: string]: unknown };
+
+export class AgentResponseVersionError extends Error {
+  constructor(public version: string) {
+    super(`Unsupported agent response version "${version}"; expected ${AGENT_RESPONSE_VERSION}`);
+    this.name = "AgentResponseVersionError";
+  }
+}
+
+/**
+ * Turn whatever the agent returned into an AgentResponse.
+ */
+export function parseAgentResponse(payload: unknown): AgentResponse {
+  if (typeof payload === "string") {
+    try {
+      payload = JSON.parse(payload);
+    } catch {
+      // Not JSON, treat as plain text
+      return createAgentResponse({ text: payload as string });
+    }
+  }
+  return processAIResponse(payload);
+}
+
+export function createAgentResponse(partial: Partial<AgentResponse> = {}): AgentResponse {
+  return {
+    version: AGENT_RESPONSE_VERSION,
+    toolResults: [],
+    users: [],
+    suggestedActions: [],
+    attachments: [],
+    messages: [],
+    ...partial,
+  };
+}
+
+// Process AI response, handling both the versioned contract and legacy shapes
+function processAIResponse(data: unknown): AgentResponse {
+  if (typeof data === "string") {
+    return createAgentResponse({ text: data });
+  }
+  if (data === null || typeof data !== "object") {
+    return createAgentResponse({ text: String(data) });
+  }
+
+  // Check if it's an array of conversation messages
+  if (Array.isArray(data)) {
+    return parseConversationResponse(data);
+  }
+
+  const fields = data as JsonObject;
+
+  // Versioned contract
+  if (fields.version !== undefined) {
+    return parseContract(fields);
+  }
+
+  // Check if it's a single message object
+  if (fields.role && typeof fields.content === "string" && fields.content) {
+    return createAgentResponse({ text: fields.content });
+  }
+
+  // Check if it has a specific response or message field
+  if (typeof fields.response === "string") {
+    return createAgentResponse({ text: fields.response });
+  }
+  if (typeof fields.message === "string") {
+    return createAgentResponse({ text: fields.message });
+  }
+
+  // For other JSON objects, try to extract meaningful content
+  return createAgentResponse({ text: extractMeaningfulContent(fields) });
+}
+
+function parseContract(data: JsonObject): AgentResponse {
+  const version = String(data.version);
+  if (version.split(".")[0] !== AGENT_RESPONSE_VERSION) {
+    throw new AgentResponseVersionError(version);
+  }
+
+  const toolResults: AgentToolResult[] = asObjectArray(data.tool_results).map((result) => ({
+    tool: typeof result.tool === "string" ? result.tool : undefined,
+    content: result.content,
+  }));
+  const users = [...toAgentUsers(asObjectArray(data.users)), ...processToolResults(toolResults)];
+
+  const suggestedActions: AgentSuggestedAction[] = [];
+  for (const action of asObjectArray(data.suggested_actions)) {
+    if (typeof action.title === "string") {
+      suggestedActions.push({ title: action.title, value: typeof action.value === "string" ? action.value : action.title });
+    }
+  }
+
+  const attachments: AgentAttachment[] = [];
+  for (const attachment of asObjectArray(data.attachments)) {
+    if (typeof attachment.content_type === "string") {
+      attachments.push({
+        contentType: attachment.content_type,
+        content: attachment.content,
+        name: typeof attachment.name === "string" ? attachment.name : undefined,
+      });
+    }
+  }
+
+  return createAgentResponse({
+    version,
+    text: typeof data.text === "string" ? data.text : undefined,
+    toolResults,
+    users,
+    suggestedActions,
+    attachments,
+    messages: asObjectArray(data.messages).filter(isHistoryItem),
+  });
+}
+
+// Parse an array of chat messages: the last assistant message is the answer,
+// tool messages are checked for user lists, and the turns are kept for history.
+// Without an answer the text is left out; the renderers show a localized placeholder instead.
+function parseConversationResponse(messages: unknown[]): AgentResponse {
+  const relevantMessages = asObjectArray(messages).filter(
+    (msg): msg is JsonObject & { role: MessageHistoryItem["role"] } =>
+      typeof msg.role === "string" && ['user', 'assistant', 'tool'].includes(msg.role)
+  );
+  const conversationItems: MessageHistoryItem[] = relevantMessages.map((msg) => ({
+    role: msg.role,
+    content: typeof msg.content === "string" ? msg.content : JSON.stringify(msg.content ?? ''),
+  }));
+
+  const toolResults: AgentToolResult[] = relevantMessages
+    .filter((msg) => msg.role === 'tool')
+    .map((msg) => ({ tool: typeof msg.name === "string" ? msg.name : undefined, content: msg.content }));
+
+  const lastAssistantMessage = relevantMessages.filter((msg) => msg.role === 'assistant').pop();
+  const text = typeof lastAssistantMessage?.content === "string" && lastAssistantMessage.content ? lastAssistantMessage.content : undefined;
+
+  return createAgentResponse({ text, toolResults, users: processToolResults(toolResults), messages: conversationItems });
+}
+
+/**
+ * Collect the users returned by tools. Tool content may be a JSON value or a JSON string;
+ * anything that isn't a list of users is left in toolResults untouched.
+ */
+export function processToolResults(toolResults: AgentToolResult[]): AgentUser[] {
+  const users: AgentUser[] = [];
+  for (const result of toolResults) {
+    let content = result.content;
+    if (typeof content === "string") {
+      try {
+        content = JSON.parse(content);
+      } catch {
+        continue;
+      }
+    }
+    if (Array.isArray(content) && content.length > 0 && isJsonObject(content[0]) && content[0].display_name) {
+      users.push(...toAgentUsers(asObjectArray(content)));
+    }
+  }
+  return users;
+}
+
+/**
+ * Markdown list of users, used as the plain-text fallback for person cards.
+ */
+export function formatUserList(users: AgentUser[], localizer: Localizer): string {
+  if (users.length === 0) {
+    return localizer.t("agent.noUsers");
+  }
+
+  let formatted = `${localizer.t("agent.foundUsers", { count: users.length })}\n\n`;
+  users.forEach((user, index) => {
+    formatted += `${index + 1}. **${user.displayName || localizer.t("agent.noName")}**\n`;
+    if (user.jobTitle) formatted += `   • ${localizer.t("agent.jobTitle")}: ${user.jobTitle}\n`;
+    if (user.department) formatted += `   • ${localizer.t("agent.department")}: ${user.department}\n`;
+    if (user.mail) formatted += `   • ${localizer.t("common.email")}: ${user.mail}\n`;
+    formatted += '\n';
+  });
+  return formatted;
+}
+
+function toAgentUsers(users: JsonObject[]): AgentUser[] {
+  const agentUsers: AgentUser[] = [];
+  for (const user of users) {
+    if (typeof user.display_name === "string") {
+      agentUsers.push({
+        id: optionalString(user.id),
+        displayName: user.display_name,
+        jobTitle: optionalString(user.job_title),
+        department: optionalString(user.department),
+        mail: optionalString(user.mail),
+        userPrincipalName: optionalString(user.user_principal_name),
+      });
+    }
+  }
+  return agentUsers;
+}
+
+// Extract meaningful content from generic JSON objects
+function extractMeaningfulContent(obj: JsonObject): string {
+  // Common fields that might contain meaningful content
+  const contentFields = ['content', 'text', 'message', 'response', 'result', 'data'];
+
+  for (const field of contentFields) {
+    const value = obj[field];
+    if (value && typeof value === 'string') {
+      return value;
+    }
+  }
+
+  // If no meaningful field found, stringify the object
+  return JSON.stringify(obj, null, 2);
+}
+
+function isHistoryItem(item: JsonObject): item is JsonObject & MessageHistoryItem {
+  return typeof item.role === "string" && ['user', 'assistant', 'system', 'tool'].includes(item.role) && typeof item.content === "string";
+}
+
+function isJsonObject(value: unknown): value is JsonObject {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+// The objects in a JSON array; anything else in it, or a value that isn't an array, is skipped
+function asObjectArray(value: unknown): JsonObject[] {
+  return Array.isArray(value) ? value.filter(isJsonObject) : [];
+}
+
+// Empty strings count as missing
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
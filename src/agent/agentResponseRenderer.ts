@@ -0,0 +1,123 @@
+import { Activity, ActionTypes, Attachment, CardFactory } from "botbuilder";
+import {
+  ADAPTIVE_CARD_SCHEMA,
+  ADAPTIVE_CARD_VERSION,
+  AdaptiveCardValidationError,
+  validateAdaptiveCard,
+} from "../cards";
+import { telemetryService } from "../telemetry";
+import { Localizer } from "../localization";
+import { AgentResponse, AgentUser, formatUserList } from "./agentResponse";
+
+// Longest user list shown as cards; the rest is summarised
+const MAX_PERSON_CARDS = 10;
+
+/**
+ * Build the Teams message for an agent response: the text, person cards for users,
+ * any cards the agent attached, and suggested actions as quick replies.
+ */
+export function renderAgentResponse(response: AgentResponse, localizer: Localizer): Partial<Activity> {
+  const attachments: Attachment[] = [];
+
+  if (response.users.length > 0) {
+    attachments.push(createPeopleCard(response.users, localizer));
+  }
+
+  for (const attachment of response.attachments) {
+    if (attachment.contentType === CardFactory.contentTypes.adaptiveCard) {
+      try {
+        validateAdaptiveCard(attachment.content);
+      } catch (error) {
+        // Drop cards Teams can't render rather than failing the whole reply
+        if (error instanceof AdaptiveCardValidationError) {
+          telemetryService.trackCustomEvent('AI_Response_InvalidCard', { errors: error.errors.join('; ') });
+          continue;
+        }
+        throw error;
+      }
+    }
+    attachments.push({ contentType: attachment.contentType, content: attachment.content, name: attachment.name });
+  }
+
+  const activity: Partial<Activity> = {};
+  if (response.text) {
+    activity.text = response.text;
+  } else if (attachments.length === 0) {
+    activity.text = localizer.t("agent.responseReceived");
+  }
+  if (attachments.length > 0) {
+    activity.attachments = attachments;
+  }
+  if (response.suggestedActions.length > 0) {
+    activity.suggestedActions = {
+      to: [],
+      actions: response.suggestedActions.map((action) => ({
+        type: ActionTypes.ImBack,
+        title: action.title,
+        value: action.value,
+      })),
+    };
+  }
+  return activity;
+}
+
+/**
+ * One Adaptive Card listing people, each with chat and email actions.
+ */
+export function createPeopleCard(users: AgentUser[], localizer: Localizer): Attachment {
+  const shown = users.slice(0, MAX_PERSON_CARDS);
+  const body: any[] = [
+    {
+      type: "TextBlock",
+      text: localizer.t("agent.foundPeople", { count: users.length }),
+      weight: "Bolder",
+      size: "Medium",
+    },
+    ...shown.map((user) => createPersonContainer(user, localizer)),
+  ];
+  if (users.length > shown.length) {
+    body.push({
+      type: "TextBlock",
+      text: localizer.t("agent.morePeople", { count: users.length - shown.length }),
+      isSubtle: true,
+    });
+  }
+
+  const card = {
+    type: "AdaptiveCard",
+    $schema: ADAPTIVE_CARD_SCHEMA,
+    version: ADAPTIVE_CARD_VERSION,
+    fallbackText: formatUserList(users, localizer),
+    body,
+  };
+  validateAdaptiveCard(card);
+  return CardFactory.adaptiveCard(card);
+}
+
+function createPersonContainer(user: AgentUser, localizer: Localizer): any {
+  const details = [user.jobTitle, user.department].filter(Boolean).join(" · ");
+  const address = user.userPrincipalName || user.mail;
+
+  const actions: any[] = [];
+  if (address) {
+    actions.push({
+      type: "Action.OpenUrl",
+      title: localizer.t("common.chat"),
+      url: `https://teams.microsoft.com/l/chat/0/0?users=${encodeURIComponent(address)}`,
+    });
+  }
+  if (user.mail) {
+    actions.push({ type: "Action.OpenUrl", title: localizer.t("common.email"), url: `mailto:${user.mail}` });
+  }
+
+  return {
+    type: "Container",
+    separator: true,
+    items: [
+      { type: "TextBlock", text: user.displayName, weight: "Bolder", wrap: true },
+      ...(details ? [{ type: "TextBlock", text: details, isSubtle: true, spacing: "None", wrap: true }] : []),
+      ...(user.mail ? [{ type: "TextBlock", text: user.mail, isSubtle: true, spacing: "None", wrap: true }] : []),
+      ...(actions.length > 0 ? [{ type: "ActionSet", actions }] : []),
+    ],
+  };
+}
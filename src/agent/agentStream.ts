@@ -0,0 +1,110 @@
+/**
+ * Reading incremental agent responses.
+ * The agent may answer with Server-Sent Events (text/event-stream) or newline-delimited
+ * JSON (application/x-ndjson). Each event is either plain text or JSON carrying the next
+ * piece of text in "delta" (or "content"/"token"). A "[DONE]" event ends the stream.
+ */
+
+export const STREAMING_ACCEPT_HEADER = "text/event-stream, application/x-ndjson;q=0.9, application/json;q=0.8";
+
+export type AgentStreamFormat = "sse" | "ndjson";
+
+export function getStreamFormat(contentType: string | null): AgentStreamFormat | undefined {
+  const type = (contentType || "").toLowerCase();
+  if (type.includes("text/event-stream")) {
+    return "sse";
+  }
+  if (type.includes("application/x-ndjson") || type.includes("application/jsonl")) {
+    return "ndjson";
+  }
+  return undefined;
+}
+
+/**
+ * Yield the text deltas of a streaming agent response, in order.
+ */
+export async function* readAgentStream(response: Response, format: AgentStreamFormat): AsyncGenerator<string> {
+  if (!response.body) {
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+  // SSE events end with a blank line, NDJSON records with a newline
+  const separator = format === "sse" ? /\r?\n\r?\n/ : /\r?\n/;
+
+  for await (const chunk of iterateBody(response.body)) {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    let match = separator.exec(buffer);
+    while (match) {
+      const record = buffer.substring(0, match.index);
+      buffer = buffer.substring(match.index + match[0].length);
+
+      const payload = format === "sse" ? parseSseEvent(record) : record.trim();
+      if (payload === "[DONE]") {
+        return;
+      }
+      const delta = payload ? extractDelta(payload) : undefined;
+      if (delta) {
+        yield delta;
+      }
+      match = separator.exec(buffer);
+    }
+  }
+
+  // Flush a final record that wasn't terminated by a separator
+  buffer += decoder.decode();
+  const tail = format === "sse" ? parseSseEvent(buffer) : buffer.trim();
+  if (tail && tail !== "[DONE]") {
+    const delta = extractDelta(tail);
+    if (delta) {
+      yield delta;
+    }
+  }
+}
+
+// Join the data: lines of one SSE event; comments and other fields are ignored
+function parseSseEvent(event: string): string {
+  return event
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.substring(5).replace(/^ /, ""))
+    .join("\n");
+}
+
+function extractDelta(payload: string): string | undefined {
+  try {
+    const data = JSON.parse(payload);
+    if (typeof data === "string") {
+      return data;
+    }
+    for (const field of ["delta", "content", "token", "text"]) {
+      if (typeof data?.[field] === "string") {
+        return data[field];
+      }
+    }
+    return undefined;
+  } catch {
+    // Not JSON: the event is the text itself
+    return payload;
+  }
+}
+
+async function* iterateBody(body: any): AsyncGenerator<Uint8Array> {
+  if (typeof body[Symbol.asyncIterator] === "function") {
+    for await (const chunk of body) {
+      yield typeof chunk === "string" ? new TextEncoder().encode(chunk) : chunk;
+    }
+    return;
+  }
+
+  const reader = body.getReader();
+  try {
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+      yield result.value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
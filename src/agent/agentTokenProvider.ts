@@ -0,0 +1,86 @@
+import { TurnContext } from "botbuilder";
+import { OnBehalfOfUserCredential } from "@microsoft/teamsfx";
+import { sign } from "jsonwebtoken";
+import oboAuthConfig from "../authConfig";
+import config from "../config";
+import { OboTokenCache } from "../graph";
+
+// Fake tokens when AGENT_AUTH_MOCK is on; scripts/fake-agent.ts verifies them with the same secret
+const MOCK_ISSUER = "https://fake-agent-issuer.local/";
+const MOCK_AUDIENCE = "api://fake-agent";
+const MOCK_TOKEN_LIFETIME_SECONDS = 60 * 60;
+
+/**
+ * Access tokens for the downstream agent, issued on behalf of the signed-in user so the agent
+ * can act as them (AGENT_AUTH_SCOPE). Tokens are cached in memory per user until shortly before
+ * they expire; without one the user goes through the SSO prompt, which is silent once they have
+ * consented.
+ */
+export class AgentTokenProvider {
+  constructor(private tokenCache: OboTokenCache = new OboTokenCache()) {}
+
+  // Off per deployment with AGENT_USER_AUTH=false, or when no agent scope is configured
+  get enabled(): boolean {
+    return config.agentUserAuth && (!!config.agentAuthScope || config.agentAuthMock);
+  }
+
+  get scopes(): string[] {
+    return config.agentAuthScope ? [config.agentAuthScope] : [];
+  }
+
+  /**
+   * A token for the user who sent the activity that can be used without signing in, or undefined
+   * when the user has to sign in first. In mock mode a fake token is always returned.
+   */
+  getCachedToken(context: TurnContext): string | undefined {
+    if (config.agentAuthMock) {
+      return this.createMockToken(context);
+    }
+    const objectId = context.activity.from?.aadObjectId;
+    const tenantId = context.activity.conversation?.tenantId;
+    if (!objectId || !tenantId) {
+      return undefined;
+    }
+    return this.tokenCache.getCachedToken(tenantId, objectId, this.scopes);
+  }
+
+  /**
+   * Exchange the user's SSO token for a token for the agent, or return the cached one.
+   * Throws the OBO credential's error (code "UiRequiredError") when the user hasn't consented.
+   */
+  async getToken(ssoToken: string): Promise<string> {
+    return this.tokenCache.getToken(ssoToken, this.scopes, () =>
+      new OnBehalfOfUserCredential(ssoToken, oboAuthConfig).getToken(this.scopes)
+    );
+  }
+
+  /**
+   * Forget the user's token after the agent rejected it, so the next message signs in again.
+   */
+  invalidate(accessToken: string): void {
+    this.tokenCache.invalidate(accessToken);
+  }
+
+  // Claims shaped like a delegated Entra ID token, taken from the activity
+  private createMockToken(context: TurnContext): string {
+    const { from, conversation } = context.activity;
+    const scope = config.agentAuthScope;
+    return sign(
+      {
+        tid: conversation?.tenantId || "mock-tenant",
+        oid: from?.aadObjectId || from?.id,
+        name: from?.name,
+        scp: scope ? scope.substring(scope.lastIndexOf("/") + 1) : "access_as_user",
+      },
+      config.agentAuthMockSecret,
+      {
+        algorithm: "HS256",
+        issuer: MOCK_ISSUER,
+        audience: scope ? scope.substring(0, scope.lastIndexOf("/")) : MOCK_AUDIENCE,
+        expiresIn: MOCK_TOKEN_LIFETIME_SECONDS,
+      }
+    );
+  }
+}
+
+export const agentTokenProvider = new AgentTokenProvider();
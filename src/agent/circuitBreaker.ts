@@ -0,0 +1,85 @@
+import { telemetryService } from "../telemetry";
+
+export type CircuitState = "closed" | "open" | "halfOpen";
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before one trial call is let through
+  resetTimeoutMs: number;
+}
+
+/**
+ * Fails fast while a dependency is down.
+ * After failureThreshold consecutive failures the circuit opens and calls are rejected
+ * without being attempted. Once resetTimeoutMs has passed a single trial call is allowed
+ * (half-open); its outcome closes or re-opens the circuit. State changes are tracked in telemetry.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private name: string, private options: CircuitBreakerOptions) {}
+
+  /**
+   * Whether a call may be attempted now. In half-open state only one trial call is allowed.
+   */
+  canAttempt(): boolean {
+    if (this.state === "open" && Date.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      this.transition("halfOpen");
+    }
+    if (this.state === "halfOpen") {
+      if (this.trialInFlight) {
+        return false;
+      }
+      this.trialInFlight = true;
+      return true;
+    }
+    return this.state === "closed";
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    if (this.state !== "closed") {
+      this.transition("closed");
+    }
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+    if (this.state === "halfOpen" || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openedAt = Date.now();
+      if (this.state !== "open") {
+        this.transition("open");
+      }
+    }
+  }
+
+  getState(): { state: CircuitState; consecutiveFailures: number; openedAt?: string } {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.state === "closed" ? undefined : new Date(this.openedAt).toISOString(),
+    };
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.state;
+    this.state = state;
+
+    const eventName = {
+      open: 'Circuit_Opened',
+      halfOpen: 'Circuit_HalfOpen',
+      closed: 'Circuit_Closed',
+    }[state];
+    telemetryService.trackCustomEvent(eventName, {
+      dependency: this.name,
+      previousState: previous,
+      consecutiveFailures: this.consecutiveFailures.toString()
+    });
+  }
+}
@@ -0,0 +1,9 @@
+// Agent module exports
+export * from './agentStream';
+export * from './streamingResponder';
+export * from './circuitBreaker';
+export * from './agentClient';
+export * from './agentTokenProvider';
+export * from './agentResponse';
+export * from './agentResponseRenderer';
+export * from './messageHistory';
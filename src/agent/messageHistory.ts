@@ -0,0 +1,84 @@
+import config from "../config";
+import { Localizer } from "../localization";
+import { MessageHistoryItem } from "./agentResponse";
+
+export interface MessageHistoryLimits {
+  maxMessages: number;
+  maxTokens: number;
+}
+
+const defaultLimits = (): MessageHistoryLimits => ({
+  maxMessages: config.messageHistoryMaxMessages,
+  maxTokens: config.messageHistoryMaxTokens,
+});
+
+/**
+ * Rough token count (about four characters per token), good enough for keeping the
+ * history sent to the agent within budget without pulling in a tokenizer.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil((text?.length || 0) / 4);
+}
+
+/**
+ * Append items to a conversation's history and trim it to the window.
+ * Returns a new array; the input is not modified.
+ */
+export function appendToHistory(
+  history: MessageHistoryItem[],
+  items: MessageHistoryItem[],
+  limits: MessageHistoryLimits = defaultLimits()
+): MessageHistoryItem[] {
+  return trimHistory([...history, ...items], limits);
+}
+
+/**
+ * Drop the oldest messages until the history fits both the message count and the token
+ * budget. The most recent message is always kept, and the window never starts with an
+ * orphaned assistant or tool message.
+ */
+export function trimHistory(
+  history: MessageHistoryItem[],
+  limits: MessageHistoryLimits = defaultLimits()
+): MessageHistoryItem[] {
+  let start = Math.max(0, history.length - limits.maxMessages);
+  let tokens = history.slice(start).reduce((total, item) => total + estimateTokens(item.content), 0);
+
+  while (tokens > limits.maxTokens && start < history.length - 1) {
+    tokens -= estimateTokens(history[start].content);
+    start++;
+  }
+  while (start < history.length - 1 && history[start].role !== 'user') {
+    start++;
+  }
+  return history.slice(start);
+}
+
+/**
+ * Markdown summary of the most recent turns, for the "history" command.
+ */
+export function formatHistorySummary(history: MessageHistoryItem[], localizer: Localizer, maxItems = 10): string {
+  if (history.length === 0) {
+    return localizer.t("history.empty");
+  }
+
+  const tokens = history.reduce((total, item) => total + estimateTokens(item.content), 0);
+  const recent = history.slice(-maxItems);
+  let summary = localizer.t("history.title", {
+    messages: localizer.t("history.messages", { count: history.length }),
+    tokens: localizer.formatNumber(tokens),
+  }) + '\n\n';
+  if (recent.length < history.length) {
+    summary += `${localizer.t("history.showingLast", { count: recent.length })}\n\n`;
+  }
+  recent.forEach((item) => {
+    const speaker = item.role === 'user' ? localizer.t("history.you") : item.role === 'assistant' ? localizer.t("history.assistant") : item.role;
+    summary += `• **${speaker}:** ${truncate(item.content.replace(/\s+/g, ' '), 120)}\n`;
+  });
+  summary += `\n${localizer.t("history.footer")}`;
+  return summary;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.substring(0, length - 1)}…` : text;
+}
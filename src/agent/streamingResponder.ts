@@ -0,0 +1,99 @@
+import { Activity, ActivityTypes, TurnContext } from "botbuilder";
+import config from "../config";
+
+/**
+ * Shows a streamed agent answer in Teams as it is generated.
+ * In 1:1 Teams chats this uses the Teams streaming protocol (typing activities carrying
+ * a "streaminfo" entity, closed by a final message). Elsewhere the first chunk is sent as a
+ * message that is then updated in place. Updates are throttled to STREAMING_UPDATE_INTERVAL_MS,
+ * as Teams rejects streams that update faster than about once per second.
+ */
+export class StreamingResponder {
+  private text = "";
+  private streamId?: string;
+  private messageId?: string;
+  private sequence = 0;
+  private lastUpdate = 0;
+  private pendingUpdate: Promise<void> = Promise.resolve();
+  private useTeamsStreaming: boolean;
+  private failed = false;
+
+  constructor(private context: TurnContext) {
+    const activity = context.activity;
+    this.useTeamsStreaming =
+      activity.channelId === "msteams" && (activity.conversation?.conversationType || "personal") === "personal";
+  }
+
+  /**
+   * True once anything has been shown to the user
+   */
+  get started(): boolean {
+    return !!(this.streamId || this.messageId);
+  }
+
+  append(delta: string): Promise<void> {
+    this.text += delta;
+    const now = Date.now();
+    if (this.failed || now - this.lastUpdate < config.streamingUpdateIntervalMs) {
+      return this.pendingUpdate;
+    }
+    this.lastUpdate = now;
+    this.pendingUpdate = this.pendingUpdate.then(() => this.sendUpdate()).catch((error) => {
+      // Stop streaming updates; finish() still delivers the complete answer
+      console.warn('Streaming update failed, falling back to a single message:', error instanceof Error ? error.message : error);
+      this.failed = true;
+    });
+    return this.pendingUpdate;
+  }
+
+  /**
+   * Close the stream with the complete reply, which may carry attachments as well as text.
+   * Sends a normal message if nothing was streamed.
+   */
+  async finish(final: string | Partial<Activity> = this.text): Promise<void> {
+    await this.pendingUpdate;
+    const reply: Partial<Activity> = typeof final === "string" ? { text: final } : final;
+
+    if (this.useTeamsStreaming && this.streamId && !this.failed) {
+      await this.context.sendActivity({
+        ...reply,
+        type: ActivityTypes.Message,
+        entities: [...(reply.entities || []), { type: "streaminfo", streamId: this.streamId, streamType: "final" }],
+      });
+      return;
+    }
+
+    if (this.messageId && !this.failed) {
+      await this.context.updateActivity({ ...reply, type: ActivityTypes.Message, id: this.messageId });
+      return;
+    }
+
+    await this.context.sendActivity({ ...reply, type: ActivityTypes.Message });
+  }
+
+  private async sendUpdate(): Promise<void> {
+    if (this.useTeamsStreaming) {
+      const activity: Partial<Activity> = {
+        type: ActivityTypes.Typing,
+        text: this.text,
+        entities: [{
+          type: "streaminfo",
+          streamType: "streaming",
+          streamSequence: ++this.sequence,
+          ...(this.streamId ? { streamId: this.streamId } : {}),
+        }],
+      };
+      const response = await this.context.sendActivity(activity);
+      // The id of the first streaming activity identifies the stream
+      this.streamId = this.streamId || response?.id;
+      return;
+    }
+
+    if (!this.messageId) {
+      const response = await this.context.sendActivity(this.text);
+      this.messageId = response?.id;
+    } else {
+      await this.context.updateActivity({ type: ActivityTypes.Message, id: this.messageId, text: this.text });
+    }
+  }
+}
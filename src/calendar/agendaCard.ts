@@ -0,0 +1,107 @@
+import { Activity } from "botbuilder";
+import { ADAPTIVE_CARD_SCHEMA, ADAPTIVE_CARD_VERSION, createCardActivity } from "../cards";
+import { Localizer } from "../localization";
+import { Agenda, CalendarEvent, addDays, getLocalDateTime } from "./calendarService";
+
+// Keeps the card well under the Teams message size limit
+const MAX_EVENTS = 25;
+
+/**
+ * The user's events grouped by day, with time, subject, location, organizer and a join button
+ * for online meetings.
+ */
+export function createAgendaCard(agenda: Agenda, localizer: Localizer): Partial<Activity> {
+  const lastDate = addDays(agenda.endDate, -1);
+  const title = agenda.startDate === lastDate
+    ? localizer.t("agenda.titleDay", { date: localizer.formatDate(agenda.startDate) })
+    : localizer.t("agenda.titleRange", { start: localizer.formatDate(agenda.startDate), end: localizer.formatDate(lastDate) });
+
+  const body: any[] = [
+    { type: "TextBlock", text: title, weight: "Bolder", size: "Medium", wrap: true },
+    { type: "TextBlock", text: localizer.t("agenda.timeZone", { timeZone: agenda.timeZone }), isSubtle: true, spacing: "None", wrap: true },
+  ];
+
+  if (agenda.events.length === 0) {
+    body.push({ type: "TextBlock", text: localizer.t("agenda.empty"), wrap: true });
+  }
+
+  const shown = agenda.events.slice(0, MAX_EVENTS);
+  for (let date = agenda.startDate; date < agenda.endDate; date = addDays(date, 1)) {
+    // Events that started before the range are listed on its first day
+    const events = shown.filter((event) => getEventDay(event, agenda.startDate) === date);
+    if (events.length === 0) {
+      continue;
+    }
+    if (agenda.startDate !== lastDate) {
+      body.push({ type: "TextBlock", text: localizer.formatDate(date), weight: "Bolder", separator: true, spacing: "Medium" });
+    }
+    body.push(...events.map((event) => createEventContainer(event, date, localizer)));
+  }
+
+  if (agenda.events.length > shown.length) {
+    body.push({
+      type: "TextBlock",
+      text: localizer.t("agenda.more", { count: agenda.events.length - shown.length }),
+      isSubtle: true,
+      wrap: true,
+    });
+  }
+
+  return createCardActivity({
+    type: "AdaptiveCard",
+    $schema: ADAPTIVE_CARD_SCHEMA,
+    version: ADAPTIVE_CARD_VERSION,
+    body,
+  });
+}
+
+function createEventContainer(event: CalendarEvent, date: string, localizer: Localizer): any {
+  const details = [
+    event.location?.displayName,
+    event.organizer?.emailAddress?.name && localizer.t("agenda.organizer", { name: event.organizer.emailAddress.name }),
+  ].filter(Boolean);
+  const joinUrl = event.onlineMeeting?.joinUrl || event.onlineMeetingUrl;
+
+  const items: any[] = [
+    { type: "TextBlock", text: event.subject || localizer.t("common.noTitle"), weight: "Bolder", wrap: true },
+  ];
+  if (details.length > 0) {
+    items.push({ type: "TextBlock", text: details.join(" · "), isSubtle: true, spacing: "None", wrap: true });
+  }
+  if (joinUrl) {
+    items.push({ type: "ActionSet", actions: [{ type: "Action.OpenUrl", title: localizer.t("common.join"), url: joinUrl }] });
+  }
+
+  return {
+    type: "Container",
+    spacing: "Medium",
+    ...(event.webLink ? { selectAction: { type: "Action.OpenUrl", title: localizer.t("common.openInOutlook"), url: event.webLink } } : {}),
+    items: [
+      {
+        type: "ColumnSet",
+        columns: [
+          { type: "Column", width: "90px", items: [{ type: "TextBlock", text: formatEventTime(event, date, localizer), wrap: true }] },
+          { type: "Column", width: "stretch", items },
+        ],
+      },
+    ],
+  };
+}
+
+function getEventDay(event: CalendarEvent, firstDate: string): string {
+  const day = getLocalDateTime(event.start).substring(0, 10);
+  return day < firstDate ? firstDate : day;
+}
+
+// "09:00 - 09:30", "All day", or with the date when the event starts or ends on another day
+function formatEventTime(event: CalendarEvent, date: string, localizer: Localizer): string {
+  if (event.isAllDay) {
+    return localizer.t("agenda.allDay");
+  }
+  const formatPart = (value: string) => {
+    const day = value.substring(0, 10);
+    const time = value.substring(11, 16);
+    return day === date ? time : `${localizer.formatDate(day, true)} ${time}`;
+  };
+  return `${formatPart(getLocalDateTime(event.start))} - ${formatPart(getLocalDateTime(event.end))}`;
+}
@@ -0,0 +1,217 @@
+import { GraphService, GraphServiceError } from "../graph";
+
+// Used for users without mailbox settings
+const DEFAULT_TIME_ZONE = "UTC";
+// Widen the UTC query window by the largest UTC offsets, then filter on local times
+const MAX_UTC_OFFSET_MS = 14 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A date and time as Graph returns it: wall-clock time in the given zone
+export interface GraphDateTime {
+  dateTime: string;
+  timeZone: string;
+}
+
+export interface CalendarEvent {
+  id: string;
+  subject?: string;
+  start: GraphDateTime;
+  end: GraphDateTime;
+  isAllDay?: boolean;
+  isCancelled?: boolean;
+  location?: { displayName?: string };
+  organizer?: { emailAddress?: { name?: string; address?: string } };
+  onlineMeeting?: { joinUrl?: string } | null;
+  onlineMeetingUrl?: string | null;
+  webLink?: string;
+}
+
+export interface MeetingTimeSuggestion {
+  confidence?: number;
+  organizerAvailability?: string;
+  suggestionReason?: string;
+  meetingTimeSlot: { start: GraphDateTime; end: GraphDateTime };
+}
+
+export interface MeetingTimes {
+  suggestions: MeetingTimeSuggestion[];
+  // Set when there are no suggestions: attendeesUnavailable, organizerUnavailable, locationsUnavailable or unknown
+  emptySuggestionsReason?: string;
+}
+
+export interface NewMeeting {
+  subject: string;
+  // Wall-clock times in timeZone
+  start: string;
+  end: string;
+  timeZone: string;
+  attendees: string[];
+  // Graph returns the existing event when an event with this ID was already created, so retries don't double-book
+  transactionId?: string;
+}
+
+export interface UpcomingEvents {
+  // Time zone the event times are in
+  timeZone: string;
+  events: CalendarEvent[];
+}
+
+export interface Agenda {
+  // Time zone the event times are in
+  timeZone: string;
+  // First day, and the day after the last day (YYYY-MM-DD)
+  startDate: string;
+  endDate: string;
+  events: CalendarEvent[];
+}
+
+/**
+ * Calendar queries for the signed-in user. Event times are returned in the user's mailbox time zone.
+ */
+export class CalendarService {
+  constructor(private graph: GraphService) {}
+
+  /**
+   * The time zone set in the user's Outlook settings, as a Windows or IANA name.
+   */
+  async getMailboxTimeZone(): Promise<string> {
+    try {
+      const settings = await this.graph.get<{ timeZone?: string }>("/me/mailboxSettings", { query: { $select: "timeZone" } });
+      return settings?.timeZone || DEFAULT_TIME_ZONE;
+    } catch (error) {
+      // Users without an Exchange Online mailbox have no settings
+      if (error instanceof GraphServiceError && error.kind === "notFound") {
+        return DEFAULT_TIME_ZONE;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Events from the start of startDate to the end of the day before endDate, in the given time zone
+   * (the user's preference), or else the mailbox time zone.
+   */
+  async getAgenda(startDate: string, endDate: string, preferredTimeZone?: string): Promise<Agenda> {
+    const timeZone = preferredTimeZone || await this.getMailboxTimeZone();
+
+    // calendarView takes UTC bounds, and converting a Windows time zone name to an offset isn't
+    // possible here. Query a window wide enough for any offset and keep the events that overlap
+    // the range in local time, which is how Graph returns them with the Prefer header.
+    const events = await this.graph.getAll<CalendarEvent>("/me/calendarView", {
+      query: {
+        startDateTime: new Date(Date.parse(`${startDate}T00:00:00Z`) - MAX_UTC_OFFSET_MS).toISOString(),
+        endDateTime: new Date(Date.parse(`${endDate}T00:00:00Z`) + MAX_UTC_OFFSET_MS).toISOString(),
+        $select: "subject,start,end,isAllDay,isCancelled,location,organizer,onlineMeeting,onlineMeetingUrl,webLink",
+        $orderby: "start/dateTime",
+        $top: 50,
+      },
+      headers: { Prefer: `outlook.timezone="${timeZone}"` },
+    });
+
+    const rangeStart = `${startDate}T00:00:00`;
+    const rangeEnd = `${endDate}T00:00:00`;
+    return {
+      timeZone,
+      startDate,
+      endDate,
+      events: events
+        .filter((event) => getLocalDateTime(event.start) < rangeEnd && getLocalDateTime(event.end) > rangeStart)
+        .sort((a, b) => getLocalDateTime(a.start).localeCompare(getLocalDateTime(b.start))),
+    };
+  }
+
+  /**
+   * Events that haven't ended yet and start in the next days days, soonest first. When text is
+   * given, only events whose subject contains it (ignoring case).
+   */
+  async getUpcomingEvents(text: string, days: number, maxEvents: number): Promise<UpcomingEvents> {
+    const timeZone = await this.getMailboxTimeZone();
+    const now = Date.now();
+    const events = await this.graph.getAll<CalendarEvent>("/me/calendarView", {
+      query: {
+        startDateTime: new Date(now).toISOString(),
+        endDateTime: new Date(now + days * DAY_MS).toISOString(),
+        $select: "subject,start,end,isAllDay,isCancelled,location,organizer,onlineMeeting,onlineMeetingUrl,webLink",
+        $orderby: "start/dateTime",
+        $top: 50,
+      },
+      headers: { Prefer: `outlook.timezone="${timeZone}"` },
+    });
+
+    // calendarView can't filter on the subject, so match here
+    const search = text.trim().toLowerCase();
+    return {
+      timeZone,
+      events: events
+        .filter((event) => !event.isCancelled && (!search || (event.subject || "").toLowerCase().includes(search)))
+        .sort((a, b) => getLocalDateTime(a.start).localeCompare(getLocalDateTime(b.start)))
+        .slice(0, maxEvents),
+    };
+  }
+
+  /**
+   * Times in working hours when the user and the attendees are free, between the start of startDate
+   * and the start of endDate in timeZone. Suggested times are returned in timeZone.
+   */
+  async findMeetingTimes(
+    attendees: string[],
+    durationMinutes: number,
+    startDate: string,
+    endDate: string,
+    timeZone: string,
+    maxCandidates = 5
+  ): Promise<MeetingTimes> {
+    const result = await this.graph.post<{ meetingTimeSuggestions?: MeetingTimeSuggestion[]; emptySuggestionsReason?: string }>(
+      "/me/findMeetingTimes",
+      {
+        attendees: attendees.map((address) => ({ type: "required", emailAddress: { address } })),
+        timeConstraint: {
+          activityDomain: "work",
+          timeSlots: [{ start: { dateTime: `${startDate}T00:00:00`, timeZone }, end: { dateTime: `${endDate}T00:00:00`, timeZone } }],
+        },
+        meetingDuration: `PT${durationMinutes}M`,
+        maxCandidates,
+        isOrganizerOptional: false,
+        returnSuggestionReasons: true,
+      },
+      { headers: { Prefer: `outlook.timezone="${timeZone}"` } }
+    );
+    return {
+      suggestions: result?.meetingTimeSuggestions || [],
+      emptySuggestionsReason: result?.emptySuggestionsReason || undefined,
+    };
+  }
+
+  /**
+   * Create a Teams meeting on the user's calendar and invite the attendees.
+   */
+  async createEvent(meeting: NewMeeting): Promise<CalendarEvent> {
+    return this.graph.post<CalendarEvent>(
+      "/me/events",
+      {
+        subject: meeting.subject,
+        start: { dateTime: meeting.start, timeZone: meeting.timeZone },
+        end: { dateTime: meeting.end, timeZone: meeting.timeZone },
+        attendees: meeting.attendees.map((address) => ({ type: "required", emailAddress: { address } })),
+        isOnlineMeeting: true,
+        onlineMeetingProvider: "teamsForBusiness",
+        ...(meeting.transactionId ? { transactionId: meeting.transactionId } : {}),
+      },
+      { headers: { Prefer: `outlook.timezone="${meeting.timeZone}"` } }
+    );
+  }
+}
+
+/**
+ * The wall-clock part of a Graph date and time, without fractional seconds (YYYY-MM-DDTHH:mm:ss).
+ */
+export function getLocalDateTime(value: GraphDateTime): string {
+  return value.dateTime.substring(0, 19);
+}
+
+/**
+ * A calendar date (YYYY-MM-DD) moved by a number of days.
+ */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().substring(0, 10);
+}
@@ -0,0 +1,3 @@
+// Calendar module exports
+export * from './calendarService';
+export * from './agendaCard';
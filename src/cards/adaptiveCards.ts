@@ -0,0 +1,209 @@
+import { Activity, AdaptiveCardInvokeResponse, Attachment, CardFactory } from "botbuilder";
+
+// Adaptive Card schema version the bot targets. Teams desktop/mobile render 1.4 reliably.
+export const ADAPTIVE_CARD_VERSION = "1.4";
+export const ADAPTIVE_CARD_SCHEMA = "http://adaptivecards.io/schemas/adaptive-card.json";
+
+// Element and action types defined up to schema 1.4
+const ELEMENT_TYPES = new Set([
+  "TextBlock", "Image", "Media", "RichTextBlock", "TextRun",
+  "Container", "ColumnSet", "Column", "FactSet", "ImageSet", "ActionSet",
+  "Input.Text", "Input.Number", "Input.Date", "Input.Time", "Input.Toggle", "Input.ChoiceSet",
+]);
+const ACTION_TYPES = new Set([
+  "Action.OpenUrl", "Action.Submit", "Action.ShowCard", "Action.ToggleVisibility", "Action.Execute",
+]);
+
+export class AdaptiveCardValidationError extends Error {
+  constructor(public errors: string[]) {
+    super(`Invalid Adaptive Card: ${errors.join("; ")}`);
+    this.name = "AdaptiveCardValidationError";
+  }
+}
+
+/**
+ * Check a card against the schema version the bot targets.
+ * This is a structural check (known element/action types, required properties, version),
+ * not a full JSON-schema validation.
+ */
+export function validateAdaptiveCard(card: any): void {
+  const errors: string[] = [];
+
+  if (!card || typeof card !== "object" || card.type !== "AdaptiveCard") {
+    throw new AdaptiveCardValidationError(['"type" must be "AdaptiveCard"']);
+  }
+  if (!card.version) {
+    errors.push('"version" is required');
+  } else if (compareVersions(String(card.version), ADAPTIVE_CARD_VERSION) > 0) {
+    errors.push(`version ${card.version} is newer than the supported ${ADAPTIVE_CARD_VERSION}`);
+  }
+  if (card.body !== undefined && !Array.isArray(card.body)) {
+    errors.push('"body" must be an array');
+  }
+  if (card.actions !== undefined && !Array.isArray(card.actions)) {
+    errors.push('"actions" must be an array');
+  }
+
+  validateElements(card.body || [], "body", errors);
+  validateActions(card.actions || [], "actions", errors);
+
+  if (errors.length > 0) {
+    throw new AdaptiveCardValidationError(errors);
+  }
+}
+
+function validateElements(elements: any[], path: string, errors: string[]): void {
+  if (!Array.isArray(elements)) {
+    errors.push(`${path} must be an array`);
+    return;
+  }
+
+  elements.forEach((element, index) => {
+    const elementPath = `${path}[${index}]`;
+    if (!element || !ELEMENT_TYPES.has(element.type)) {
+      errors.push(`${elementPath}: unsupported element type "${element?.type}"`);
+      return;
+    }
+
+    switch (element.type) {
+      case "TextBlock":
+        if (typeof element.text !== "string") errors.push(`${elementPath}: TextBlock requires "text"`);
+        break;
+      case "Image":
+        if (typeof element.url !== "string") errors.push(`${elementPath}: Image requires "url"`);
+        break;
+      case "Container":
+      case "Column":
+        validateElements(element.items || [], `${elementPath}.items`, errors);
+        break;
+      case "ColumnSet":
+        validateElements(element.columns || [], `${elementPath}.columns`, errors);
+        break;
+      case "FactSet":
+        if (!Array.isArray(element.facts)) errors.push(`${elementPath}: FactSet requires "facts"`);
+        break;
+      case "ActionSet":
+        validateActions(element.actions || [], `${elementPath}.actions`, errors);
+        break;
+    }
+    if (element.type.startsWith("Input.") && !element.id) {
+      errors.push(`${elementPath}: ${element.type} requires "id"`);
+    }
+    if (element.selectAction) {
+      validateActions([element.selectAction], `${elementPath}.selectAction`, errors);
+    }
+  });
+}
+
+function validateActions(actions: any[], path: string, errors: string[]): void {
+  if (!Array.isArray(actions)) {
+    errors.push(`${path} must be an array`);
+    return;
+  }
+
+  actions.forEach((action, index) => {
+    const actionPath = `${path}[${index}]`;
+    if (!action || !ACTION_TYPES.has(action.type)) {
+      errors.push(`${actionPath}: unsupported action type "${action?.type}"`);
+      return;
+    }
+    if (action.type === "Action.OpenUrl" && typeof action.url !== "string") {
+      errors.push(`${actionPath}: Action.OpenUrl requires "url"`);
+    }
+    if (action.type === "Action.ShowCard") {
+      try {
+        validateAdaptiveCard({ version: ADAPTIVE_CARD_VERSION, ...action.card });
+      } catch (error) {
+        errors.push(`${actionPath}.card: ${error.message}`);
+      }
+    }
+  });
+}
+
+function compareVersions(a: string, b: string): number {
+  const [aMajor, aMinor] = a.split(".").map((n) => parseInt(n, 10) || 0);
+  const [bMajor, bMinor] = b.split(".").map((n) => parseInt(n, 10) || 0);
+  return aMajor !== bMajor ? aMajor - bMajor : aMinor - bMinor;
+}
+
+/**
+ * Plain-text rendering of a card for clients that can't show Adaptive Cards
+ * (notification toasts, older clients, screen readers).
+ */
+export function buildFallbackText(card: any): string {
+  const lines: string[] = [];
+  collectText(card.body || [], lines);
+
+  const actionTitles = (card.actions || []).map((action: any) =>
+    action.type === "Action.OpenUrl" && action.url ? `${action.title}: ${action.url}` : action.title
+  ).filter(Boolean);
+  if (actionTitles.length > 0) {
+    lines.push(actionTitles.join(" | "));
+  }
+  return lines.join("\n");
+}
+
+function collectText(elements: any[], lines: string[]): void {
+  for (const element of elements || []) {
+    switch (element?.type) {
+      case "TextBlock":
+        if (element.text) lines.push(element.text);
+        break;
+      case "RichTextBlock":
+        lines.push((element.inlines || []).map((i: any) => (typeof i === "string" ? i : i.text)).join(""));
+        break;
+      case "FactSet":
+        (element.facts || []).forEach((fact: any) => lines.push(`${fact.title}: ${fact.value}`));
+        break;
+      case "Image":
+        if (element.altText) lines.push(element.altText);
+        break;
+      case "Container":
+      case "Column":
+        collectText(element.items, lines);
+        break;
+      case "ColumnSet":
+        collectText(element.columns, lines);
+        break;
+    }
+  }
+}
+
+/**
+ * Validate a card and wrap it in a message activity, filling in the schema, the
+ * card's fallbackText and the activity summary from the card content.
+ */
+export function createCardActivity(card: any): Partial<Activity> {
+  const attachment = createCardAttachment(card);
+  return {
+    attachments: [attachment],
+    summary: attachment.content.fallbackText.split("\n")[0],
+  };
+}
+
+/**
+ * Validate a card and wrap it in an attachment, for responses that aren't messages such as
+ * messaging extension results.
+ */
+export function createCardAttachment(card: any): Attachment {
+  return CardFactory.adaptiveCard(prepareCard(card));
+}
+
+/**
+ * Validate a card and return it as the response to an Action.Execute invoke, which replaces
+ * the card the user acted on.
+ */
+export function createCardInvokeResponse(card: any): AdaptiveCardInvokeResponse {
+  return {
+    statusCode: 200,
+    type: "application/vnd.microsoft.card.adaptive",
+    value: prepareCard(card),
+  };
+}
+
+function prepareCard(card: any): any {
+  const payload = { $schema: ADAPTIVE_CARD_SCHEMA, ...card };
+  validateAdaptiveCard(payload);
+  payload.fallbackText = payload.fallbackText || buildFallbackText(payload);
+  return payload;
+}
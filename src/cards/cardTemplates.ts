@@ -0,0 +1,37 @@
+import { Template } from "adaptivecards-templating";
+import { Localizer, getLocalizer } from "../localization";
+import meetingReminder from "./templates/meetingReminder.json";
+import notification from "./templates/notification.json";
+
+/**
+ * Card templates callers can reference by name. Templates use Adaptive Card
+ * templating syntax (${...}) and are bound to caller-supplied data on the server.
+ * Their own labels come from the cardTemplates strings, as ${$host.strings.<key>}.
+ * To add a template, drop a JSON file in ./templates and register it here.
+ */
+const cardTemplates = new Map<string, object>([
+  ["meetingReminder", meetingReminder],
+  ["notification", notification],
+]);
+
+export class CardTemplateNotFoundError extends Error {
+  constructor(public templateName: string) {
+    super(`Unknown card template "${templateName}"`);
+    this.name = "CardTemplateNotFoundError";
+  }
+}
+
+export function getCardTemplateNames(): string[] {
+  return Array.from(cardTemplates.keys());
+}
+
+/**
+ * Bind a registered template to data and return the resulting card JSON, with its labels in the localizer's language.
+ */
+export function renderCardTemplate(name: string, data: object = {}, localizer: Localizer = getLocalizer()): any {
+  const payload = cardTemplates.get(name);
+  if (!payload) {
+    throw new CardTemplateNotFoundError(name);
+  }
+  return new Template(payload).expand({ $root: data, $host: { strings: localizer.strings("cardTemplates") } });
+}
@@ -0,0 +1,3 @@
+// Adaptive Card module exports
+export * from './adaptiveCards';
+export * from './cardTemplates';
@@ -1,8 +1,31 @@
 import { TurnContext } from "botbuilder";
+import { CommandDefinition, ParsedCommandArgs } from "./commandParser";
 
-export interface SSOCommand {
-  commandMessage: string;
+// An Action.Execute submitted from one of a command's cards; data holds the card data and the input values
+export interface SSOCardAction {
+  verb: string;
+  data: { [key: string]: any };
+}
+
+export interface SSOCardActionResult {
+  // Adaptive Card JSON that replaces the submitted card
+  card: any;
+  // Sign the user in and call continueWithSSOToken with the action
+  continueWithSSO?: boolean;
+}
+
+export interface SSOCommand extends CommandDefinition {
+  // Delegated Microsoft Graph scopes the command needs, e.g. ["Calendars.Read"]. Defaults to User.Read.
+  // Users are only asked to consent to the scopes they haven't granted already.
+  scopes?: string[];
   operationWithSSOToken(
-    context: TurnContext, ssoToken: string
+    context: TurnContext, ssoToken: string, args: ParsedCommandArgs
   ): Promise<any> | undefined;
+
+  // Verbs of the Action.Execute buttons on this command's cards, routed here by TeamsBot.onAdaptiveCardInvoke
+  cardVerbs?: string[];
+  // Answer a card action straight away, before any sign-in; the invoke must be answered within seconds
+  handleCardAction?(context: TurnContext, action: SSOCardAction): Promise<SSOCardActionResult>;
+  // Finish a card action that needs Microsoft Graph, in a later turn once the SSO token is available
+  continueWithSSOToken?(context: TurnContext, ssoToken: string, action: SSOCardAction): Promise<void>;
 }
@@ -1,11 +1,36 @@
+import { Storage } from "botbuilder";
 import { SSOCommand } from "./SSOCommand";
+import { CommandRegistry } from "./commandRegistry";
 import { ShowUserProfile } from "./showUserProfile";
+import { ShowAgenda } from "./showAgenda";
+import { FindMeetingTime, ScheduleMeeting } from "./scheduleMeeting";
+import { SchedulingFlowStore } from "../scheduling";
+import { UserPreferencesStore } from "../preferences";
+import { CommandDefinition } from "./commandParser";
 
 
-export const SSOCommands: SSOCommand[] = [
-  new ShowUserProfile(),
-];
+// Without preferences, calendar commands use the time zone from the user's Outlook settings
+export function createSSOCommands(storage: Storage, preferences?: UserPreferencesStore): SSOCommand[] {
+  const schedulingFlowStore = new SchedulingFlowStore(storage);
+  return [
+    new ShowUserProfile(),
+    new ShowAgenda(preferences),
+    new FindMeetingTime(schedulingFlowStore, preferences),
+    new ScheduleMeeting(schedulingFlowStore, preferences),
+  ];
+}
 
-export const SSOCommandMap: Map<string, SSOCommand> = new Map(
-  SSOCommands.map((command) => [command.commandMessage, command])
-);
+// Commands that need the user's SSO token; they run through SSODialog
+export function createSSOCommandMap(storage: Storage, preferences?: UserPreferencesStore): CommandRegistry<SSOCommand> {
+  return new CommandRegistry<SSOCommand>(createSSOCommands(storage, preferences));
+}
+
+/**
+ * The command whose cards use an Action.Execute verb.
+ */
+export function getCommandForCardVerb<T extends CommandDefinition & { cardVerbs?: string[] }>(
+  commands: CommandRegistry<T>,
+  verb: string | undefined
+): T | undefined {
+  return verb ? commands.getCommands().find((command) => command.cardVerbs?.includes(verb)) : undefined;
+}
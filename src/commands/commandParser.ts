@@ -0,0 +1,216 @@
+import { Localizer, getLocalizer } from "../localization";
+
+export type CommandArgumentType = "string" | "number" | "boolean" | "date" | "enum";
+
+export type CommandArgumentValue = string | number | boolean | Date;
+
+export type ParsedCommandArgs = { [name: string]: CommandArgumentValue | undefined };
+
+export interface CommandArgument {
+  name: string;
+  type: CommandArgumentType;
+  description?: string;
+  required?: boolean;
+  // Text defaults are parsed like typed input, so a date argument can default to "today"
+  default?: CommandArgumentValue;
+  // Allowed values of an enum argument
+  choices?: string[];
+  // Other words accepted for an enum choice, e.g. { "my manager": "manager" }
+  synonyms?: { [input: string]: string };
+  // Take the rest of the text, spaces included. Only valid on the last argument.
+  rest?: boolean;
+}
+
+export interface CommandDefinition {
+  // What the user types, matched case-insensitively; may contain spaces
+  name: string;
+  aliases?: string[];
+  description: string;
+  args?: CommandArgument[];
+  // Defaults to the name followed by the arguments
+  usage?: string;
+  // Left out of the help text
+  hidden?: boolean;
+}
+
+export interface CommandParseOptions {
+  // The user's local date (YYYY-MM-DD) that words such as "tomorrow" are relative to; defaults to today in UTC
+  today?: string;
+  // The language errors are given in, and that words such as "tomorrow" are accepted in besides English
+  localizer?: Localizer;
+}
+
+/**
+ * The text after a command name could not be parsed. The message says what was wrong and
+ * how to use the command, and can be shown to the user as is.
+ */
+export class CommandParseError extends Error {
+  constructor(public command: CommandDefinition, public reason: string, localizer: Localizer = getLocalizer()) {
+    super(`${reason}\n\n${localizer.t("commands.usage", { usage: getCommandUsage(command) })}`);
+    this.name = "CommandParseError";
+  }
+}
+
+/**
+ * Split argument text into words. Double or single quotes keep spaces inside a word.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    tokens.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return tokens;
+}
+
+/**
+ * Parse and validate the text following a command name against the command's arguments.
+ * Arguments are positional; a "rest" argument takes everything that is left.
+ */
+export function parseCommandArgs(command: CommandDefinition, argText: string, options: CommandParseOptions = {}): ParsedCommandArgs {
+  const definitions = command.args || [];
+  const localizer = options.localizer || getLocalizer();
+  const tokens = tokenize(argText);
+  const args: ParsedCommandArgs = {};
+
+  definitions.forEach((definition, index) => {
+    let raw: string | undefined;
+    if (definition.rest && index === definitions.length - 1) {
+      raw = tokens.length > 0 ? tokens.splice(0).join(" ") : undefined;
+    } else {
+      raw = tokens.shift();
+    }
+
+    if (raw === undefined || raw === "") {
+      if (definition.required) {
+        throw new CommandParseError(command, localizer.t("commands.missing", { name: definition.name }), localizer);
+      }
+      args[definition.name] = typeof definition.default === "string"
+        ? parseValue(command, definition, definition.default, options)
+        : definition.default;
+      return;
+    }
+    args[definition.name] = parseValue(command, definition, raw, options);
+  });
+
+  if (tokens.length > 0) {
+    throw new CommandParseError(command, localizer.t("commands.unexpected", { text: tokens.join(" ") }), localizer);
+  }
+  return args;
+}
+
+/**
+ * Usage line such as "agenda [when]" or "/resume <id>".
+ */
+export function getCommandUsage(command: CommandDefinition): string {
+  if (command.usage) {
+    return command.usage;
+  }
+  const args = (command.args || []).map((arg) => {
+    const label = arg.type === "enum" && arg.choices ? arg.choices.join("|") : arg.name;
+    return arg.required ? `<${label}>` : `[${label}]`;
+  });
+  return [command.name, ...args].join(" ");
+}
+
+/**
+ * Markdown help listing each command with its usage, aliases and arguments.
+ */
+export function formatCommandHelp(commands: CommandDefinition[], localizer: Localizer): string {
+  let help = `${localizer.t("help.title")}\n\n`;
+  for (const command of commands.filter((command) => !command.hidden)) {
+    help += `• **${getCommandUsage(command)}** - ${getCommandDescription(command, localizer)}`;
+    if (command.aliases?.length) {
+      help += ` ${localizer.t("help.aliases", { aliases: command.aliases.join(", ") })}`;
+    }
+    help += "\n";
+    for (const arg of (command.args || []).filter((arg) => arg.description)) {
+      help += `   ◦ ${arg.name}: ${getArgumentDescription(command, arg, localizer)}\n`;
+    }
+  }
+  help += `\n${localizer.t("help.footer")}`;
+  return help;
+}
+
+/**
+ * The command's description in the localizer's language, or as the command gives it when there
+ * is no translation (help.commands.<name without the slash>.description).
+ */
+export function getCommandDescription(command: CommandDefinition, localizer: Localizer): string {
+  const key = `${getHelpKey(command)}.description`;
+  return localizer.has(key) ? localizer.t(key) : command.description;
+}
+
+function getArgumentDescription(command: CommandDefinition, arg: CommandArgument, localizer: Localizer): string {
+  const key = `${getHelpKey(command)}.args.${arg.name}`;
+  return localizer.has(key) ? localizer.t(key) : arg.description;
+}
+
+function getHelpKey(command: CommandDefinition): string {
+  return `help.commands.${command.name.replace(/^\//, "").replace(/\W+/g, "_")}`;
+}
+
+function parseValue(command: CommandDefinition, definition: CommandArgument, raw: string, options: CommandParseOptions): CommandArgumentValue {
+  const localizer = options.localizer || getLocalizer();
+  const fail = (key: string, params: { [name: string]: string } = {}) =>
+    new CommandParseError(command, localizer.t(key, { name: definition.name, value: raw, ...params }), localizer);
+  switch (definition.type) {
+    case "number": {
+      const value = Number(raw);
+      if (!Number.isFinite(value)) {
+        throw fail("commands.notNumber");
+      }
+      return value;
+    }
+    case "boolean": {
+      const value = raw.toLowerCase();
+      if (["true", "yes", "on", "1"].includes(value)) return true;
+      if (["false", "no", "off", "0"].includes(value)) return false;
+      throw fail("commands.notBoolean");
+    }
+    case "date": {
+      const value = parseDate(raw, options.today, localizer);
+      if (!value) {
+        throw fail("commands.notDate");
+      }
+      return value;
+    }
+    case "enum": {
+      const input = raw.toLowerCase();
+      const value = definition.synonyms?.[input] || input;
+      if (!definition.choices?.includes(value)) {
+        throw fail("commands.notChoice", { choices: (definition.choices || []).join(", ") });
+      }
+      return value;
+    }
+    default:
+      return raw;
+  }
+}
+
+// today, tomorrow, yesterday (in English or the user's language) or an ISO date (YYYY-MM-DD);
+// returns midnight UTC of that day
+function parseDate(raw: string, todayDate: string | undefined, localizer: Localizer): Date | undefined {
+  const today = todayDate ? new Date(`${todayDate}T00:00:00Z`) : new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  // A Map, so that words such as "constructor" aren't taken for an offset
+  const offsets = new Map<string, number>([["yesterday", -1], ["today", 0], ["tomorrow", 1]]);
+  for (const [word, offset] of Array.from(offsets)) {
+    offsets.set(localizer.t(`commands.${word}`).toLowerCase(), offset);
+  }
+  const offset = offsets.get(raw.toLowerCase());
+  if (offset !== undefined) {
+    return validDate(new Date(today.getTime() + offset * 24 * 60 * 60 * 1000));
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(raw)) {
+    return undefined;
+  }
+  const date = validDate(new Date(`${raw}T00:00:00Z`));
+  return date && date.toISOString().substring(0, 10) === raw ? date : undefined;
+}
+
+// No Invalid Date reaches a command, e.g. from a malformed "today" option
+function validDate(date: Date): Date | undefined {
+  return isNaN(date.getTime()) ? undefined : date;
+}
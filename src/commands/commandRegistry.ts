@@ -0,0 +1,88 @@
+import { TurnContext } from "botbuilder";
+import { CommandDefinition, CommandParseOptions, ParsedCommandArgs, parseCommandArgs } from "./commandParser";
+import { SSOCardAction } from "./SSOCommand";
+import { getLocalizer } from "../localization";
+
+/**
+ * A command handled by the bot itself, without signing the user in.
+ */
+export interface BotCommand extends CommandDefinition {
+  run(context: TurnContext, args: ParsedCommandArgs): Promise<void>;
+
+  // Shows the user's own data, so in a group chat or channel it runs in the user's private chat with the bot
+  runsPrivately?: boolean;
+  // Verbs of the Action.Execute buttons on this command's cards, routed here by TeamsBot.onAdaptiveCardInvoke
+  cardVerbs?: string[];
+  // Answer a card action with the Adaptive Card JSON that replaces the submitted card
+  handleCardAction?(context: TurnContext, action: SSOCardAction): Promise<any>;
+}
+
+export interface CommandMatch<T extends CommandDefinition> {
+  command: T;
+  // What followed the command name or alias
+  argText: string;
+}
+
+/**
+ * Finds the command a message starts with. Names and aliases are matched case-insensitively
+ * on whole words, and the longest match wins, so "show profile" beats "show".
+ */
+export class CommandRegistry<T extends CommandDefinition> {
+  private commands: T[] = [];
+  private triggers: { trigger: string; command: T }[] = [];
+
+  constructor(commands: T[] = []) {
+    commands.forEach((command) => this.register(command));
+  }
+
+  register(command: T): this {
+    for (const trigger of [command.name, ...(command.aliases || [])].map((trigger) => normalize(trigger).toLowerCase())) {
+      const existing = this.triggers.find((entry) => entry.trigger === trigger);
+      if (existing) {
+        throw new Error(`Command "${command.name}" can't use "${trigger}", it is already used by "${existing.command.name}"`);
+      }
+      this.triggers.push({ trigger, command });
+    }
+    this.triggers.sort((a, b) => b.trigger.length - a.trigger.length);
+    this.commands.push(command);
+    return this;
+  }
+
+  getCommands(): T[] {
+    return [...this.commands];
+  }
+
+  match(text: string | undefined): CommandMatch<T> | undefined {
+    const normalized = normalize(text || "");
+    const lower = normalized.toLowerCase();
+    for (const { trigger, command } of this.triggers) {
+      if (lower === trigger || lower.startsWith(`${trigger} `)) {
+        return { command, argText: normalized.substring(trigger.length).trim() };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Match a message and parse its arguments. Throws CommandParseError when the arguments are invalid.
+   */
+  parse(text: string | undefined, options: CommandParseOptions = {}): { command: T; args: ParsedCommandArgs } | undefined {
+    const match = this.match(text);
+    return match && { command: match.command, args: parseCommandArgs(match.command, match.argText, options) };
+  }
+}
+
+/**
+ * Parse options for a message: relative dates are resolved against the user's local date,
+ * taken from the timestamp their client sent, and errors are in the user's language.
+ */
+export function getCommandParseOptions(context: TurnContext): CommandParseOptions {
+  // The adapter parses localTimestamp into a Date, which loses the offset; it keeps the sent text as rawLocalTimestamp
+  const localTimestamp: string | undefined = (context.activity as { rawLocalTimestamp?: string }).rawLocalTimestamp;
+  const localizer = getLocalizer(context);
+  return /^\d{4}-\d{2}-\d{2}/.test(localTimestamp || "") ? { today: localTimestamp.substring(0, 10), localizer } : { localizer };
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,359 @@
+import { TurnContext } from "botbuilder";
+import { SSOCardAction, SSOCardActionResult, SSOCommand } from "./SSOCommand";
+import { CommandArgument, ParsedCommandArgs } from "./commandParser";
+import { getCommandParseOptions } from "./commandRegistry";
+import { CalendarService, addDays, getLocalDateTime } from "../calendar";
+import { createCardActivity } from "../cards";
+import { GraphServiceError, getGraphErrorMessage, graphClientFactory } from "../graph";
+import { Localizer, getLocalizer } from "../localization";
+import {
+  MEETING_DURATIONS,
+  MeetingFormData,
+  MeetingRequest,
+  SCHEDULING_ACTIONS,
+  SchedulingAction,
+  SchedulingActionData,
+  SchedulingFlow,
+  SchedulingFlowError,
+  SchedulingFlowStore,
+  SchedulingMode,
+  createMeetingFormCard,
+  createSchedulingCard,
+  createSchedulingOutcomeCard,
+  getSchedulingVerb,
+} from "../scheduling";
+import { UserPreferencesStore } from "../preferences";
+import { telemetryService } from "../telemetry";
+
+const DEFAULT_DURATION_MINUTES = 30;
+// The form suggests looking from today through the next few days
+const DEFAULT_WINDOW_DAYS = 5;
+const MAX_WINDOW_DAYS = 14;
+const MAX_ATTENDEES = 20;
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+/**
+ * Shared by findtime and schedule: the command shows a form card, and the card's buttons
+ * (Action.Execute) move a SchedulingFlow through its steps. Steps that call Graph are answered
+ * with a progress card first and finished in continueWithSSOToken, which updates the card.
+ */
+abstract class MeetingSchedulingCommand implements SSOCommand {
+  abstract name: SchedulingMode;
+  abstract description: string;
+  abstract scopes: string[];
+
+  constructor(private flowStore: SchedulingFlowStore, private preferences?: UserPreferencesStore) {}
+
+  get cardVerbs(): string[] {
+    return SCHEDULING_ACTIONS.map((action) => getSchedulingVerb(this.name, action));
+  }
+
+  async operationWithSSOToken(context: TurnContext, ssoToken: string, args: ParsedCommandArgs) {
+    const calendar = new CalendarService(graphClientFactory.create(ssoToken, this.scopes));
+    // Suggested times are shown in the user's preferred time zone, when they have set one
+    const timeZone = (await this.preferences?.get(context))?.timeZone || await calendar.getMailboxTimeZone();
+    const today = getToday(context);
+
+    const flow = await this.flowStore.create({
+      mode: this.name,
+      userKey: getUserKey(context),
+      conversationId: context.activity.conversation.id,
+      timeZone,
+      request: {
+        attendees: args.attendees ? parseAttendees(String(args.attendees)) : [],
+        durationMinutes: DEFAULT_DURATION_MINUTES,
+        startDate: today,
+        endDate: addDays(today, DEFAULT_WINDOW_DAYS - 1),
+        subject: args.subject ? String(args.subject) : undefined,
+      },
+    });
+    await context.sendActivity(createCardActivity(createMeetingFormCard(flow, getLocalizer(context))));
+  }
+
+  async handleCardAction(context: TurnContext, action: SSOCardAction): Promise<SSOCardActionResult> {
+    const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
+    const data: Partial<SchedulingActionData> & MeetingFormData = action.data;
+    const flowId = String(data.flowId || "");
+    const revision = Number(data.revision);
+    const schedulingAction = action.verb.substring(this.name.length + 1) as SchedulingAction;
+    const localizer = getLocalizer(context);
+
+    const flow = await this.flowStore.get(context.activity.conversation.id, flowId);
+    if (!flow) {
+      return { card: createSchedulingOutcomeCard(localizer.t("scheduling.expired", { command: this.name })) };
+    }
+    if (flow.userKey !== getUserKey(context)) {
+      // Only the user who started the flow can use its buttons; leave the card as it is for everyone else
+      return { card: createSchedulingCard(flow, localizer) };
+    }
+
+    try {
+      switch (schedulingAction) {
+        case "search": {
+          if (flow.revision !== revision) {
+            throw new SchedulingFlowError("stale", flowId, flow);
+          }
+          const { request, errors } = readForm(this.name, data, getToday(context), localizer);
+          if (errors.length > 0) {
+            // Nothing is saved, so the corrected form can be sent again
+            return { card: createMeetingFormCard({ ...flow, request, error: undefined }, localizer, errors) };
+          }
+          const next = await this.advance(context, flow, revision, (draft) => {
+            draft.status = "searching";
+            draft.request = request;
+            draft.suggestions = undefined;
+            draft.emptySuggestionsReason = undefined;
+          });
+          return { card: createSchedulingCard(next, localizer), continueWithSSO: true };
+        }
+        case "book": {
+          const slot = Number(data.slot);
+          const next = await this.advance(context, flow, revision, (draft) => {
+            if (draft.status !== "suggested" || !draft.suggestions?.[slot]) {
+              throw new SchedulingFlowError("stale", flowId, flow);
+            }
+            draft.status = "booking";
+            draft.selectedSlot = slot;
+          });
+          return { card: createSchedulingCard(next, localizer), continueWithSSO: true };
+        }
+        case "edit": {
+          const next = await this.advance(context, flow, revision, (draft) => {
+            draft.status = "form";
+          });
+          return { card: createSchedulingCard(next, localizer) };
+        }
+        case "cancel": {
+          const next = await this.advance(context, flow, revision, (draft) => {
+            // A booking that is under way can't be taken back
+            if (draft.status === "booking" || draft.status === "booked") {
+              throw new SchedulingFlowError("stale", flowId, flow);
+            }
+            draft.status = "cancelled";
+          });
+          telemetryService.trackCustomEvent('Scheduling_Cancelled', { userId, conversationId, mode: this.name });
+          return { card: createSchedulingCard(next, localizer) };
+        }
+        default:
+          return { card: createSchedulingCard(flow, localizer) };
+      }
+    } catch (error) {
+      if (!(error instanceof SchedulingFlowError)) {
+        throw error;
+      }
+      // A stale card or a second click: show the flow as it is now instead of acting again
+      telemetryService.trackCustomEvent('Scheduling_Stale_Action', {
+        userId,
+        conversationId,
+        mode: this.name,
+        action: schedulingAction,
+        status: error.flow?.status || 'notFound'
+      });
+      return {
+        card: error.flow
+          ? createSchedulingCard(error.flow, localizer)
+          : createSchedulingOutcomeCard(localizer.t("scheduling.expired", { command: this.name })),
+      };
+    }
+  }
+
+  async continueWithSSOToken(context: TurnContext, ssoToken: string, action: SSOCardAction): Promise<void> {
+    const flow = await this.flowStore.get(context.activity.conversation.id, String(action.data.flowId || ""));
+    // Cancelled, or finished by another sign-in, in the meantime
+    if (!flow || (flow.status !== "searching" && flow.status !== "booking")) {
+      return;
+    }
+
+    const calendar = new CalendarService(graphClientFactory.create(ssoToken, this.scopes));
+    let next: SchedulingFlow;
+    try {
+      next = flow.status === "searching" ? await this.findTimes(context, calendar, flow) : await this.book(context, calendar, flow);
+    } catch (error) {
+      if (error instanceof SchedulingFlowError) {
+        return;
+      }
+      if (!(error instanceof GraphServiceError)) {
+        throw error;
+      }
+      // Go back a step and show what went wrong on the card
+      next = await this.flowStore.advance(flow.conversationId, flow.id, flow.revision, (draft) => {
+        draft.status = flow.status === "searching" ? "form" : "suggested";
+        draft.error = getGraphErrorMessage(error, getLocalizer(context));
+      });
+      await this.updateCard(context, next);
+      if (error.kind === "consentRequired") {
+        // SSODialog asks for consent again
+        throw error;
+      }
+      return;
+    }
+    await this.updateCard(context, next);
+  }
+
+  private async findTimes(context: TurnContext, calendar: CalendarService, flow: SchedulingFlow): Promise<SchedulingFlow> {
+    const { request } = flow;
+    const times = await calendar.findMeetingTimes(
+      request.attendees,
+      request.durationMinutes,
+      request.startDate,
+      addDays(request.endDate, 1),
+      flow.timeZone
+    );
+
+    const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
+    telemetryService.trackCustomEvent('Meeting_Times_Found', {
+      userId,
+      conversationId,
+      mode: this.name,
+      attendeeCount: request.attendees.length.toString(),
+      suggestionCount: times.suggestions.length.toString(),
+      ...(times.emptySuggestionsReason ? { emptySuggestionsReason: times.emptySuggestionsReason } : {})
+    });
+
+    return this.flowStore.advance(flow.conversationId, flow.id, flow.revision, (draft) => {
+      draft.status = "suggested";
+      draft.suggestions = times.suggestions.map((suggestion) => ({
+        start: getLocalDateTime(suggestion.meetingTimeSlot.start),
+        end: getLocalDateTime(suggestion.meetingTimeSlot.end),
+        confidence: suggestion.confidence,
+        reason: suggestion.suggestionReason,
+      }));
+      draft.emptySuggestionsReason = times.emptySuggestionsReason;
+    });
+  }
+
+  private async book(context: TurnContext, calendar: CalendarService, flow: SchedulingFlow): Promise<SchedulingFlow> {
+    const slot = flow.suggestions[flow.selectedSlot];
+    const event = await calendar.createEvent({
+      subject: flow.request.subject,
+      start: slot.start,
+      end: slot.end,
+      timeZone: flow.timeZone,
+      attendees: flow.request.attendees,
+      transactionId: flow.id,
+    });
+
+    const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
+    telemetryService.trackCustomEvent('Meeting_Scheduled', {
+      userId,
+      conversationId,
+      attendeeCount: flow.request.attendees.length.toString(),
+      durationMinutes: flow.request.durationMinutes.toString()
+    });
+
+    return this.flowStore.advance(flow.conversationId, flow.id, flow.revision, (draft) => {
+      draft.status = "booked";
+      draft.meeting = {
+        id: event.id,
+        start: event.start ? getLocalDateTime(event.start) : slot.start,
+        end: event.end ? getLocalDateTime(event.end) : slot.end,
+        webLink: event.webLink,
+        joinUrl: event.onlineMeeting?.joinUrl || event.onlineMeetingUrl || undefined,
+      };
+    });
+  }
+
+  // Remember which message holds the card, so the Graph step can update it later
+  private advance(context: TurnContext, flow: SchedulingFlow, revision: number, mutate: (draft: SchedulingFlow) => void) {
+    return this.flowStore.advance(flow.conversationId, flow.id, revision, (draft) => {
+      draft.cardActivityId = context.activity.replyToId || draft.cardActivityId;
+      mutate(draft);
+    });
+  }
+
+  private async updateCard(context: TurnContext, flow: SchedulingFlow): Promise<void> {
+    const activity = createCardActivity(createSchedulingCard(flow, getLocalizer(context)));
+    if (flow.cardActivityId) {
+      try {
+        await context.updateActivity({ ...activity, type: "message", id: flow.cardActivityId });
+        return;
+      } catch (error) {
+        // Not every channel supports updates
+        console.warn('Could not update scheduling card:', error instanceof Error ? error.message : error);
+      }
+    }
+    await context.sendActivity(activity);
+  }
+}
+
+export class FindMeetingTime extends MeetingSchedulingCommand {
+  name: SchedulingMode = "findtime";
+  aliases = ["find time", "free time"];
+  description = "Find times when you and others are free";
+  scopes = ["Calendars.Read.Shared", "MailboxSettings.Read"];
+  args: CommandArgument[] = [
+    { name: "attendees", type: "string", rest: true, description: "email addresses to fill in on the form" },
+  ];
+}
+
+export class ScheduleMeeting extends MeetingSchedulingCommand {
+  name: SchedulingMode = "schedule";
+  aliases = ["schedule meeting", "book meeting"];
+  description = "Find a time and book a Teams meeting";
+  scopes = ["Calendars.Read.Shared", "Calendars.ReadWrite", "MailboxSettings.Read"];
+  args: CommandArgument[] = [
+    { name: "subject", type: "string", rest: true, description: "the meeting subject" },
+  ];
+}
+
+// Validate the submitted form. The request keeps what was typed, so an invalid form is shown again as entered.
+function readForm(
+  mode: SchedulingMode,
+  data: MeetingFormData,
+  today: string,
+  localizer: Localizer
+): { request: MeetingRequest; errors: string[] } {
+  const errors: string[] = [];
+  const attendees = parseAttendees(String(data.attendees || ""));
+  const durationMinutes = Number(data.duration) || DEFAULT_DURATION_MINUTES;
+  const startDate = String(data.startDate || "");
+  const endDate = String(data.endDate || "");
+  const subject = String(data.subject || "").trim();
+
+  const invalid = attendees.filter((address) => !EMAIL_PATTERN.test(address));
+  if (attendees.length === 0) {
+    errors.push(localizer.t("scheduling.noAttendees"));
+  } else if (invalid.length > 0) {
+    errors.push(localizer.t("scheduling.invalidAttendees", { addresses: invalid.join(", ") }));
+  } else if (attendees.length > MAX_ATTENDEES) {
+    errors.push(localizer.t("scheduling.tooManyAttendees", { count: MAX_ATTENDEES }));
+  }
+  if (!MEETING_DURATIONS.includes(durationMinutes)) {
+    errors.push(localizer.t("scheduling.invalidDuration"));
+  }
+  if (!isDate(startDate) || !isDate(endDate)) {
+    errors.push(localizer.t("scheduling.missingDates"));
+  } else if (startDate < today) {
+    errors.push(localizer.t("scheduling.startInPast"));
+  } else if (endDate < startDate) {
+    errors.push(localizer.t("scheduling.endBeforeStart"));
+  } else if (endDate >= addDays(startDate, MAX_WINDOW_DAYS)) {
+    errors.push(localizer.t("scheduling.windowTooLong", { count: MAX_WINDOW_DAYS }));
+  }
+  if (mode === "schedule" && !subject) {
+    errors.push(localizer.t("scheduling.missingSubject"));
+  }
+
+  return {
+    request: { attendees, durationMinutes, startDate, endDate, ...(mode === "schedule" ? { subject } : {}) },
+    errors,
+  };
+}
+
+function parseAttendees(text: string): string[] {
+  const addresses = text.split(/[,;\s]+/).map((address) => address.trim()).filter(Boolean);
+  return [...new Map(addresses.map((address) => [address.toLowerCase(), address])).values()];
+}
+
+function isDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+// The user's local date, as relative dates in commands use
+function getToday(context: TurnContext): string {
+  return getCommandParseOptions(context).today || new Date().toISOString().substring(0, 10);
+}
+
+function getUserKey(context: TurnContext): string {
+  return context.activity.from.aadObjectId || context.activity.from.id;
+}
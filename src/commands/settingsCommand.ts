@@ -0,0 +1,70 @@
+import { TurnContext } from "botbuilder";
+import { BotCommand } from "./commandRegistry";
+import { SSOCardAction } from "./SSOCommand";
+import { createCardActivity } from "../cards";
+import { telemetryService } from "../telemetry";
+import { getLocalizer, setTurnLocale } from "../localization";
+import {
+  DEFAULT_PREFERENCES,
+  SETTINGS_RESET_VERB,
+  SETTINGS_SAVE_VERB,
+  UserPreferences,
+  UserPreferencesStore,
+  createSettingsCard,
+  readSettingsForm,
+} from "../preferences";
+
+/**
+ * Shows the user's preferences on a card they can edit. Saving replaces the card with the saved values.
+ */
+export class SettingsCommand implements BotCommand {
+  name = "/settings";
+  aliases = ["settings", "preferences"];
+  description = "Change your time zone, working hours, language and notifications";
+  runsPrivately = true;
+  cardVerbs = [SETTINGS_SAVE_VERB, SETTINGS_RESET_VERB];
+
+  constructor(private preferences: UserPreferencesStore) {}
+
+  async run(context: TurnContext): Promise<void> {
+    await context.sendActivity(createCardActivity(createSettingsCard(await this.preferences.get(context), getLocalizer(context))));
+  }
+
+  async handleCardAction(context: TurnContext, action: SSOCardAction): Promise<any> {
+    const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
+    if (action.verb === SETTINGS_RESET_VERB) {
+      const saved = await this.preferences.set(context, DEFAULT_PREFERENCES);
+      telemetryService.trackCustomEvent('Settings_Reset', { userId, conversationId });
+      setTurnLocale(context, context.activity.locale);
+      return createSettingsCard(saved, getLocalizer(context), { saved: true });
+    }
+
+    const { preferences, errors } = readSettingsForm(action.data, getLocalizer(context));
+    if (errors.length > 0) {
+      telemetryService.trackCustomEvent('Settings_Invalid', { userId, conversationId, errors: errors.length.toString() });
+      return createSettingsCard(preferences, getLocalizer(context), { errors });
+    }
+    const previous = await this.preferences.get(context);
+    const saved = await this.preferences.set(context, preferences);
+    telemetryService.trackCustomEvent('Settings_Saved', {
+      userId,
+      conversationId,
+      changed: getChangedSettings(previous, saved).join(',') || 'none',
+      notificationsAllowed: saved.notificationsAllowed.toString()
+    });
+    // A new language takes effect straight away, starting with this card
+    setTurnLocale(context, saved.language || context.activity.locale);
+    return createSettingsCard(saved, getLocalizer(context), { saved: true });
+  }
+}
+
+// Names of the settings that differ, for telemetry; never the values
+function getChangedSettings(previous: UserPreferences, next: UserPreferences): string[] {
+  const changed: string[] = [];
+  if (previous.timeZone !== next.timeZone) changed.push("timeZone");
+  if (previous.workingHours.start !== next.workingHours.start || previous.workingHours.end !== next.workingHours.end) changed.push("workingHours");
+  if (previous.language !== next.language) changed.push("language");
+  if (previous.verbosity !== next.verbosity) changed.push("verbosity");
+  if (previous.notificationsAllowed !== next.notificationsAllowed) changed.push("notificationsAllowed");
+  return changed;
+}
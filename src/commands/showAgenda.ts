@@ -0,0 +1,46 @@
+import { TurnContext } from "botbuilder";
+import { SSOCommand } from "./SSOCommand";
+import { CommandArgument, ParsedCommandArgs } from "./commandParser";
+import { graphClientFactory } from "../graph";
+import { CalendarService, addDays, createAgendaCard } from "../calendar";
+import { getLocalizer } from "../localization";
+import { UserPreferencesStore } from "../preferences";
+
+// Longest range one agenda card covers
+const MAX_AGENDA_DAYS = 14;
+
+export class ShowAgenda implements SSOCommand {
+  name = "agenda";
+  aliases = ["calendar", "my meetings"];
+  scopes = ["Calendars.Read", "MailboxSettings.Read"];
+  description = "Show the events on your calendar";
+  args: CommandArgument[] = [
+    { name: "from", type: "date", default: "today", description: "first day: today, tomorrow or a date such as 2025-01-31" },
+    { name: "to", type: "date", description: "last day, for a range of up to 14 days" },
+  ];
+
+  constructor(private preferences?: UserPreferencesStore) {}
+
+  async operationWithSSOToken(context: TurnContext, ssoToken: string, args: ParsedCommandArgs) {
+    const localizer = getLocalizer(context);
+    const startDate = (args.from as Date).toISOString().substring(0, 10);
+    const lastDate = args.to ? (args.to as Date).toISOString().substring(0, 10) : startDate;
+    if (lastDate < startDate) {
+      await context.sendActivity(localizer.t("agenda.rangeReversed"));
+      return;
+    }
+    const endDate = addDays(lastDate, 1);
+    if (endDate > addDays(startDate, MAX_AGENDA_DAYS)) {
+      await context.sendActivity(localizer.t("agenda.rangeTooLong", { count: MAX_AGENDA_DAYS }));
+      return;
+    }
+
+    await context.sendActivity(localizer.t("agenda.checking"));
+
+    const calendar = new CalendarService(graphClientFactory.create(ssoToken, this.scopes));
+    // Times are shown in the user's preferred time zone, when they have set one
+    const timeZone = (await this.preferences?.get(context))?.timeZone;
+    const agenda = await calendar.getAgenda(startDate, endDate, timeZone);
+    await context.sendActivity(createAgendaCard(agenda, localizer));
+  }
+}
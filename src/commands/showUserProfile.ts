@@ -1,60 +1,65 @@
-import { ResponseType, Client } from "@microsoft/microsoft-graph-client";
-import { TokenCredentialAuthenticationProvider } from "@microsoft/microsoft-graph-client/authProviders/azureTokenCredentials";
 import { CardFactory, TurnContext } from "botbuilder";
-import { OnBehalfOfUserCredential } from "@microsoft/teamsfx";
 import { SSOCommand } from "./SSOCommand";
-import oboAuthConfig from "../authConfig";
+import { CommandArgument, ParsedCommandArgs } from "./commandParser";
+import { GraphBinaryContent, GraphService, GraphServiceError, graphClientFactory } from "../graph";
+import { Localizer, getLocalizer } from "../localization";
 
 export class ShowUserProfile implements SSOCommand {
-  commandMessage = "show";
+  name = "show";
+  aliases = ["profile", "whoami"];
+  scopes = ["User.Read"];
+  description = "Show your profile, or your manager's, from Microsoft Graph";
+  args: CommandArgument[] = [
+    {
+      name: "who",
+      type: "enum",
+      choices: ["me", "manager"],
+      synonyms: { "profile": "me", "my profile": "me", "my manager": "manager", "boss": "manager" },
+      default: "me",
+      rest: true,
+    },
+  ];
 
-  async operationWithSSOToken(context: TurnContext, ssoToken: string) {
-    await context.sendActivity(
-      "Retrieving user information from Microsoft Graph ..."
-    );
+  async operationWithSSOToken(context: TurnContext, ssoToken: string, args: ParsedCommandArgs) {
+    const localizer = getLocalizer(context);
+    await context.sendActivity(localizer.t("profile.retrieving"));
 
-    // Call Microsoft Graph half of user
-    const oboCredential = new OnBehalfOfUserCredential(ssoToken, oboAuthConfig);
-
-    // Create an instance of the TokenCredentialAuthenticationProvider by passing the tokenCredential instance and options to the constructor
-    const authProvider = new TokenCredentialAuthenticationProvider(
-      oboCredential,
-      {
-        scopes: ["User.Read"],
-      }
-    );
+    // Call Microsoft Graph on behalf of the user
+    const graph = graphClientFactory.create(ssoToken, this.scopes);
+    if (args.who === "manager") {
+      await this.showManager(context, graph, localizer);
+      return;
+    }
 
-    // Initialize Graph client instance with authProvider
-    const graphClient = Client.initWithMiddleware({
-      authProvider: authProvider,
-    });
-    const me = await graphClient.api("/me").get();
+    const me = await graph.get("/me");
     if (me) {
       await context.sendActivity(
-        `You're logged in as ${me.displayName} (${me.userPrincipalName})${
-          me.jobTitle ? `; your job title is: ${me.jobTitle}` : ""
-        }.`
+        localizer.t(me.jobTitle ? "profile.signedInWithJobTitle" : "profile.signedIn", {
+          name: me.displayName,
+          userPrincipalName: me.userPrincipalName,
+          jobTitle: me.jobTitle,
+        })
       );
 
       // show user picture
-      let photoBinary: ArrayBuffer;
+      let photo: GraphBinaryContent;
       try {
-        photoBinary = await graphClient
-          .api("/me/photo/$value")
-          .responseType(ResponseType.ARRAYBUFFER)
-          .get();
-      } catch {
-        return;
+        photo = await graph.getBinary("/me/photo/$value");
+      } catch (error) {
+        if (error instanceof GraphServiceError && error.kind === "notFound") {
+          await context.sendActivity(localizer.t("profile.noPicture"));
+          return;
+        }
+        throw error;
       }
 
-      const buffer = Buffer.from(photoBinary);
-      const imageUri = "data:image/png;base64," + buffer.toString("base64");
+      const imageUri = `data:${photo.contentType};base64,${photo.data.toString("base64")}`;
       const card = CardFactory.adaptiveCard({
         type: "AdaptiveCard",
         body: [
           {
             type: "TextBlock",
-            text: "User Picture",
+            text: localizer.t("profile.pictureTitle"),
             weight: "Bolder",
             size: "Medium"
           },
@@ -70,9 +75,26 @@ export class ShowUserProfile implements SSOCommand {
       });
       await context.sendActivity({ attachments: [card] });
     } else {
-      await context.sendActivity(
-        "Could not retrieve profile information from Microsoft Graph."
-      );
+      await context.sendActivity(localizer.t("profile.notAvailable"));
+    }
+  }
+
+  private async showManager(context: TurnContext, graph: GraphService, localizer: Localizer) {
+    let manager: any;
+    try {
+      manager = await graph.get("/me/manager");
+    } catch (error) {
+      // Graph answers 404 when no manager is set
+      if (error instanceof GraphServiceError && error.kind === "notFound") {
+        await context.sendActivity(localizer.t("profile.noManager"));
+        return;
+      }
+      throw error;
     }
+    await context.sendActivity(
+      localizer.t("profile.manager", {
+        manager: `${manager.displayName}${manager.jobTitle ? ` (${manager.jobTitle})` : ""}${manager.mail ? `, ${manager.mail}` : ""}`,
+      })
+    );
   }
 }
@@ -0,0 +1,44 @@
+import { TurnContext } from "botbuilder";
+import { BotCommand } from "./commandRegistry";
+import { telemetryService } from "../telemetry";
+import { getLocalizer } from "../localization";
+import { RateLimiter, getRateLimitSubject } from "../rateLimiting";
+
+/**
+ * Shows the user's messages today against the daily quotas. It is answered even when the
+ * quota is used up, so users can see when they can send messages again.
+ */
+export class UsageCommand implements BotCommand {
+  name = "/usage";
+  aliases = ["usage", "quota"];
+  description = "Show how many messages you have left today";
+  runsPrivately = true;
+
+  constructor(private rateLimiter: RateLimiter) {}
+
+  async run(context: TurnContext): Promise<void> {
+    const localizer = getLocalizer(context);
+    const usage = await this.rateLimiter.getUsage(getRateLimitSubject(context));
+    const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
+    telemetryService.trackCustomEvent('Usage_Viewed', {
+      userId,
+      conversationId,
+      used: usage.user.used.toString(),
+      remaining: usage.user.remaining?.toString() || 'unlimited'
+    });
+
+    const lines = [
+      usage.user.limit > 0
+        ? localizer.t("usage.userQuota", { used: usage.user.used, limit: usage.user.limit, remaining: usage.user.remaining })
+        : localizer.t("usage.userUnlimited", { used: usage.user.used }),
+      ...(usage.tenant
+        ? [localizer.t("usage.tenantQuota", { used: usage.tenant.used, limit: usage.tenant.limit, remaining: usage.tenant.remaining })]
+        : []),
+      ...(usage.userPerMinute > 0 ? [localizer.t("usage.perMinute", { count: usage.userPerMinute })] : []),
+    ];
+    await context.sendActivity(
+      `${localizer.t("usage.title")}\n\n${lines.map((line) => `• ${line}`).join("\n")}\n\n` +
+      localizer.t("usage.resets", { resetsAt: localizer.formatDateTime(usage.resetsAt) })
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { Activity } from "botbuilder";
+import { ADAPTIVE_CARD_SCHEMA, ADAPTIVE_CARD_VERSION, createCardActivity } from "../cards";
+import { CommandDefinition, getCommandDescription, getCommandUsage } from "./commandParser";
+import { Localizer } from "../localization";
+
+// Commands offered as buttons under the list; typed into the chat as if the user sent them
+const QUICK_COMMANDS = [
+  { titleKey: "welcome.showAgenda", command: "agenda" },
+  { titleKey: "welcome.help", command: "help" },
+];
+
+/**
+ * Sent when the bot is installed: what the assistant does and the commands it understands.
+ */
+export function createWelcomeCard(commands: CommandDefinition[], localizer: Localizer): Partial<Activity> {
+  const visible = commands.filter((command) => !command.hidden);
+  const names = new Set(visible.map((command) => command.name));
+
+  return createCardActivity({
+    type: "AdaptiveCard",
+    $schema: ADAPTIVE_CARD_SCHEMA,
+    version: ADAPTIVE_CARD_VERSION,
+    body: [
+      { type: "TextBlock", text: localizer.t("welcome.title"), weight: "Bolder", size: "Medium", wrap: true },
+      {
+        type: "TextBlock",
+        text: localizer.t("welcome.intro"),
+        wrap: true,
+      },
+      {
+        type: "FactSet",
+        facts: visible.map((command) => ({ title: getCommandUsage(command), value: getCommandDescription(command, localizer) })),
+      },
+      {
+        type: "TextBlock",
+        text: localizer.t("welcome.signInNote"),
+        isSubtle: true,
+        wrap: true,
+      },
+    ],
+    actions: QUICK_COMMANDS.filter((quick) => names.has(quick.command)).map((quick) => ({
+      type: "Action.Submit",
+      title: localizer.t(quick.titleKey),
+      data: { msteams: { type: "imBack", value: quick.command } },
+    })),
+  });
+}
@@ -1,3 +1,15 @@
+// NOTIFY_CALLERS is a JSON array of callers allowed to use /api/notify, see proactive/notifyAuth.ts
+function parseNotifyCallers(value: string | undefined) {
+  if (!value) {
+    return [];
+  }
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    throw new Error(`NOTIFY_CALLERS is not valid JSON: ${error.message}`);
+  }
+}
+
 const config = {
   MicrosoftAppId: process.env.BOT_ID,
   MicrosoftAppType: process.env.BOT_TYPE,
@@ -14,6 +26,83 @@ const config = {
   telemetryServiceName: process.env.TELEMETRY_SERVICE_NAME || 'ai-calendar-assistant',
   telemetryServiceVersion: process.env.TELEMETRY_SERVICE_VERSION || '1.0.0',
   environment: process.env.ENVIRONMENT || 'development',
+
+  // State storage configuration (memory | file | cosmos)
+  storageProvider: process.env.STORAGE_PROVIDER || 'memory',
+  storageFileDirectory: process.env.STORAGE_FILE_DIRECTORY || '.botstate',
+  cosmosDbEndpoint: process.env.COSMOS_DB_ENDPOINT,
+  cosmosDbUseAad: process.env.COSMOS_DB_USE_AAD === 'true',
+  cosmosDbAuthKey: process.env.COSMOS_DB_AUTH_KEY,
+  cosmosDbDatabaseId: process.env.COSMOS_DB_DATABASE_ID || 'bot-storage',
+  cosmosDbContainerId: process.env.COSMOS_DB_CONTAINER_ID || 'bot-state',
+
+  // Proactive messaging: conversation references not seen for this many days are dropped
+  conversationReferenceTtlDays: parseInt(process.env.CONVERSATION_REFERENCE_TTL_DAYS || '90', 10),
+
+  // /api/notify authentication (apiKey | hmac | entra | none)
+  notifyAuthSchemes: (process.env.NOTIFY_AUTH_SCHEMES || 'apiKey,hmac,entra').split(',').map((s) => s.trim()),
+  notifyCallers: parseNotifyCallers(process.env.NOTIFY_CALLERS),
+  notifyHmacToleranceSeconds: parseInt(process.env.NOTIFY_HMAC_TOLERANCE_SECONDS || '300', 10),
+  notifyEntraAudience: process.env.NOTIFY_ENTRA_AUDIENCE || `api://botid-${process.env.BOT_ID}`,
+
+  // Proactive delivery: retries on Teams throttling (429) and batch fan-out limits
+  notifyMaxAttempts: parseInt(process.env.NOTIFY_MAX_ATTEMPTS || '5', 10),
+  notifyRetryBaseDelayMs: parseInt(process.env.NOTIFY_RETRY_BASE_DELAY_MS || '1000', 10),
+  notifyBatchConcurrency: parseInt(process.env.NOTIFY_BATCH_CONCURRENCY || '4', 10),
+  notifyBatchMaxRecipients: parseInt(process.env.NOTIFY_BATCH_MAX_RECIPIENTS || '1000', 10),
+
+  // Downstream agent (FastAPI) endpoints and resilience settings
+  agentUrl: process.env.AGENT_URL || 'http://localhost:8989/agent_chat',
+  clearHistoryUrl: process.env.CLEAR_HISTORY_URL || 'http://localhost:8989/clear_history',
+  agentTimeoutMs: parseInt(process.env.AGENT_TIMEOUT_MS || '120000', 10),
+  agentClearTimeoutMs: parseInt(process.env.AGENT_CLEAR_TIMEOUT_MS || '10000', 10),
+  agentMaxAttempts: parseInt(process.env.AGENT_MAX_ATTEMPTS || '3', 10),
+  agentRetryBaseDelayMs: parseInt(process.env.AGENT_RETRY_BASE_DELAY_MS || '500', 10),
+  agentCircuitFailureThreshold: parseInt(process.env.AGENT_CIRCUIT_FAILURE_THRESHOLD || '5', 10),
+  agentCircuitResetMs: parseInt(process.env.AGENT_CIRCUIT_RESET_MS || '30000', 10),
+
+  // Delegated user identity for the agent: the user's SSO token is exchanged (OBO) for a token
+  // for AGENT_AUTH_SCOPE and sent as a bearer token. AGENT_USER_AUTH=false turns this off.
+  // AGENT_AUTH_MOCK signs fake tokens with AGENT_AUTH_MOCK_SECRET instead, for scripts/fake-agent.ts.
+  agentUserAuth: process.env.AGENT_USER_AUTH !== 'false',
+  agentAuthScope: process.env.AGENT_AUTH_SCOPE,
+  agentAuthMock: process.env.AGENT_AUTH_MOCK === 'true',
+  agentAuthMockSecret: process.env.AGENT_AUTH_MOCK_SECRET || 'fake-agent-secret',
+
+  // Agent response streaming: ask the agent for SSE/NDJSON and show partial answers in Teams
+  agentStreaming: process.env.AGENT_STREAMING !== 'false',
+  streamingUpdateIntervalMs: parseInt(process.env.STREAMING_UPDATE_INTERVAL_MS || '1000', 10),
+
+  // Per-conversation message history sent to the agent as context
+  messageHistoryMaxMessages: parseInt(process.env.MESSAGE_HISTORY_MAX_MESSAGES || '20', 10),
+  messageHistoryMaxTokens: parseInt(process.env.MESSAGE_HISTORY_MAX_TOKENS || '4000', 10),
+
+  // Microsoft Graph. Point GRAPH_BASE_URL at scripts/mock-graph.ts and set GRAPH_MOCK_AUTH=true to work offline.
+  graphBaseUrl: process.env.GRAPH_BASE_URL || 'https://graph.microsoft.com',
+  graphMockAuth: process.env.GRAPH_MOCK_AUTH === 'true',
+  graphMaxRetries: parseInt(process.env.GRAPH_MAX_RETRIES || '3', 10),
+  graphMaxPages: parseInt(process.env.GRAPH_MAX_PAGES || '10', 10),
+
+  // Previous agent sessions kept per user and conversation for /resume
+  sessionMaxPrevious: parseInt(process.env.SESSION_MAX_PREVIOUS || '10', 10),
+
+  // Limits on messages to the bot (see rateLimiting/rateLimiter.ts): token buckets per user, conversation
+  // and tenant (messages a minute, and how many can be sent at once), and daily message quotas. 0 turns a limit off.
+  rateLimitUserPerMinute: parseInt(process.env.RATE_LIMIT_USER_PER_MINUTE || '10', 10),
+  rateLimitUserBurst: parseInt(process.env.RATE_LIMIT_USER_BURST || '5', 10),
+  rateLimitConversationPerMinute: parseInt(process.env.RATE_LIMIT_CONVERSATION_PER_MINUTE || '30', 10),
+  rateLimitConversationBurst: parseInt(process.env.RATE_LIMIT_CONVERSATION_BURST || '15', 10),
+  rateLimitTenantPerMinute: parseInt(process.env.RATE_LIMIT_TENANT_PER_MINUTE || '600', 10),
+  rateLimitTenantBurst: parseInt(process.env.RATE_LIMIT_TENANT_BURST || '200', 10),
+  dailyQuotaUserMessages: parseInt(process.env.DAILY_QUOTA_USER_MESSAGES || '300', 10),
+  dailyQuotaTenantMessages: parseInt(process.env.DAILY_QUOTA_TENANT_MESSAGES || '0', 10),
+
+  // How long received activity ids are remembered, so Teams delivering an activity again doesn't process it twice
+  // (see idempotency/activityDeduplicator.ts). 0 turns this off.
+  activityDedupTtlSeconds: parseInt(process.env.ACTIVITY_DEDUP_TTL_SECONDS || '900', 10),
+  // How long a signin/tokenExchange id is claimed, so only one of the user's Teams clients signs them in
+  // (see idempotency/tokenExchangeDeduplicator.ts)
+  tokenExchangeDedupTtlSeconds: parseInt(process.env.TOKEN_EXCHANGE_DEDUP_TTL_SECONDS || '300', 10),
 };
 
 export default config;
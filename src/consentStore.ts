@@ -0,0 +1,74 @@
+import { Storage } from "botbuilder";
+
+const KEY_PREFIX = "graphConsent";
+
+interface ConsentRecord {
+  scopes: string[];
+  updatedAt: string;
+}
+
+/**
+ * Remembers which delegated Graph scopes each user has consented to, so SSODialog only asks
+ * for the scopes a command needs that the user hasn't granted yet.
+ * This is a cache: a lost update only means one extra consent check, and scopes are
+ * forgotten again when Graph reports that consent is missing (for example after it was revoked).
+ */
+export class ConsentStore {
+  private storage: Storage;
+
+  constructor(storage: Storage) {
+    this.storage = storage;
+  }
+
+  async getConsentedScopes(userKey: string): Promise<string[]> {
+    return (await this.read(userKey))?.scopes || [];
+  }
+
+  /**
+   * The scopes in the list that the user hasn't consented to yet.
+   */
+  async getMissingScopes(userKey: string, scopes: string[]): Promise<string[]> {
+    const consented = new Set((await this.getConsentedScopes(userKey)).map(normalizeScope));
+    return scopes.filter((scope) => !consented.has(normalizeScope(scope)));
+  }
+
+  async addScopes(userKey: string, scopes: string[]): Promise<void> {
+    const consented = await this.getConsentedScopes(userKey);
+    const known = new Set(consented.map(normalizeScope));
+    const added = scopes.filter((scope) => !known.has(normalizeScope(scope)));
+    if (added.length > 0) {
+      await this.write(userKey, [...consented, ...added]);
+    }
+  }
+
+  async removeScopes(userKey: string, scopes: string[]): Promise<void> {
+    const removed = new Set(scopes.map(normalizeScope));
+    const consented = await this.getConsentedScopes(userKey);
+    const remaining = consented.filter((scope) => !removed.has(normalizeScope(scope)));
+    if (remaining.length !== consented.length) {
+      await this.write(userKey, remaining);
+    }
+  }
+
+  private async read(userKey: string): Promise<ConsentRecord | undefined> {
+    const key = this.key(userKey);
+    const items = await this.storage.read([key]);
+    return items[key] as ConsentRecord | undefined;
+  }
+
+  private async write(userKey: string, scopes: string[]): Promise<void> {
+    const record: ConsentRecord = { scopes, updatedAt: new Date().toISOString() };
+    await this.storage.write({ [this.key(userKey)]: { ...record, eTag: "*" } });
+  }
+
+  private key(userKey: string): string {
+    return `${KEY_PREFIX}/${userKey}`;
+  }
+}
+
+/**
+ * Scopes are case-insensitive; the Graph resource prefix is optional.
+ */
+export function normalizeScope(scope: string): string {
+  return scope.trim().toLowerCase().replace(/^https:\/\/graph\.microsoft\.com\//, "");
+}
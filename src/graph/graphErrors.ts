@@ -0,0 +1,63 @@
+import { Localizer } from "../localization";
+
+export type GraphErrorKind = "consentRequired" | "unauthorized" | "notFound" | "throttled" | "failed";
+
+/**
+ * A failed Microsoft Graph call (or token exchange for one). The message is for logs and
+ * telemetry only; use getGraphErrorMessage() for text that can be shown to users.
+ */
+export class GraphServiceError extends Error {
+  constructor(
+    public kind: GraphErrorKind,
+    message: string,
+    public statusCode?: number,
+    public code?: string
+  ) {
+    super(message);
+    this.name = "GraphServiceError";
+  }
+}
+
+// Graph error codes that mean the token lacks a permission the user or an admin must grant
+const CONSENT_ERROR_CODES = new Set(["Authorization_RequestDenied", "ErrorAccessDenied", "AccessDenied"]);
+
+/**
+ * Map an error from the Graph client or the OBO credential to a GraphServiceError.
+ */
+export function toGraphServiceError(error: unknown): GraphServiceError {
+  if (error instanceof GraphServiceError) {
+    return error;
+  }
+
+  const source = error as { statusCode?: number; code?: string; message?: string };
+  const message = source?.message || String(error);
+  const code = source?.code;
+
+  // Raised by OnBehalfOfUserCredential when the user hasn't consented to a scope. When it is
+  // raised inside the Graph client's auth middleware, the client reports it as "ErrorWithCode.UiRequiredError".
+  if (code === "UiRequiredError" || code?.endsWith(".UiRequiredError")) {
+    return new GraphServiceError("consentRequired", message, undefined, code);
+  }
+
+  switch (source?.statusCode) {
+    case 401:
+      return new GraphServiceError("unauthorized", message, 401, code);
+    case 403:
+      // Other 403s (e.g. a mailbox the user can't access) aren't fixed by consenting
+      return new GraphServiceError(CONSENT_ERROR_CODES.has(code) ? "consentRequired" : "failed", message, 403, code);
+    case 404:
+      return new GraphServiceError("notFound", message, 404, code);
+    case 429:
+      return new GraphServiceError("throttled", message, 429, code);
+    default:
+      return new GraphServiceError("failed", message, source?.statusCode, code);
+  }
+}
+
+/**
+ * Text to show a user when a Graph call failed. Never includes the raw error.
+ */
+export function getGraphErrorMessage(error: unknown, localizer: Localizer): string {
+  const kind: GraphErrorKind = error instanceof GraphServiceError ? error.kind : "failed";
+  return localizer.t(`graph.${kind}`);
+}
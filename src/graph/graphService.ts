@@ -0,0 +1,214 @@
+import "isomorphic-fetch";
+import {
+  AuthenticationProvider,
+  Client,
+  Context,
+  HTTPMessageHandler,
+  Middleware,
+  RedirectHandler,
+  RedirectHandlerOptions,
+  ResponseType,
+  RetryHandler,
+  RetryHandlerOptions,
+  TelemetryHandler,
+} from "@microsoft/microsoft-graph-client";
+import { OnBehalfOfUserCredential } from "@microsoft/teamsfx";
+import oboAuthConfig from "../authConfig";
+import config from "../config";
+import { telemetryService } from "../telemetry";
+import { toGraphServiceError } from "./graphErrors";
+import { OboTokenCache } from "./oboTokenCache";
+
+// Bearer token sent when GRAPH_MOCK_AUTH is on; scripts/mock-graph.ts accepts any token
+const MOCK_ACCESS_TOKEN = "mock-graph-token";
+// Graph asks clients to wait this long when a 429 has no Retry-After
+const DEFAULT_RETRY_DELAY_SECONDS = 3;
+// Requests that can be sent again after a 503 or 504 without doing the work twice
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+export interface GraphRequestOptions {
+  query?: { [name: string]: string | number };
+  headers?: { [name: string]: string };
+}
+
+export interface GraphBinaryContent {
+  data: Buffer;
+  contentType: string;
+}
+
+interface GraphPage<T> {
+  value?: T[];
+  "@odata.nextLink"?: string;
+}
+
+/**
+ * Microsoft Graph calls made on behalf of the signed-in user.
+ * Errors are thrown as GraphServiceError. Throttled requests (429) are retried after
+ * Retry-After by the client's retry middleware; after a 503 or 504 only idempotent ones are.
+ */
+export class GraphService {
+  constructor(private client: Client, private onUnauthorized: () => void = () => undefined) {}
+
+  async get<T = any>(path: string, options: GraphRequestOptions = {}): Promise<T> {
+    return this.send(path, () => this.request(path, options).get());
+  }
+
+  async post<T = any>(path: string, body: unknown, options: GraphRequestOptions = {}): Promise<T> {
+    return this.send(path, () => this.request(path, options).post(body));
+  }
+
+  /**
+   * Follow @odata.nextLink and return the items of every page, up to maxPages pages.
+   */
+  async getAll<T = any>(path: string, options: GraphRequestOptions = {}, maxPages: number = config.graphMaxPages): Promise<T[]> {
+    const items: T[] = [];
+    let page = await this.get<GraphPage<T>>(path, options);
+    for (let pages = 1; ; pages++) {
+      items.push(...(page.value || []));
+      const nextLink = page["@odata.nextLink"];
+      if (!nextLink || pages >= maxPages) {
+        break;
+      }
+      // The next link already carries the query
+      page = await this.get<GraphPage<T>>(nextLink, { headers: options.headers });
+    }
+    return items;
+  }
+
+  /**
+   * Binary content such as a photo, with the content type Graph reported.
+   */
+  async getBinary(path: string, options: GraphRequestOptions = {}): Promise<GraphBinaryContent> {
+    return this.send(path, async () => {
+      const response: Response = await this.request(path, options).responseType(ResponseType.RAW).get();
+      if (!response.ok) {
+        let code: string | undefined;
+        try {
+          code = (await response.json())?.error?.code;
+        } catch {
+          // No JSON error body
+        }
+        throw { statusCode: response.status, code, message: `Graph returned ${response.status} for ${path}` };
+      }
+      return {
+        data: Buffer.from(await response.arrayBuffer()),
+        contentType: response.headers.get("content-type") || "application/octet-stream",
+      };
+    });
+  }
+
+  private request(path: string, options: GraphRequestOptions) {
+    let request = this.client.api(path);
+    if (/^http:\/\//i.test(path)) {
+      // The client only splits https URLs (e.g. a next link) into version and path, which the mock server doesn't use
+      const url = new URL(path);
+      const [version, ...segments] = url.pathname.split("/").filter(Boolean);
+      request = this.client.api(`/${segments.join("/")}${url.search}`).version(version);
+    }
+    if (options.query) {
+      request = request.query(Object.fromEntries(Object.entries(options.query).map(([key, value]) => [key, String(value)])));
+    }
+    if (options.headers) {
+      request = request.headers(options.headers);
+    }
+    return request;
+  }
+
+  private async send<T>(path: string, call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      const graphError = toGraphServiceError(error);
+      if (graphError.kind === "unauthorized") {
+        // Don't keep handing out a token Graph has rejected
+        this.onUnauthorized();
+      }
+      telemetryService.trackCustomEvent('Graph_Error', {
+        path: path.split("?")[0],
+        errorKind: graphError.kind,
+        ...(graphError.statusCode ? { statusCode: graphError.statusCode.toString() } : {}),
+        ...(graphError.code ? { code: graphError.code } : {}),
+      });
+      throw graphError;
+    }
+  }
+}
+
+/**
+ * Adds the bearer token to requests for the configured Graph origin only, so it never leaks to
+ * redirect targets. Used instead of the client's AuthenticationHandler, which only authenticates
+ * https hosts and so can't talk to scripts/mock-graph.ts.
+ */
+class GraphAuthHandler implements Middleware {
+  private nextMiddleware: Middleware;
+
+  constructor(private authProvider: AuthenticationProvider, private origin: string) {}
+
+  async execute(context: Context): Promise<void> {
+    const url = typeof context.request === "string" ? context.request : context.request.url;
+    const headers = new Headers(context.options?.headers);
+    if (new URL(url).origin === this.origin) {
+      headers.set("Authorization", `Bearer ${await this.authProvider.getAccessToken()}`);
+    } else {
+      headers.delete("Authorization");
+    }
+    context.options = { ...context.options, headers: Object.fromEntries(headers.entries()) };
+    return this.nextMiddleware.execute(context);
+  }
+
+  setNext(next: Middleware): void {
+    this.nextMiddleware = next;
+  }
+}
+
+/**
+ * Creates GraphServices for SSO tokens. On-behalf-of tokens are cached per user and scope set
+ * until shortly before they expire, so commands don't exchange the SSO token on every call.
+ */
+export class GraphClientFactory {
+  constructor(private tokenCache: OboTokenCache = new OboTokenCache()) {}
+
+  create(ssoToken: string, scopes: string[]): GraphService {
+    const authProvider: AuthenticationProvider = {
+      getAccessToken: async () => {
+        if (config.graphMockAuth) {
+          return MOCK_ACCESS_TOKEN;
+        }
+        return this.tokenCache.getToken(ssoToken, scopes, () =>
+          new OnBehalfOfUserCredential(ssoToken, oboAuthConfig).getToken(scopes)
+        );
+      },
+    };
+
+    const baseUrl = new URL(config.graphBaseUrl);
+    const client = Client.initWithMiddleware({
+      baseUrl: baseUrl.origin + "/",
+      middleware: [
+        new GraphAuthHandler(authProvider, baseUrl.origin),
+        new RetryHandler(new RetryHandlerOptions(DEFAULT_RETRY_DELAY_SECONDS, config.graphMaxRetries, this.shouldRetry)),
+        new RedirectHandler(new RedirectHandlerOptions()),
+        new TelemetryHandler(),
+        new HTTPMessageHandler(),
+      ],
+    });
+    return new GraphService(client, () => this.tokenCache.invalidate(ssoToken));
+  }
+
+  // The retry handler asks on 429, 503 and 504. A throttled (429) request wasn't processed, so it
+  // is always retried; after a 503 or 504 a POST or PATCH may have been applied, e.g. a meeting
+  // created, so only idempotent requests are sent again.
+  private shouldRetry = (delay: number, attempt: number, request: RequestInfo, options: RequestInit, response: Response): boolean => {
+    const method = (options?.method || (typeof request === "string" ? undefined : request.method) || "GET").toUpperCase();
+    const retry = response.status === 429 || IDEMPOTENT_METHODS.includes(method);
+    telemetryService.trackCustomEvent('Graph_Throttled', {
+      statusCode: response.status.toString(),
+      method,
+      retried: retry.toString(),
+      attempt: attempt.toString(),
+      retryAfterSeconds: delay.toString(),
+    });
+    return retry;
+  };
+}
+
+export const graphClientFactory = new GraphClientFactory();
@@ -0,0 +1,4 @@
+// Microsoft Graph module exports
+export * from './graphErrors';
+export * from './oboTokenCache';
+export * from './graphService';
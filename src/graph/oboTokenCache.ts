@@ -0,0 +1,98 @@
+import { createHash } from "crypto";
+import { AccessToken } from "@azure/identity";
+import { decode, JwtPayload } from "jsonwebtoken";
+import { normalizeScope } from "../consentStore";
+
+// Refresh tokens this long before they expire, so a token doesn't expire mid-request
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * In-memory cache of on-behalf-of access tokens per user and scope set.
+ * Teams hands the bot a new SSO token on every sign-in, so entries are keyed by the user
+ * (tenant and object ID from the SSO token) rather than by the SSO token itself.
+ */
+export class OboTokenCache {
+  private entries = new Map<string, AccessToken>();
+  private pending = new Map<string, Promise<AccessToken>>();
+
+  constructor(private maxEntries = 1000) {}
+
+  /**
+   * A cached token for the user and scopes, or a new one from acquire().
+   * Concurrent requests for the same key share one acquisition.
+   */
+  async getToken(ssoToken: string, scopes: string[], acquire: () => Promise<AccessToken | null>): Promise<string> {
+    const key = this.getKey(ssoToken, scopes);
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresOnTimestamp - REFRESH_MARGIN_MS > Date.now()) {
+      return cached.token;
+    }
+
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = acquire()
+        .then((token) => {
+          if (!token) {
+            throw new Error("No access token was returned for the on-behalf-of request");
+          }
+          this.set(key, token);
+          return token;
+        })
+        .finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
+    return (await pending).token;
+  }
+
+  /**
+   * A cached token for the user (tenant and AAD object ID) and scopes, without an SSO token
+   * to acquire a new one. Undefined when there is none or it is about to expire.
+   */
+  getCachedToken(tenantId: string, objectId: string, scopes: string[]): string | undefined {
+    const cached = this.entries.get(this.buildKey(`${tenantId}/${objectId}`, scopes));
+    return cached && cached.expiresOnTimestamp - REFRESH_MARGIN_MS > Date.now() ? cached.token : undefined;
+  }
+
+  /**
+   * Drop the user's cached tokens, e.g. after Graph rejected one. Takes the SSO token or any
+   * token issued for the same user.
+   */
+  invalidate(ssoToken: string): void {
+    const prefix = `${this.getUserKey(ssoToken)}|`;
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  private set(key: string, token: AccessToken) {
+    this.entries.delete(key);
+    this.entries.set(key, token);
+    // Evict the oldest entries (Map keeps insertion order)
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  private getKey(ssoToken: string, scopes: string[]): string {
+    return this.buildKey(this.getUserKey(ssoToken), scopes);
+  }
+
+  private buildKey(userKey: string, scopes: string[]): string {
+    const normalized = [...new Set(scopes.map(normalizeScope))].sort().join(" ");
+    return `${userKey}|${normalized}`;
+  }
+
+  private getUserKey(ssoToken: string): string {
+    const claims = decode(ssoToken) as JwtPayload | null;
+    if (claims?.oid || claims?.sub) {
+      return `${claims.tid || ""}/${claims.oid || claims.sub}`;
+    }
+    // Not a JWT we can read; fall back to the token itself
+    return createHash("sha256").update(ssoToken).digest("hex");
+  }
+}
@@ -0,0 +1,92 @@
+import { ActivityTypes, Storage, TurnContext } from "botbuilder";
+import config from "../config";
+import { isETagConflict } from "../storage";
+import { telemetryService } from "../telemetry";
+import { ExpiringIdStore } from "./expiringIdStore";
+
+const KEY_PREFIX = "activityDedup";
+// Activities remembered per conversation; the oldest are forgotten first
+const MAX_ACTIVITIES_PER_CONVERSATION = 200;
+
+export interface ActivityClaim {
+  // False for a replay of an activity that was already received, which shouldn't be processed again
+  isNew: boolean;
+  // How many times a replayed activity has been delivered again
+  replays: number;
+}
+
+/**
+ * Remembers the activities the bot received, per conversation, so an activity that Teams delivers
+ * again (it retries when the bot is slow to answer) is processed only once. The ids live in the
+ * shared storage for ACTIVITY_DEDUP_TTL_SECONDS, one record per conversation (see
+ * ExpiringIdStore), so a replay is recognised on any instance.
+ *
+ * Deduplication fails open: when the storage fails or the record stays contended, the activity is
+ * processed, and the failure is tracked as Activity_Dedup_Failed.
+ *
+ * Invokes are left alone: Teams waits for their response instead of delivering them again, and
+ * a skipped invoke would leave the caller without one.
+ */
+export class ActivityDeduplicator {
+  private store: ExpiringIdStore;
+  private ttlMs: number;
+
+  constructor(storage: Storage, ttlSeconds: number = config.activityDedupTtlSeconds) {
+    this.store = new ExpiringIdStore(storage, MAX_ACTIVITIES_PER_CONVERSATION);
+    this.ttlMs = ttlSeconds * 1000;
+  }
+
+  /**
+   * Record the turn's activity as received. A replay isn't recorded again; its replay count is
+   * bumped instead.
+   */
+  async claim(context: TurnContext): Promise<ActivityClaim> {
+    const key = this.getKey(context);
+    if (!key) {
+      return { isNew: true, replays: 0 };
+    }
+
+    try {
+      const { added, replays } = await this.store.add(key, context.activity.id, this.ttlMs);
+      return { isNew: added, replays };
+    } catch (err) {
+      console.warn('Could not check activity for redelivery:', err instanceof Error ? err.message : err);
+      const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
+      telemetryService.trackCustomEvent('Activity_Dedup_Failed', {
+        userId,
+        conversationId,
+        activityId: context.activity.id,
+        reason: isETagConflict(err) ? 'contention' : 'storageError',
+        error: err instanceof Error ? err.message : String(err)
+      });
+      return { isNew: true, replays: 0 };
+    }
+  }
+
+  /**
+   * Forget the turn's activity, so that Teams delivering it again processes it again. Used when
+   * processing failed.
+   */
+  async release(context: TurnContext): Promise<void> {
+    const key = this.getKey(context);
+    if (key) {
+      await this.store.remove(key, context.activity.id);
+    }
+  }
+
+  /**
+   * Forget the conversation's activities, when the bot is removed from it.
+   */
+  async removeConversation(channelId: string, conversationId: string): Promise<void> {
+    await this.store.delete(`${KEY_PREFIX}/${channelId}/${conversationId}`);
+  }
+
+  // No key, and no deduplication, when it is turned off, for invokes and for activities without an id
+  private getKey(context: TurnContext): string | undefined {
+    const { activity } = context;
+    if (this.ttlMs <= 0 || !activity.id || !activity.conversation?.id || activity.type === ActivityTypes.Invoke) {
+      return undefined;
+    }
+    return `${KEY_PREFIX}/${activity.channelId}/${activity.conversation.id}`;
+  }
+}
@@ -0,0 +1,136 @@
+import { Storage } from "botbuilder";
+import { CREATE_ONLY_ETAG, isETagConflict, waitBeforeRetry } from "../storage";
+
+const MAX_WRITE_ATTEMPTS = 5;
+
+interface ExpiringId {
+  addedAt: number;
+  expiresAt: number;
+  // Times the id was added again before it expired
+  replays: number;
+}
+
+interface ExpiringIdRecord {
+  ids: { [id: string]: ExpiringId };
+}
+
+type StoredExpiringIdRecord = ExpiringIdRecord & { eTag?: string };
+
+export interface AddIdResult {
+  // False when the id was already in the record and hasn't expired
+  added: boolean;
+  replays: number;
+}
+
+/**
+ * Sets of ids in the shared storage, one record per key, where every id expires after a TTL.
+ * Expired ids are dropped whenever the record is written and the record keeps at most maxIds of
+ * the newest ids, so it stays small without a clean-up job or per-instance bookkeeping. Updates
+ * are compare-and-swap on the storage eTag and a new record is created only if it is absent, so
+ * of several instances adding the same id exactly one adds it. Conflicts are retried after a
+ * jittered wait; other storage failures are thrown.
+ */
+export class ExpiringIdStore {
+  private storage: Storage;
+  private maxIds: number;
+
+  constructor(storage: Storage, maxIds: number) {
+    this.storage = storage;
+    this.maxIds = maxIds;
+  }
+
+  /**
+   * Add an id to the record at key. An id that is already there isn't added again; its replay
+   * count is bumped instead.
+   */
+  async add(key: string, id: string, ttlMs: number): Promise<AddIdResult> {
+    for (let attempt = 1; ; attempt++) {
+      const now = Date.now();
+      const existing = await this.read(key);
+      const ids = getUnexpired(existing, now);
+      const seen = ids[id];
+
+      let result: AddIdResult;
+      if (seen) {
+        ids[id] = { ...seen, replays: seen.replays + 1 };
+        result = { added: false, replays: seen.replays + 1 };
+      } else {
+        ids[id] = { addedAt: now, expiresAt: now + ttlMs, replays: 0 };
+        result = { added: true, replays: 0 };
+      }
+
+      if (await this.tryWrite(key, { ids: this.keepNewest(ids) }, existing, attempt)) {
+        return result;
+      }
+    }
+  }
+
+  /**
+   * Remove an id from the record at key, so that it can be added again.
+   */
+  async remove(key: string, id: string): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      const existing = await this.read(key);
+      if (!existing?.ids?.[id]) {
+        return;
+      }
+      const ids = getUnexpired(existing, Date.now());
+      delete ids[id];
+
+      if (await this.tryWrite(key, { ids }, existing, attempt)) {
+        return;
+      }
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.storage.delete([key]);
+  }
+
+  private async read(key: string): Promise<StoredExpiringIdRecord | undefined> {
+    const items = await this.storage.read([key]);
+    return items[key];
+  }
+
+  // False after a conflict, when the caller should read the record again and retry
+  private async tryWrite(
+    key: string,
+    record: ExpiringIdRecord,
+    existing: StoredExpiringIdRecord | undefined,
+    attempt: number
+  ): Promise<boolean> {
+    try {
+      await this.storage.write({ [key]: { ...record, eTag: existing?.eTag || CREATE_ONLY_ETAG } });
+      return true;
+    } catch (err) {
+      if (!isETagConflict(err) || attempt >= MAX_WRITE_ATTEMPTS) {
+        throw err;
+      }
+    }
+    await waitBeforeRetry(attempt);
+    return false;
+  }
+
+  private keepNewest(ids: { [id: string]: ExpiringId }): { [id: string]: ExpiringId } {
+    const keys = Object.keys(ids);
+    if (keys.length <= this.maxIds) {
+      return ids;
+    }
+    return Object.fromEntries(
+      keys
+        .sort((a, b) => ids[b].addedAt - ids[a].addedAt)
+        .slice(0, this.maxIds)
+        .map((id) => [id, ids[id]])
+    );
+  }
+}
+
+function getUnexpired(record: ExpiringIdRecord | undefined, now: number): { [id: string]: ExpiringId } {
+  const ids: { [id: string]: ExpiringId } = {};
+  for (const [id, entry] of Object.entries(record?.ids || {})) {
+    if (entry.expiresAt > now) {
+      ids[id] = entry;
+    }
+  }
+  return ids;
+}
@@ -0,0 +1,4 @@
+// Idempotency module exports
+export * from './activityDeduplicator';
+export * from './tokenExchangeDeduplicator';
+export * from './expiringIdStore';
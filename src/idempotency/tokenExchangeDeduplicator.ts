@@ -0,0 +1,61 @@
+import { ActivityTypes, Storage, TurnContext, tokenExchangeOperationName } from "botbuilder";
+import config from "../config";
+import { ExpiringIdStore } from "./expiringIdStore";
+
+const KEY_PREFIX = "tokenExchangeDedup";
+// Sign-ins remembered per conversation; the oldest are forgotten first
+const MAX_EXCHANGES_PER_CONVERSATION = 50;
+
+/**
+ * If a user is signed in to several Teams clients, the bot gets a "signin/tokenExchange" invoke
+ * from each of them, all with the same activity.value.id. Only the first should be processed.
+ *
+ * Exchange ids are claimed in one record per conversation in the shared storage (see
+ * ExpiringIdStore), so exactly one invoke wins on any instance. A claim expires after
+ * TOKEN_EXCHANGE_DEDUP_TTL_SECONDS and is dropped from the record the next time it is written;
+ * the record itself is deleted when the bot is removed from the conversation.
+ */
+export class TokenExchangeDeduplicator {
+  private store: ExpiringIdStore;
+  private ttlMs: number;
+
+  constructor(storage: Storage, ttlSeconds: number = config.tokenExchangeDedupTtlSeconds) {
+    this.store = new ExpiringIdStore(storage, MAX_EXCHANGES_PER_CONVERSATION);
+    this.ttlMs = ttlSeconds * 1000;
+  }
+
+  /**
+   * Claim the token exchange of the turn. Resolves false when another invoke already claimed it,
+   * i.e. this one is a duplicate. Storage failures are thrown, not taken for duplicates.
+   */
+  async claim(context: TurnContext): Promise<boolean> {
+    const { added } = await this.store.add(getTokenExchangeKey(context), getExchangeId(context), this.ttlMs);
+    return added;
+  }
+
+  /**
+   * Forget the conversation's sign-ins, when the bot is removed from it.
+   */
+  async removeConversation(channelId: string, conversationId: string): Promise<void> {
+    await this.store.delete(`${KEY_PREFIX}/${channelId}/${conversationId}`);
+  }
+}
+
+function getTokenExchangeKey(context: TurnContext): string {
+  if (!context || !context.activity || !context.activity.conversation) {
+    throw new Error("Invalid context, can not get storage key!");
+  }
+  const activity = context.activity;
+  if (activity.type !== ActivityTypes.Invoke || activity.name !== tokenExchangeOperationName) {
+    throw new Error("TokenExchangeState can only be used with Invokes of signin/tokenExchange.");
+  }
+  return `${KEY_PREFIX}/${activity.channelId}/${activity.conversation.id}`;
+}
+
+function getExchangeId(context: TurnContext): string {
+  const value = context.activity.value;
+  if (!value || !value.id) {
+    throw new Error("Invalid signin/tokenExchange. Missing activity.value.id.");
+  }
+  return value.id;
+}
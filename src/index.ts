@@ -19,6 +19,18 @@ import {
 import { TeamsBot } from "./teamsBot";
 import config from "./config";
 import { telemetryService } from "./telemetry";
+import { createStorage, verifyStorage } from "./storage";
+import { getLocalizer, resolveLocale } from "./localization";
+import {
+  AuthenticatedNotifyRequest,
+  NotifyAuthenticator,
+  NotifyJobManager,
+  NotifyJobValidationError,
+  NotifyPayloadError,
+  ProactiveMessenger,
+  buildNotifyMessage,
+  getNotifyMessageLength,
+} from "./proactive";
 
 // Initialize telemetry as early as possible
 // OpenTelemetry is now initialized in otel-init.ts
@@ -68,26 +80,60 @@ const onTurnErrorHandler = async (context: TurnContext, error: Error) => {
   );
 
   // Send a message to the user
-  await context.sendActivity(
-    `The bot encountered unhandled error:\n ${error.message}`
-  );
-  await context.sendActivity(
-    "To continue to run this bot, please fix the bot source code."
-  );
+  const localizer = getLocalizer(context);
+  await context.sendActivity(localizer.t("errors.unhandled", { message: error.message }));
+  await context.sendActivity(localizer.t("errors.fixSourceCode"));
 };
 
 // Set the onTurnError for the singleton CloudAdapter
 adapter.onTurnError = onTurnErrorHandler;
 
+// Create the state store shared by conversation state, user state and SSO token exchange dedup.
+const storage = createStorage();
+
+// Fail fast if the store can't be reached - running without it would silently drop SSO state.
+verifyStorage(storage)
+  .then(() => {
+    telemetryService.trackCustomEvent('Storage_Verified', {
+      provider: config.storageProvider
+    });
+  })
+  .catch(async (error) => {
+    console.error(`\n [Storage] ${config.storageProvider} storage is not reachable: ${error}`);
+    telemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+      provider: config.storageProvider,
+      operation: 'Storage_Verify'
+    });
+    await telemetryService.flush();
+    process.exit(1);
+  });
+
 // Create the bot that will handle incoming messages.
-const bot = new TeamsBot();
+const bot = new TeamsBot(storage);
+
+// Periodically drop conversation references that outlived their TTL
+const purgeTimer = setInterval(() => {
+  bot.conversationReferenceStore.purgeExpired().catch((error) => {
+    console.error('Failed to purge expired conversation references:', error);
+  });
+}, 60 * 60 * 1000);
+purgeTimer.unref();
 
 // Store conversation references for proactive messaging
 // const conversationReferences: { [key: string]: any } = {};
 
 // Create HTTP server.
 const expressApp = express();
-expressApp.use(express.json());
+expressApp.use(express.json({
+  // Keep the raw body so HMAC signatures on /api/notify can be verified
+  verify: (req, res, buf) => {
+    (req as AuthenticatedNotifyRequest).rawBody = buf;
+  }
+}));
+
+const notifyAuthenticator = new NotifyAuthenticator(storage);
+const proactiveMessenger = new ProactiveMessenger(adapter, bot.conversationReferenceStore, notifyAuthenticator, bot.preferencesStore);
+const notifyJobManager = new NotifyJobManager(storage, bot.conversationReferenceStore, proactiveMessenger);
 
 const server = expressApp.listen(
   process.env.port || process.env.PORT || 3978,
@@ -199,44 +245,130 @@ expressApp.post("/api/messages", async (req, res) => {
   }
 });
 
-expressApp.post('/api/notify', async (req, res) => {
+expressApp.post('/api/notify', notifyAuthenticator.middleware(), async (req: AuthenticatedNotifyRequest, res) => {
   const operationTimer = telemetryService.startOperation('ProactiveMessage');
   
   try {
     const userId = req.body.user_id;
-    const message = req.body.message || 'This is a proactive message!';
+    const caller = req.notifyCaller;
+    
+    // A channel or group chat is posted to by conversation_id instead
+    if (!req.body.conversation_id && (typeof userId !== 'string' || !userId.trim())) {
+      operationTimer.stop(false, 'Invalid user_id');
+      res.status(400).send('user_id must be a non-empty string');
+      return;
+    }
     
     operationTimer.setContext(userId, 'proactive');
     
-    const conversationReferences = bot.getConversationReferences();
+    // Plain text, an Adaptive Card, or a named card template bound to data
+    let message: ReturnType<typeof buildNotifyMessage>;
+    try {
+      message = buildNotifyMessage(req.body, getLocalizer(resolveLocale(req.body?.locale)).t("notifications.default"));
+    } catch (error) {
+      if (error instanceof NotifyPayloadError) {
+        operationTimer.stop(false, error.message);
+        res.status(400).send(error.message);
+        return;
+      }
+      throw error;
+    }
     
-    // Debug: Log the available user IDs and the requested user ID
+    // A team channel or group chat the bot is in can be posted to instead of a user. Callers need
+    // its conversation ID (or "*") in allowedUsers.
+    if (req.body.conversation_id) {
+      const channel = await bot.conversationReferenceStore.getChannel(String(req.body.conversation_id));
+      if (!channel) {
+        telemetryService.trackCustomEvent('ProactiveMessage_ConversationNotFound', { callerId: caller.id });
+        operationTimer.stop(false, 'Conversation not found');
+        res.status(404).send('Conversation not found');
+        return;
+      }
+      if (!notifyAuthenticator.isRecipientAllowed(caller, { identifiers: [channel.conversationId], tenantId: channel.tenantId })) {
+        telemetryService.trackCustomEvent('ProactiveMessage_Unauthorized', {
+          callerId: caller.id,
+          conversationId: channel.conversationId,
+          tenantId: channel.tenantId || 'unknown'
+        });
+        // Same response as an unknown conversation, so callers can't probe for the bot's conversations
+        operationTimer.stop(false, 'Conversation not allowed for caller');
+        res.status(404).send('Conversation not found');
+        return;
+      }
+
+      try {
+        const attempts = await proactiveMessenger.sendToReference(channel.reference, message);
+        telemetryService.trackCustomEvent('ProactiveMessage_Sent', {
+          conversationId: channel.conversationId,
+          conversationType: channel.conversationType,
+          success: 'true',
+          attempts: attempts.toString(),
+          messageLength: getNotifyMessageLength(message).toString()
+        });
+        operationTimer.stop(true);
+        res.status(200).send('Message sent');
+      } catch (error) {
+        telemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+          conversationId: channel.conversationId,
+          operation: 'ProactiveMessage_Send'
+        });
+        operationTimer.stop(false, error instanceof Error ? error.message : String(error));
+        res.status(500).send('Error sending message');
+      }
+      return;
+    }
+
+    const userRecord = await bot.conversationReferenceStore.findUser(userId);
+    
+    // Callers may only message the users and tenants they are scoped to
+    const recipientAllowed = notifyAuthenticator.isRecipientAllowed(caller, {
+      identifiers: [userId, userRecord?.aadObjectId, userRecord?.teamsUserId, userRecord?.userPrincipalName],
+      tenantId: userRecord?.tenantId
+    });
+    if (userRecord && !recipientAllowed) {
+      telemetryService.trackCustomEvent('ProactiveMessage_Unauthorized', {
+        callerId: caller.id,
+        userId,
+        tenantId: userRecord.tenantId || 'unknown'
+      });
+      
+      // Same response as an unknown user, so callers can't probe for the users who installed the bot
+      operationTimer.stop(false, 'Recipient not allowed for caller');
+      res.status(404).send('User not found');
+      return;
+    }
+    
+    // Debug: Log the requested user ID and whether a reference was found
     console.log('Requested user ID:', userId);
-    console.log('Available conversation references:', Object.keys(conversationReferences));
+    console.log('Conversation reference found:', !!userRecord);
     
     telemetryService.trackCustomEvent('ProactiveMessage_Requested', {
       userId,
-      availableUsers: Object.keys(conversationReferences).length.toString(),
-      messageLength: message.length.toString()
+      callerId: caller.id,
+      userFound: (!!userRecord).toString(),
+      messageType: typeof message === 'string' ? 'text' : 'card',
+      messageLength: getNotifyMessageLength(message).toString()
     });
     
-    const reference = conversationReferences[userId];
+    const reference = userRecord && bot.conversationReferenceStore.getPreferredReference(userRecord);
+
+    // Users can turn notifications off in /settings
+    if (reference && !(await proactiveMessenger.allowsNotifications(reference))) {
+      telemetryService.trackCustomEvent('ProactiveMessage_OptedOut', { userId, callerId: caller.id });
+      operationTimer.stop(false, 'User opted out');
+      res.status(403).send('User has turned off notifications');
+      return;
+    }
 
     if (reference) {
       try {
-        // Get the bot's app ID from config, use empty string for local testing
-        const appId = config.MicrosoftAppId || "";
-        
-        // Use the correct method signature for continueConversationAsync
-        await (adapter as any).continueConversationAsync(appId, reference, async (context) => {
-          // var message=JSON.stringify(req.body)
-          await context.sendActivity(message);
-        });
+        const attempts = await proactiveMessenger.sendToReference(reference, message);
         
         telemetryService.trackCustomEvent('ProactiveMessage_Sent', {
           userId,
           success: 'true',
-          messageLength: message.length.toString()
+          attempts: attempts.toString(),
+          messageLength: getNotifyMessageLength(message).toString()
         });
         
         operationTimer.stop(true);
@@ -255,11 +387,11 @@ expressApp.post('/api/notify', async (req, res) => {
     } else {
       telemetryService.trackCustomEvent('ProactiveMessage_UserNotFound', {
         userId,
-        availableUsers: Object.keys(conversationReferences).join(',')
+        callerId: caller.id
       });
       
       operationTimer.stop(false, 'User not found');
-      res.status(404).send(`User not found. Available users: ${Object.keys(conversationReferences).join(', ')}`);
+      res.status(404).send('User not found');
     }
   } catch (error) {
     operationTimer.stop(false, error instanceof Error ? error.message : String(error));
@@ -267,6 +399,45 @@ expressApp.post('/api/notify', async (req, res) => {
   }
 });
 
+// Batch / broadcast notifications.
+// Body: { recipients: string[] | "all", tenant_id?, locale?, and one of message | card | template + data }.
+// Without a message the default notification text is sent, as for a single notification.
+// Responds 202 with a job ID; delivery continues in the background. More recipients than
+// NOTIFY_BATCH_MAX_RECIPIENTS, a broadcast included, are refused with 400 before anything is sent.
+expressApp.post('/api/notify/batch', notifyAuthenticator.middleware(), async (req: AuthenticatedNotifyRequest, res) => {
+  const caller = req.notifyCaller;
+  
+  try {
+    const job = await notifyJobManager.startJob(caller, {
+      recipients: req.body.recipients,
+      tenantId: req.body.tenant_id,
+      message: buildNotifyMessage(req.body, getLocalizer(resolveLocale(req.body?.locale)).t("notifications.default"))
+    });
+    res.status(202).json({ job_id: job.jobId, total: job.counts.total });
+  } catch (error) {
+    if (error instanceof NotifyJobValidationError || error instanceof NotifyPayloadError) {
+      res.status(400).send(error.message);
+      return;
+    }
+    telemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+      callerId: caller.id,
+      operation: 'ProactiveMessage_JobStart'
+    });
+    res.status(500).send('Error starting notification job');
+  }
+});
+
+// Delivery report for a batch job: overall counts and per-recipient status. A job whose instance
+// stopped before it finished is reported as "interrupted", with its undelivered recipients still pending.
+expressApp.get('/api/notify/jobs/:jobId', notifyAuthenticator.middleware(), async (req: AuthenticatedNotifyRequest, res) => {
+  const job = await notifyJobManager.getJob(String(req.params.jobId), req.notifyCaller);
+  if (!job) {
+    res.status(404).send('Job not found');
+    return;
+  }
+  res.status(200).json(job);
+});
+
 expressApp.get(["/auth-start.html", "/auth-end.html"], async (req, res) => {
   send(
     req,
@@ -0,0 +1,2 @@
+// Localization module exports
+export * from './localizer';
@@ -0,0 +1,184 @@
+import { TurnContext } from "botbuilder";
+import de from "./locales/de.json";
+import en from "./locales/en.json";
+import es from "./locales/es.json";
+import fr from "./locales/fr.json";
+import nl from "./locales/nl.json";
+
+// Used when the user's locale is missing or isn't one the bot has text for
+export const DEFAULT_LOCALE = "en-US";
+
+// Resources by language. A key missing from a language falls back to English.
+// To add a language, drop a JSON file with the same keys in ./locales and register it here.
+const RESOURCES: { [language: string]: object } = { en, de, es, fr, nl };
+
+export const SUPPORTED_LANGUAGES = Object.keys(RESOURCES);
+
+// Where the locale chosen for the turn is kept; see setTurnLocale
+const TURN_LOCALE_KEY = Symbol("TurnLocale");
+
+export type LocalizationParams = { [name: string]: string | number | undefined };
+
+// A string whose wording depends on the "count" parameter, by Intl.PluralRules category
+type PluralForms = { [category: string]: string };
+
+/**
+ * Text and date formatting in one locale. Strings are looked up by a dotted key such as
+ * "sessions.cleared", first in the locale's language and then in English, and "{name}"
+ * placeholders are filled from the parameters.
+ */
+export class Localizer {
+  private resources: object[];
+  private pluralRules: Intl.PluralRules;
+
+  constructor(readonly locale: string) {
+    const language = locale.split("-")[0].toLowerCase();
+    this.resources = [...new Set([RESOURCES[language], RESOURCES.en].filter(Boolean))];
+    this.pluralRules = new Intl.PluralRules(locale);
+  }
+
+  /**
+   * The string for a key. A key that no language has is returned as is, so a missing
+   * string shows up in the chat rather than failing the turn.
+   */
+  t(key: string, params: LocalizationParams = {}): string {
+    const value = this.lookup(key);
+    if (value === undefined) {
+      console.warn(`Missing localized string "${key}"`);
+      return key;
+    }
+    const text = typeof value === "string" ? value : this.selectPluralForm(value, params.count);
+    return text.replace(/\{(\w+)\}/g, (placeholder, name) => (params[name] !== undefined ? String(params[name]) : placeholder));
+  }
+
+  has(key: string): boolean {
+    return this.lookup(key) !== undefined;
+  }
+
+  /**
+   * Every string under a key, e.g. for a card template to bind to.
+   */
+  strings(group: string): { [key: string]: string } {
+    const strings: { [key: string]: string } = {};
+    for (const resources of [...this.resources].reverse()) {
+      const values = getPath(resources, group);
+      if (values && typeof values === "object") {
+        for (const [key, value] of Object.entries(values)) {
+          if (typeof value === "string") {
+            strings[key] = value;
+          }
+        }
+      }
+    }
+    return strings;
+  }
+
+  /**
+   * A calendar date (YYYY-MM-DD) as "Monday, January 6", or "Jan 6" when short. Dates are
+   * formatted in UTC so the server's time zone doesn't shift them.
+   */
+  formatDate(date: string, short = false): string {
+    const options: Intl.DateTimeFormatOptions = short
+      ? { month: "short", day: "numeric" }
+      : { weekday: "long", month: "long", day: "numeric" };
+    return new Date(`${date}T00:00:00Z`).toLocaleDateString(this.locale, { ...options, timeZone: "UTC" });
+  }
+
+  /**
+   * The short weekday name of a calendar date (YYYY-MM-DD), such as "Tue".
+   */
+  formatWeekday(date: string): string {
+    return new Date(`${date}T00:00:00Z`).toLocaleDateString(this.locale, { weekday: "short", timeZone: "UTC" });
+  }
+
+  /**
+   * A point in time (ISO 8601), shown in UTC with the zone named.
+   */
+  formatDateTime(dateTime: string): string {
+    return new Date(dateTime).toLocaleString(this.locale, {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+      timeZone: "UTC",
+      timeZoneName: "short",
+    });
+  }
+
+  formatNumber(value: number): string {
+    return value.toLocaleString(this.locale);
+  }
+
+  private lookup(key: string): string | PluralForms | undefined {
+    for (const resources of this.resources) {
+      const value = getPath(resources, key);
+      if (typeof value === "string" || isPluralForms(value)) {
+        return value;
+      }
+    }
+    return undefined;
+  }
+
+  private selectPluralForm(forms: PluralForms, count: string | number | undefined): string {
+    const category = typeof count === "number" ? this.pluralRules.select(count) : "other";
+    return forms[category] ?? forms.other;
+  }
+}
+
+const localizers = new Map<string, Localizer>();
+
+/**
+ * The localizer for a turn or a locale. For a turn, a locale set with setTurnLocale (the user's
+ * language setting) wins over the locale of the user's Teams client. Locales the bot has no text
+ * for get the default locale, so dates are formatted the same way as the text around them.
+ */
+export function getLocalizer(source?: TurnContext | string): Localizer {
+  const locale = resolveLocale(
+    typeof source === "string" || source === undefined
+      ? source
+      : source.turnState.get(TURN_LOCALE_KEY) || source.activity?.locale
+  );
+  let localizer = localizers.get(locale);
+  if (!localizer) {
+    localizer = new Localizer(locale);
+    localizers.set(locale, localizer);
+  }
+  return localizer;
+}
+
+/**
+ * Show the rest of the turn in another locale, e.g. the user's preferred language or, for a
+ * turn in another conversation, the locale of the turn that started it. Without a locale
+ * nothing changes.
+ */
+export function setTurnLocale(context: TurnContext, locale: string | undefined): void {
+  if (locale) {
+    context.turnState.set(TURN_LOCALE_KEY, locale);
+  }
+}
+
+/**
+ * A supported BCP 47 tag for a locale as Teams or the user gave it, e.g. "de-AT" for "de-at".
+ */
+export function resolveLocale(locale: unknown): string {
+  if (typeof locale !== "string" || !locale) {
+    return DEFAULT_LOCALE;
+  }
+  let canonical: string;
+  try {
+    [canonical] = Intl.getCanonicalLocales(locale);
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+  const language = canonical?.split("-")[0];
+  return language && SUPPORTED_LANGUAGES.includes(language) ? canonical : DEFAULT_LOCALE;
+}
+
+function getPath(resources: object, key: string): unknown {
+  return key.split(".").reduce<unknown>((node, part) => (node && typeof node === "object" ? (node as any)[part] : undefined), resources);
+}
+
+function isPluralForms(value: unknown): value is PluralForms {
+  return !!value && typeof value === "object" && typeof (value as PluralForms).other === "string";
+}
@@ -0,0 +1,5 @@
+// Messaging extension module exports
+export * from './peopleService';
+export * from './messagingExtensionCards';
+export * from './messagingExtensionHandler';
+export * from './messageAction';
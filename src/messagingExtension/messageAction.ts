@@ -0,0 +1,215 @@
+import { Activity, MessageActionsPayload, MessagingExtensionActionResponse } from "botbuilder";
+import { ADAPTIVE_CARD_SCHEMA, ADAPTIVE_CARD_VERSION, createCardActivity, createCardAttachment } from "../cards";
+import { Localizer } from "../localization";
+
+// Keeps long messages (and the buttons that carry them between steps) well under the invoke size limit
+const MAX_MESSAGE_LENGTH = 4000;
+
+// Questions offered as buttons next to the free-text one, with their text under messagingExtension.presets
+export const MESSAGE_PRESETS = ["summarize", "followUp"];
+
+/**
+ * The message the action was run on, reduced to what the agent needs.
+ */
+export interface SelectedMessage {
+  text: string;
+  author?: string;
+  // ISO 8601, as Teams reports it
+  sentAt?: string;
+}
+
+/**
+ * Which step of the task module a button submits, with the state carried from the previous step.
+ */
+export interface MessageActionData {
+  step?: "ask" | "post" | "private";
+  message?: SelectedMessage;
+  preset?: string;
+  question?: string;
+  answer?: string;
+}
+
+/**
+ * The selected message as plain text, with its author and time. Teams sends the message body as HTML.
+ */
+export function getSelectedMessage(payload: MessageActionsPayload | undefined): SelectedMessage | undefined {
+  const content = payload?.body?.content;
+  if (!content) {
+    return undefined;
+  }
+  const text = payload.body.contentType === "html" ? htmlToText(content) : content.trim();
+  return {
+    text: text.length > MAX_MESSAGE_LENGTH ? `${text.substring(0, MAX_MESSAGE_LENGTH)}...` : text,
+    author: payload.from?.user?.displayName || payload.from?.application?.displayName || undefined,
+    sentAt: payload.createdDateTime || undefined,
+  };
+}
+
+/**
+ * The question a preset button asks, in the user's language, or undefined for no (or an unknown) preset.
+ */
+export function getPresetQuestion(preset: string | undefined, localizer: Localizer): string | undefined {
+  return preset && MESSAGE_PRESETS.includes(preset) ? localizer.t(`messagingExtension.presets.${preset}.question`) : undefined;
+}
+
+/**
+ * What is sent to the agent: the user's question followed by the message, quoted.
+ */
+export function buildMessageQuestion(question: string, message: SelectedMessage): string {
+  const source = [message.author && `from ${message.author}`, message.sentAt && `sent ${message.sentAt}`].filter(Boolean).join(", ");
+  return `${question}\n\nThe message${source ? ` (${source})` : ""}:\n"""\n${message.text}\n"""`;
+}
+
+/**
+ * The first step: the message, a box for the question and preset questions.
+ */
+export function createAskAboutMessageResponse(
+  message: SelectedMessage,
+  localizer: Localizer,
+  error?: string,
+  question = ""
+): MessagingExtensionActionResponse {
+  const data: MessageActionData = { step: "ask", message };
+  return createTaskResponse(localizer, createCard(
+    [
+      ...getMessageBlocks(message),
+      ...(error ? [{ type: "TextBlock", text: error, color: "Attention", wrap: true }] : []),
+      {
+        type: "Input.Text",
+        id: "question",
+        label: localizer.t("messagingExtension.askTitle"),
+        placeholder: localizer.t("messagingExtension.questionPlaceholder"),
+        value: question,
+        isMultiline: true,
+        maxLength: 1000,
+      },
+    ],
+    [
+      { type: "Action.Submit", title: localizer.t("messagingExtension.ask"), style: "positive", data },
+      ...MESSAGE_PRESETS.map((preset) => ({
+        type: "Action.Submit",
+        title: localizer.t(`messagingExtension.presets.${preset}.title`),
+        data: { ...data, preset },
+        associatedInputs: "none",
+      })),
+    ]
+  ));
+}
+
+/**
+ * The agent's answer, with buttons to post it to the chat or send it to the user privately.
+ */
+export function createMessageAnswerResponse(
+  message: SelectedMessage,
+  question: string,
+  answer: string,
+  localizer: Localizer
+): MessagingExtensionActionResponse {
+  const data: MessageActionData = { message, question, answer };
+  return createTaskResponse(localizer, createCard(
+    [
+      { type: "TextBlock", text: question, weight: "Bolder", wrap: true },
+      { type: "TextBlock", text: answer, wrap: true },
+      ...getMessageBlocks(message, true),
+    ],
+    [
+      { type: "Action.Submit", title: localizer.t("messagingExtension.postToChat"), style: "positive", data: { ...data, step: "post" } },
+      { type: "Action.Submit", title: localizer.t("messagingExtension.sendPrivately"), data: { ...data, step: "private" } },
+    ]
+  ));
+}
+
+/**
+ * The answer as it is posted to the chat or sent privately.
+ */
+export function createMessageAnswerCard(message: SelectedMessage, question: string, answer: string, localizer: Localizer): any {
+  return createCard([
+    { type: "TextBlock", text: question, weight: "Bolder", wrap: true },
+    { type: "TextBlock", text: answer, wrap: true },
+    {
+      type: "TextBlock",
+      text: message.author
+        ? localizer.t("messagingExtension.aboutMessageFrom", { author: message.author })
+        : localizer.t("messagingExtension.aboutMessage"),
+      isSubtle: true,
+      size: "Small",
+      wrap: true,
+    },
+  ]);
+}
+
+/**
+ * The answer card as a message, for the user's private chat with the bot.
+ */
+export function createMessageAnswerActivity(
+  message: SelectedMessage,
+  question: string,
+  answer: string,
+  localizer: Localizer
+): Partial<Activity> {
+  return createCardActivity(createMessageAnswerCard(message, question, answer, localizer));
+}
+
+/**
+ * Closes the task module with a short message.
+ */
+export function createTaskMessageResponse(text: string): MessagingExtensionActionResponse {
+  return { task: { type: "message", value: text } };
+}
+
+function createTaskResponse(localizer: Localizer, card: any): MessagingExtensionActionResponse {
+  return {
+    task: {
+      type: "continue",
+      value: { title: localizer.t("messagingExtension.askTitle"), card: createCardAttachment(card), width: "medium", height: "medium" },
+    },
+  };
+}
+
+function getMessageBlocks(message: SelectedMessage, subtle = false): any[] {
+  const source = [message.author, message.sentAt && formatSentAt(message.sentAt)].filter(Boolean).join(" · ");
+  return [{
+    type: "Container",
+    style: "emphasis",
+    separator: subtle,
+    items: [
+      ...(source ? [{ type: "TextBlock", text: source, isSubtle: true, size: "Small", wrap: true }] : []),
+      { type: "TextBlock", text: message.text, isSubtle: subtle, maxLines: subtle ? 3 : 8, spacing: "None", wrap: true },
+    ],
+  }];
+}
+
+// Adaptive Card date and time functions show the time in the user's own time zone
+function formatSentAt(sentAt: string): string | undefined {
+  const time = Date.parse(sentAt);
+  if (isNaN(time)) {
+    return undefined;
+  }
+  const utc = new Date(time).toISOString().replace(/\.\d{3}Z$/, "Z");
+  return `{{DATE(${utc}, SHORT)}} {{TIME(${utc})}}`;
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|h\d)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function createCard(body: any[], actions: any[] = []): any {
+  return {
+    type: "AdaptiveCard",
+    $schema: ADAPTIVE_CARD_SCHEMA,
+    version: ADAPTIVE_CARD_VERSION,
+    body,
+    ...(actions.length > 0 ? { actions } : {}),
+  };
+}
@@ -0,0 +1,139 @@
+import { CardFactory, MessagingExtensionAttachment, MessagingExtensionResponse } from "botbuilder";
+import { ADAPTIVE_CARD_SCHEMA, ADAPTIVE_CARD_VERSION, createCardAttachment } from "../cards";
+import { CalendarEvent, getLocalDateTime } from "../calendar";
+import { formatSlot } from "../scheduling";
+import { AgentResponse, formatUserList } from "../agent";
+import { Localizer } from "../localization";
+import { Person } from "./peopleService";
+
+/**
+ * Search results, shown as a list; the one the user picks goes into the compose box.
+ */
+export function createSearchResponse(attachments: MessagingExtensionAttachment[]): MessagingExtensionResponse {
+  return { composeExtension: { type: "result", attachmentLayout: "list", attachments } };
+}
+
+/**
+ * A line of text in place of results, e.g. when something went wrong.
+ */
+export function createMessageResponse(text: string): MessagingExtensionResponse {
+  return { composeExtension: { type: "message", text } };
+}
+
+/**
+ * Asks Teams for the user's SSO token. Teams gets it silently once the user has consented and
+ * sends the query again; otherwise it shows a sign-in link that opens auth-start.html.
+ */
+export function createSilentAuthResponse(loginUrl: string, localizer: Localizer): MessagingExtensionResponse {
+  return {
+    composeExtension: {
+      type: "silentAuth",
+      suggestedActions: { actions: [{ type: "openUrl", value: loginUrl, title: localizer.t("messagingExtension.signIn") }] },
+    },
+  };
+}
+
+/**
+ * A colleague, with chat and email buttons.
+ */
+export function createPersonAttachment(person: Person, localizer: Localizer): MessagingExtensionAttachment {
+  const details = [person.jobTitle, person.department].filter(Boolean).join(" · ");
+  const actions: any[] = [];
+  if (person.email) {
+    actions.push(
+      {
+        type: "Action.OpenUrl",
+        title: localizer.t("common.chat"),
+        url: `https://teams.microsoft.com/l/chat/0/0?users=${encodeURIComponent(person.email)}`,
+      },
+      { type: "Action.OpenUrl", title: localizer.t("common.email"), url: `mailto:${person.email}` }
+    );
+  }
+
+  return {
+    ...createCardAttachment(createCard(
+      [
+        { type: "TextBlock", text: person.displayName, weight: "Bolder", size: "Medium", wrap: true },
+        ...(details ? [{ type: "TextBlock", text: details, isSubtle: true, spacing: "None", wrap: true }] : []),
+        ...(person.email ? [{ type: "TextBlock", text: person.email, isSubtle: true, spacing: "None", wrap: true }] : []),
+      ],
+      actions
+    )),
+    preview: CardFactory.thumbnailCard(person.displayName, [], [], { subtitle: details || person.email }),
+  };
+}
+
+/**
+ * A calendar event, with its time in the user's mailbox time zone and join and Outlook buttons.
+ */
+export function createMeetingAttachment(event: CalendarEvent, timeZone: string, localizer: Localizer): MessagingExtensionAttachment {
+  const subject = event.subject || localizer.t("common.noTitle");
+  const when = formatEventTime(event, localizer);
+  const facts = [
+    { title: localizer.t("common.when"), value: `${when} (${timeZone})` },
+    ...(event.location?.displayName ? [{ title: localizer.t("common.where"), value: event.location.displayName }] : []),
+    ...(event.organizer?.emailAddress?.name
+      ? [{ title: localizer.t("common.organizer"), value: event.organizer.emailAddress.name }]
+      : []),
+  ];
+  const actions: any[] = [];
+  const joinUrl = event.onlineMeeting?.joinUrl || event.onlineMeetingUrl;
+  if (joinUrl) {
+    actions.push({ type: "Action.OpenUrl", title: localizer.t("common.join"), url: joinUrl });
+  }
+  if (event.webLink) {
+    actions.push({ type: "Action.OpenUrl", title: localizer.t("common.openInOutlook"), url: event.webLink });
+  }
+
+  return {
+    ...createCardAttachment(createCard(
+      [
+        { type: "TextBlock", text: subject, weight: "Bolder", size: "Medium", wrap: true },
+        { type: "FactSet", facts },
+      ],
+      actions
+    )),
+    preview: CardFactory.thumbnailCard(subject, [], [], { subtitle: when }),
+  };
+}
+
+/**
+ * The agent's answer to a question drafted in the compose box, with the question above it.
+ */
+export function createAgentAnswerAttachment(question: string, response: AgentResponse, localizer: Localizer): MessagingExtensionAttachment {
+  return createCardAttachment(createCard([
+    { type: "TextBlock", text: question, weight: "Bolder", wrap: true },
+    { type: "TextBlock", text: getAgentAnswerText(response, localizer), wrap: true },
+    { type: "TextBlock", text: localizer.t("agent.answeredBy"), isSubtle: true, size: "Small", wrap: true },
+  ]));
+}
+
+/**
+ * The agent's answer as text: its reply, or the people it found.
+ */
+export function getAgentAnswerText(response: AgentResponse, localizer: Localizer): string {
+  if (response.text) {
+    return response.text;
+  }
+  return response.users.length > 0 ? formatUserList(response.users, localizer) : localizer.t("agent.noAnswer");
+}
+
+// "Tue, Jan 7, 10:00 - 10:30", or "Tue, Jan 7, all day"
+function formatEventTime(event: CalendarEvent, localizer: Localizer): string {
+  const start = getLocalDateTime(event.start);
+  if (!event.isAllDay) {
+    return formatSlot({ start, end: getLocalDateTime(event.end) }, localizer);
+  }
+  const day = start.substring(0, 10);
+  return localizer.t("scheduling.allDay", { weekday: localizer.formatWeekday(day), date: localizer.formatDate(day, true) });
+}
+
+function createCard(body: any[], actions: any[] = []): any {
+  return {
+    type: "AdaptiveCard",
+    $schema: ADAPTIVE_CARD_SCHEMA,
+    version: ADAPTIVE_CARD_VERSION,
+    body,
+    ...(actions.length > 0 ? { actions } : {}),
+  };
+}
@@ -0,0 +1,292 @@
+import {
+  Activity,
+  ActivityTypes,
+  MessagingExtensionAction,
+  MessagingExtensionActionResponse,
+  MessagingExtensionAttachment,
+  MessagingExtensionQuery,
+  MessagingExtensionResponse,
+  StatusCodes,
+  TurnContext,
+} from "botbuilder";
+import config from "../config";
+import { telemetryService } from "../telemetry";
+import { GraphService, getGraphErrorMessage, graphClientFactory, toGraphServiceError } from "../graph";
+import { CalendarService } from "../calendar";
+import { createCardAttachment } from "../cards";
+import { AgentResponse, agentTokenProvider } from "../agent";
+import { Localizer, getLocalizer } from "../localization";
+import { PeopleService } from "./peopleService";
+import {
+  createAgentAnswerAttachment,
+  createMeetingAttachment,
+  createMessageResponse,
+  createPersonAttachment,
+  createSearchResponse,
+  createSilentAuthResponse,
+  getAgentAnswerText,
+} from "./messagingExtensionCards";
+import {
+  MessageActionData,
+  buildMessageQuestion,
+  createAskAboutMessageResponse,
+  createMessageAnswerActivity,
+  createMessageAnswerCard,
+  createMessageAnswerResponse,
+  createTaskMessageResponse,
+  getPresetQuestion,
+  getSelectedMessage,
+} from "./messageAction";
+
+// Command IDs and parameter names, as declared under composeExtensions in appPackage/manifest.json
+export const SEARCH_PEOPLE_COMMAND = "searchPeople";
+export const SEARCH_MEETINGS_COMMAND = "searchMeetings";
+export const ASK_AGENT_COMMAND = "askAgent";
+export const ASK_ABOUT_MESSAGE_COMMAND = "askAboutMessage";
+const SEARCH_PARAMETER = "searchQuery";
+const QUESTION_PARAMETER = "question";
+
+const MAX_RESULTS = 10;
+// How far ahead the meeting search looks
+const UPCOMING_DAYS = 14;
+
+/**
+ * Answers a question asked from the messaging extension. The bot passes its own agent call, which turns
+ * errors into a failed response with a friendly message.
+ */
+export type AgentQuestionHandler = (context: TurnContext, question: string, accessToken?: string) => Promise<AgentResponse>;
+
+/**
+ * Sends a message to the user's private chat with the bot. Returns false when that isn't possible.
+ */
+export type PrivateMessageSender = (context: TurnContext, activity: Partial<Activity>) => Promise<boolean>;
+
+interface SearchCommand {
+  // Delegated Microsoft Graph scopes the search needs
+  scopes: string[];
+  search(graph: GraphService, text: string, localizer: Localizer): Promise<MessagingExtensionAttachment[]>;
+}
+
+// A Map, so that a command ID such as "constructor" isn't taken for a command
+const SEARCH_COMMANDS = new Map<string, SearchCommand>([
+  [SEARCH_PEOPLE_COMMAND, {
+    scopes: ["People.Read", "User.ReadBasic.All"],
+    search: async (graph, text, localizer) =>
+      (await new PeopleService(graph).search(text, MAX_RESULTS)).map((person) => createPersonAttachment(person, localizer)),
+  }],
+  [SEARCH_MEETINGS_COMMAND, {
+    scopes: ["Calendars.Read", "MailboxSettings.Read"],
+    search: async (graph, text, localizer) => {
+      const upcoming = await new CalendarService(graph).getUpcomingEvents(text, UPCOMING_DAYS, MAX_RESULTS);
+      return upcoming.events.map((event) => createMeetingAttachment(event, upcoming.timeZone, localizer));
+    },
+  }],
+]);
+
+/**
+ * The messaging extension: people and meeting search commands that insert a card into the
+ * compose box, an action command that asks the agent a question and inserts the answer, and a
+ * message action that asks the agent about an existing message in a task module.
+ *
+ * Teams sends the user's SSO token with the invoke once the user has signed in to the extension.
+ * Without one the bot answers with silentAuth, and Teams sends the invoke again with a token; when
+ * the user still has to consent, the bot answers 412 and Teams shows the consent prompt.
+ */
+export class MessagingExtensionHandler {
+  constructor(private askAgent: AgentQuestionHandler, private sendPrivately: PrivateMessageSender) {}
+
+  async handleQuery(context: TurnContext, query: MessagingExtensionQuery): Promise<MessagingExtensionResponse> {
+    const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
+    const localizer = getLocalizer(context);
+    const command = SEARCH_COMMANDS.get(query.commandId);
+    if (!command) {
+      return createMessageResponse(localizer.t("messagingExtension.unknownSearch", { command: query.commandId }));
+    }
+
+    const ssoToken = getSSOToken(context);
+    if (!ssoToken) {
+      telemetryService.trackCustomEvent('Messaging_Extension_Sign_In_Required', { userId, conversationId, commandId: query.commandId });
+      return createSilentAuthResponse(getLoginUrl(command.scopes), localizer);
+    }
+
+    const text = getParameter(query, SEARCH_PARAMETER);
+    const searchTimer = telemetryService.startOperation('Messaging_Extension_Search').setContext(userId, conversationId);
+    try {
+      const attachments = await command.search(graphClientFactory.create(ssoToken, command.scopes), text, localizer);
+      telemetryService.trackCustomEvent('Messaging_Extension_Search', {
+        userId,
+        conversationId,
+        commandId: query.commandId,
+        hasText: (!!text).toString(),
+        results: attachments.length.toString()
+      });
+      searchTimer.stop(true);
+      return createSearchResponse(attachments);
+    } catch (error) {
+      const graphError = toGraphServiceError(error);
+      searchTimer.stop(false, graphError.message);
+      switch (graphError.kind) {
+        case "consentRequired":
+          return this.requireConsent(context, query.commandId);
+        case "unauthorized":
+          // The SSO token was rejected; Teams fetches a fresh one
+          return createSilentAuthResponse(getLoginUrl(command.scopes), localizer);
+        default:
+          telemetryService.trackException(graphError, { userId, conversationId, operation: 'Messaging_Extension_Search' });
+          return createMessageResponse(getGraphErrorMessage(graphError, localizer));
+      }
+    }
+  }
+
+  // The message action opens a task module, as it needs the user's question first
+  async handleFetchTask(context: TurnContext, action: MessagingExtensionAction): Promise<MessagingExtensionActionResponse> {
+    const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
+    const localizer = getLocalizer(context);
+    if (action.commandId !== ASK_ABOUT_MESSAGE_COMMAND) {
+      return createMessageResponse(localizer.t("messagingExtension.unknownAction", { command: action.commandId }));
+    }
+    const message = getSelectedMessage(action.messagePayload);
+    telemetryService.trackCustomEvent('Message_Action_Opened', { userId, conversationId, hasText: (!!message?.text).toString() });
+    if (!message?.text) {
+      return createTaskMessageResponse(localizer.t("messagingExtension.noMessageText"));
+    }
+    return createAskAboutMessageResponse(message, localizer);
+  }
+
+  async handleSubmitAction(context: TurnContext, action: MessagingExtensionAction): Promise<MessagingExtensionActionResponse> {
+    switch (action.commandId) {
+      case ASK_AGENT_COMMAND:
+        return this.askFromComposeBox(context, action);
+      case ASK_ABOUT_MESSAGE_COMMAND:
+        return this.askAboutMessage(context, action);
+      default:
+        return createMessageResponse(getLocalizer(context).t("messagingExtension.unknownAction", { command: action.commandId }));
+    }
+  }
+
+  private async askFromComposeBox(context: TurnContext, action: MessagingExtensionAction): Promise<MessagingExtensionActionResponse> {
+    const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
+    const localizer = getLocalizer(context);
+    const question = String(action.data?.[QUESTION_PARAMETER] || "").trim();
+    if (!question) {
+      return createMessageResponse(localizer.t("messagingExtension.typeQuestion"));
+    }
+
+    const { accessToken, response: authResponse } = await this.getAgentToken(context, action.commandId);
+    if (authResponse) {
+      return authResponse;
+    }
+
+    const response = await this.askAgent(context, question, accessToken);
+    telemetryService.trackCustomEvent('Messaging_Extension_Action', {
+      userId,
+      conversationId,
+      commandId: action.commandId,
+      failed: (!!response.failed).toString()
+    });
+    return response.failed ? createMessageResponse(response.text) : createSearchResponse([createAgentAnswerAttachment(question, response, localizer)]);
+  }
+
+  // The task module's steps: ask the agent, then post the answer to the chat (through the compose
+  // box, so the user sends it) or send it to the user's private chat with the bot
+  private async askAboutMessage(context: TurnContext, action: MessagingExtensionAction): Promise<MessagingExtensionActionResponse> {
+    const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
+    const localizer = getLocalizer(context);
+    const data: MessageActionData = action.data || {};
+    const message = data.message || getSelectedMessage(action.messagePayload);
+    if (!message?.text) {
+      return createTaskMessageResponse(localizer.t("messagingExtension.noMessageText"));
+    }
+
+    if (data.step === "post" || data.step === "private") {
+      const question = String(data.question || "");
+      const answer = String(data.answer || "");
+      telemetryService.trackCustomEvent('Message_Action_Answer_Shared', { userId, conversationId, target: data.step });
+      if (data.step === "post") {
+        return createSearchResponse([createCardAttachment(createMessageAnswerCard(message, question, answer, localizer))]);
+      }
+      const sent = await this.sendPrivately(context, createMessageAnswerActivity(message, question, answer, localizer));
+      return createTaskMessageResponse(localizer.t(sent ? "messagingExtension.sentPrivately" : "messagingExtension.privateChatFailed"));
+    }
+
+    const question = getPresetQuestion(data.preset, localizer) || String(data.question || "").trim();
+    if (!question) {
+      return createAskAboutMessageResponse(message, localizer, localizer.t("messagingExtension.typeQuestionOrPreset"));
+    }
+
+    const { accessToken, response: authResponse } = await this.getAgentToken(context, action.commandId);
+    if (authResponse) {
+      return authResponse;
+    }
+
+    const response = await this.askAgent(context, buildMessageQuestion(question, message), accessToken);
+    telemetryService.trackCustomEvent('Message_Action_Asked', {
+      userId,
+      conversationId,
+      preset: data.preset || 'none',
+      failed: (!!response.failed).toString()
+    });
+    if (response.failed) {
+      return createAskAboutMessageResponse(message, localizer, response.text, question);
+    }
+    return createMessageAnswerResponse(message, question, getAgentAnswerText(response, localizer), localizer);
+  }
+
+  // The user's token for the agent when user auth is on: a cached one, or one exchanged from the
+  // SSO token Teams sent. Without either, or when consent is missing, the response to send instead.
+  private async getAgentToken(
+    context: TurnContext,
+    commandId: string
+  ): Promise<{ accessToken?: string; response?: MessagingExtensionActionResponse }> {
+    if (!agentTokenProvider.enabled) {
+      return {};
+    }
+    const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
+    const cached = agentTokenProvider.getCachedToken(context);
+    if (cached) {
+      return { accessToken: cached };
+    }
+
+    const ssoToken = getSSOToken(context);
+    if (!ssoToken) {
+      telemetryService.trackCustomEvent('Messaging_Extension_Sign_In_Required', { userId, conversationId, commandId });
+      return { response: createSilentAuthResponse(getLoginUrl(agentTokenProvider.scopes), getLocalizer(context)) };
+    }
+    try {
+      return { accessToken: await agentTokenProvider.getToken(ssoToken) };
+    } catch (error) {
+      const graphError = toGraphServiceError(error);
+      if (graphError.kind === "consentRequired") {
+        return { response: await this.requireConsent(context, commandId) };
+      }
+      telemetryService.trackCustomEvent('Agent_Token_Failed', { userId, conversationId, errorKind: graphError.kind });
+      return { response: createMessageResponse(getLocalizer(context).t("sso.agentSignInFailed")) };
+    }
+  }
+
+  // Teams shows the consent prompt when the invoke is answered with 412. The response is sent
+  // here, so the handler's own (empty) response is dropped.
+  private async requireConsent(context: TurnContext, commandId: string): Promise<MessagingExtensionResponse> {
+    const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
+    telemetryService.trackCustomEvent('Messaging_Extension_Consent_Required', { userId, conversationId, commandId });
+    await context.sendActivity({ type: ActivityTypes.InvokeResponse, value: { status: StatusCodes.PRECONDITION_FAILED } });
+    return {};
+  }
+}
+
+// Set by Teams on the invoke once the user has signed in to the extension
+function getSSOToken(context: TurnContext): string | undefined {
+  return context.activity.value?.authentication?.token || undefined;
+}
+
+// auth-start.html signs the user in and asks for consent to the scopes
+function getLoginUrl(scopes: string[]): string {
+  const query = new URLSearchParams({ scope: scopes.join(" "), clientId: config.clientId, tenantId: config.tenantId });
+  return `https://${config.botDomain}/auth-start.html?${query.toString()}`;
+}
+
+// The search text; empty on the initial run, when Teams opens the extension
+function getParameter(query: MessagingExtensionQuery, name: string): string {
+  const parameter = query.parameters?.find((candidate) => candidate.name === name);
+  return typeof parameter?.value === "string" ? parameter.value.trim() : "";
+}
@@ -0,0 +1,96 @@
+import { GraphService, GraphServiceError } from "../graph";
+
+export interface Person {
+  displayName: string;
+  email?: string;
+  jobTitle?: string;
+  department?: string;
+}
+
+interface GraphPerson {
+  displayName?: string;
+  jobTitle?: string;
+  department?: string;
+  userPrincipalName?: string;
+  scoredEmailAddresses?: { address?: string }[];
+  personType?: { class?: string };
+}
+
+interface GraphUser {
+  displayName?: string;
+  jobTitle?: string;
+  department?: string;
+  mail?: string;
+  userPrincipalName?: string;
+}
+
+/**
+ * Colleague search for the signed-in user. People the user works with most come first
+ * (/me/people), followed by other matches from the directory (/users).
+ */
+export class PeopleService {
+  constructor(private graph: GraphService) {}
+
+  /**
+   * Up to maxResults people whose name or address matches text. With no text, the people the
+   * user works with most.
+   */
+  async search(text: string, maxResults: number): Promise<Person[]> {
+    // Both endpoints take the search in double quotes
+    const search = text.replace(/"/g, "").trim();
+    const people = await this.getRelevantPeople(search, maxResults);
+    if (!search || people.length >= maxResults) {
+      return people;
+    }
+
+    const known = new Set(people.map((person) => person.email?.toLowerCase()).filter(Boolean));
+    const users = await this.searchDirectory(search, maxResults);
+    return [...people, ...users.filter((user) => !user.email || !known.has(user.email.toLowerCase()))].slice(0, maxResults);
+  }
+
+  private async getRelevantPeople(search: string, maxResults: number): Promise<Person[]> {
+    try {
+      const page = await this.graph.get<{ value?: GraphPerson[] }>("/me/people", {
+        query: {
+          ...(search ? { $search: `"${search}"` } : {}),
+          $select: "displayName,jobTitle,department,userPrincipalName,scoredEmailAddresses,personType",
+          $top: maxResults,
+        },
+      });
+      return (page.value || [])
+        .filter((person) => person.displayName && (!person.personType?.class || person.personType.class === "Person"))
+        .map((person) => ({
+          displayName: person.displayName,
+          email: person.scoredEmailAddresses?.[0]?.address || person.userPrincipalName,
+          jobTitle: person.jobTitle,
+          department: person.department,
+        }));
+    } catch (error) {
+      // Users without an Exchange Online mailbox have no relevant people; the directory still works
+      if (error instanceof GraphServiceError && error.kind === "notFound") {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private async searchDirectory(search: string, maxResults: number): Promise<Person[]> {
+    const page = await this.graph.get<{ value?: GraphUser[] }>("/users", {
+      query: {
+        $search: `"displayName:${search}" OR "mail:${search}"`,
+        $select: "displayName,jobTitle,department,mail,userPrincipalName",
+        $top: maxResults,
+      },
+      // $search on directory objects is an advanced query
+      headers: { ConsistencyLevel: "eventual" },
+    });
+    return (page.value || [])
+      .filter((user) => user.displayName)
+      .map((user) => ({
+        displayName: user.displayName,
+        email: user.mail || user.userPrincipalName,
+        jobTitle: user.jobTitle,
+        department: user.department,
+      }));
+  }
+}
@@ -0,0 +1,3 @@
+// User preferences module exports
+export * from './userPreferences';
+export * from './settingsCard';
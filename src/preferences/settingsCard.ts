@@ -0,0 +1,120 @@
+import { ADAPTIVE_CARD_SCHEMA, ADAPTIVE_CARD_VERSION } from "../cards";
+import { Localizer } from "../localization";
+import {
+  DEFAULT_PREFERENCES,
+  PREFERRED_LANGUAGES,
+  RESPONSE_VERBOSITIES,
+  ResponseVerbosity,
+  UserPreferences,
+  isValidTimeZone,
+} from "./userPreferences";
+
+export const SETTINGS_SAVE_VERB = "settings.save";
+export const SETTINGS_RESET_VERB = "settings.reset";
+
+/**
+ * The settings editor. After a save it shows what happened above the form, so the user can keep editing.
+ */
+export function createSettingsCard(
+  preferences: UserPreferences,
+  localizer: Localizer,
+  status: { errors?: string[]; saved?: boolean } = {}
+): any {
+  const body: any[] = [
+    { type: "TextBlock", text: localizer.t("settings.title"), weight: "Bolder", size: "Medium" },
+    ...(status.errors || []).map((text) => ({ type: "TextBlock", text, color: "Attention", wrap: true })),
+    ...(status.saved ? [{ type: "TextBlock", text: localizer.t("settings.saved"), color: "Good", wrap: true }] : []),
+    {
+      type: "Input.Text",
+      id: "timeZone",
+      label: localizer.t("settings.timeZone"),
+      placeholder: localizer.t("settings.timeZonePlaceholder"),
+      value: preferences.timeZone || "",
+    },
+    {
+      type: "ColumnSet",
+      columns: [
+        {
+          type: "Column",
+          width: "stretch",
+          items: [{ type: "Input.Time", id: "workStart", label: localizer.t("settings.workingHoursFrom"), value: preferences.workingHours.start, isRequired: true }],
+        },
+        {
+          type: "Column",
+          width: "stretch",
+          items: [{ type: "Input.Time", id: "workEnd", label: localizer.t("settings.workingHoursTo"), value: preferences.workingHours.end, isRequired: true }],
+        },
+      ],
+    },
+    {
+      type: "Input.ChoiceSet",
+      id: "language",
+      label: localizer.t("settings.language"),
+      style: "compact",
+      value: preferences.language || "",
+      choices: [
+        { title: localizer.t("settings.sameAsTeams"), value: "" },
+        ...PREFERRED_LANGUAGES.map((language) => ({ title: language.name, value: language.tag })),
+      ],
+    },
+    {
+      type: "Input.ChoiceSet",
+      id: "verbosity",
+      label: localizer.t("settings.verbosity"),
+      style: "expanded",
+      value: preferences.verbosity,
+      choices: RESPONSE_VERBOSITIES.map((verbosity) => ({ title: localizer.t(`settings.${verbosity}`), value: verbosity })),
+    },
+    {
+      type: "Input.Toggle",
+      id: "notificationsAllowed",
+      title: localizer.t("settings.notifications"),
+      value: String(preferences.notificationsAllowed),
+      valueOn: "true",
+      valueOff: "false",
+    },
+  ];
+
+  return {
+    type: "AdaptiveCard",
+    $schema: ADAPTIVE_CARD_SCHEMA,
+    version: ADAPTIVE_CARD_VERSION,
+    body,
+    actions: [
+      { type: "Action.Execute", title: localizer.t("settings.save"), verb: SETTINGS_SAVE_VERB, style: "positive" },
+      { type: "Action.Execute", title: localizer.t("settings.reset"), verb: SETTINGS_RESET_VERB, associatedInputs: "none" },
+    ],
+  };
+}
+
+/**
+ * Validate the submitted settings. The preferences keep what was typed, so an invalid form is shown again as entered.
+ */
+export function readSettingsForm(data: { [key: string]: any }, localizer: Localizer): { preferences: UserPreferences; errors: string[] } {
+  const errors: string[] = [];
+  const timeZone = String(data.timeZone || "").trim();
+  const start = String(data.workStart || "");
+  const end = String(data.workEnd || "");
+  const language = String(data.language || "");
+  const verbosity = String(data.verbosity || "") as ResponseVerbosity;
+
+  if (timeZone && !isValidTimeZone(timeZone)) {
+    errors.push(localizer.t("settings.invalidTimeZone", { timeZone }));
+  }
+  if (!/^\d{2}:\d{2}$/.test(start) || !/^\d{2}:\d{2}$/.test(end)) {
+    errors.push(localizer.t("settings.missingWorkingHours"));
+  } else if (start >= end) {
+    errors.push(localizer.t("settings.workingHoursOrder"));
+  }
+
+  return {
+    preferences: {
+      timeZone: timeZone || undefined,
+      workingHours: { start, end },
+      language: PREFERRED_LANGUAGES.some((preferred) => preferred.tag === language) ? language : undefined,
+      verbosity: RESPONSE_VERBOSITIES.includes(verbosity) ? verbosity : DEFAULT_PREFERENCES.verbosity,
+      notificationsAllowed: String(data.notificationsAllowed) !== "false",
+    },
+    errors,
+  };
+}
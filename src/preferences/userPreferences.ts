@@ -0,0 +1,93 @@
+import { ActivityTypes, BotAdapter, ConversationReference, StatePropertyAccessor, TurnContext, UserState } from "botbuilder";
+
+// Name of the UserState property the preferences are stored under
+const PREFERENCES_PROPERTY = "UserPreferences";
+
+export type ResponseVerbosity = "brief" | "normal" | "detailed";
+
+export const RESPONSE_VERBOSITIES: ResponseVerbosity[] = ["brief", "normal", "detailed"];
+
+// Languages offered on the settings card. Without one, the language of the user's Teams client is used.
+export const PREFERRED_LANGUAGES: { tag: string; name: string }[] = [
+  { tag: "en-US", name: "English (United States)" },
+  { tag: "en-GB", name: "English (United Kingdom)" },
+  { tag: "de-DE", name: "Deutsch" },
+  { tag: "es-ES", name: "Español" },
+  { tag: "fr-FR", name: "Français" },
+  { tag: "nl-NL", name: "Nederlands" },
+];
+
+export interface WorkingHours {
+  // HH:mm, in the user's time zone
+  start: string;
+  end: string;
+}
+
+export interface UserPreferences {
+  // IANA name such as "Europe/London". Unset: the time zone in the user's Outlook settings
+  timeZone?: string;
+  workingHours: WorkingHours;
+  // BCP 47 tag such as "de-DE". Unset: the language of the user's Teams client
+  language?: string;
+  verbosity: ResponseVerbosity;
+  // Off when the user doesn't want messages sent through /api/notify
+  notificationsAllowed: boolean;
+  updatedAt?: string;
+}
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  workingHours: { start: "09:00", end: "17:00" },
+  verbosity: "normal",
+  notificationsAllowed: true,
+};
+
+/**
+ * Each user's preferences, kept in the bot's UserState so they follow the user across chats.
+ * Changes are saved with the rest of the state at the end of the turn (see TeamsBot.run).
+ */
+export class UserPreferencesStore {
+  private accessor: StatePropertyAccessor<Partial<UserPreferences> | undefined>;
+
+  constructor(private userState: UserState) {
+    this.accessor = userState.createProperty(PREFERENCES_PROPERTY);
+  }
+
+  /**
+   * The preferences of the user who sent the activity, with defaults for anything not set.
+   */
+  async get(context: TurnContext): Promise<UserPreferences> {
+    const stored = await this.accessor.get(context);
+    return {
+      ...DEFAULT_PREFERENCES,
+      ...stored,
+      workingHours: { ...DEFAULT_PREFERENCES.workingHours, ...stored?.workingHours },
+    };
+  }
+
+  async set(context: TurnContext, preferences: UserPreferences): Promise<UserPreferences> {
+    const saved = { ...preferences, updatedAt: new Date().toISOString() };
+    await this.accessor.set(context, saved);
+    return saved;
+  }
+
+  /**
+   * The preferences of the user a stored conversation reference points to, outside of a turn
+   * with them (e.g. before a proactive message).
+   */
+  async getForReference(adapter: BotAdapter, reference: Partial<ConversationReference>): Promise<UserPreferences> {
+    const activity = TurnContext.applyConversationReference({ type: ActivityTypes.Event }, reference, true);
+    return this.get(new TurnContext(adapter, activity));
+  }
+}
+
+/**
+ * Whether the runtime knows an IANA time zone name.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
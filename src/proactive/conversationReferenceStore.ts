@@ -0,0 +1,441 @@
+import {
+  Activity,
+  ConversationReference,
+  Storage,
+  TurnContext,
+} from "botbuilder";
+import { createHash } from "crypto";
+import config from "../config";
+import { CREATE_ONLY_ETAG, isETagConflict, waitBeforeRetry } from "../storage";
+import { telemetryService } from "../telemetry";
+
+const KEY_PREFIX = "conversationReferences";
+// The directory of users is split over this many records, so that instances adding users don't
+// all contend for one record
+const DIRECTORY_SHARDS = 16;
+const MAX_WRITE_ATTEMPTS = 5;
+// Don't rewrite an unchanged reference more often than this just to bump lastSeen
+const LAST_SEEN_WRITE_INTERVAL_MS = 5 * 60 * 1000;
+
+export type UserIdentifierType = "aad" | "teams" | "upn";
+
+export interface StoredConversation {
+  conversationId: string;
+  conversationType: string;
+  tenantId?: string;
+  reference: Partial<ConversationReference>;
+  lastSeen: string;
+}
+
+export interface ConversationUserRecord {
+  userKey: string;
+  aadObjectId?: string;
+  teamsUserId?: string;
+  userPrincipalName?: string;
+  name?: string;
+  tenantId?: string;
+  lastSeen: string;
+  conversations: { [conversationId: string]: StoredConversation };
+}
+
+// A team channel or group chat, for posting to the conversation rather than to a user
+export interface StoredChannel {
+  // Without the ";messageid=" thread suffix, so posts start a new thread
+  conversationId: string;
+  conversationType: string;
+  tenantId?: string;
+  teamId?: string;
+  teamName?: string;
+  channelName?: string;
+  reference: Partial<ConversationReference>;
+  lastSeen: string;
+}
+
+// One shard of the directory: the last time each of its users was seen
+interface UserDirectory {
+  users: { [userKey: string]: string };
+}
+
+interface ConversationMembers {
+  userKeys: string[];
+}
+
+interface LookupEntry {
+  userKey: string;
+}
+
+/**
+ * Persistent registry of conversation references used for proactive messaging.
+ * Every user is stored once (keyed by AAD object ID, or Teams user ID when there is none)
+ * with all conversations the bot has seen them in, and can be looked up by AAD object ID,
+ * Teams user ID or UPN. Entries not seen within the configured TTL are expired.
+ * Team channels and group chats are also stored once each, so the bot can post to them.
+ */
+export class ConversationReferenceStore {
+  private storage: Storage;
+  private ttlMs: number;
+
+  constructor(storage: Storage, ttlDays: number = config.conversationReferenceTtlDays) {
+    this.storage = storage;
+    this.ttlMs = ttlDays * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Record the conversation reference for the sender of an activity.
+   * The UPN is optional because it is not part of the activity; callers can resolve it from the roster.
+   */
+  async addFromActivity(activity: Partial<Activity>, userPrincipalName?: string): Promise<ConversationUserRecord | undefined> {
+    const reference = TurnContext.getConversationReference(activity);
+    const from = activity.from;
+    const conversationId = activity.conversation?.id;
+    const userKey = from?.aadObjectId || from?.id;
+    if (!userKey || !conversationId) {
+      return undefined;
+    }
+
+    const now = new Date();
+    const tenantId = activity.conversation?.tenantId || activity.channelData?.tenant?.id;
+    const conversation: StoredConversation = {
+      conversationId,
+      conversationType: activity.conversation?.conversationType || "personal",
+      tenantId,
+      reference,
+      lastSeen: now.toISOString(),
+    };
+
+    let changed = false;
+    let isNewConversation = false;
+    const record = await this.update<ConversationUserRecord>(this.userKey(userKey), (existing) => {
+      const previous = existing?.conversations[conversationId];
+      const upn = userPrincipalName?.toLowerCase() || existing?.userPrincipalName;
+      if (
+        previous &&
+        upn === existing.userPrincipalName &&
+        JSON.stringify(previous.reference) === JSON.stringify(reference) &&
+        now.getTime() - Date.parse(previous.lastSeen) < LAST_SEEN_WRITE_INTERVAL_MS
+      ) {
+        return existing;
+      }
+
+      changed = true;
+      isNewConversation = !previous;
+      return {
+        userKey,
+        aadObjectId: from.aadObjectId || existing?.aadObjectId,
+        teamsUserId: from.id || existing?.teamsUserId,
+        userPrincipalName: upn,
+        name: from.name || existing?.name,
+        tenantId: tenantId || existing?.tenantId,
+        lastSeen: conversation.lastSeen,
+        conversations: { ...existing?.conversations, [conversationId]: conversation },
+      };
+    });
+    if (!changed) {
+      return record;
+    }
+
+    await this.writeLookups(record);
+    await this.update<UserDirectory>(this.directoryKey(userKey), (directory) => ({
+      users: { ...directory?.users, [userKey]: record.lastSeen },
+    }));
+    if (isNewConversation) {
+      await this.update<ConversationMembers>(this.conversationKey(conversationId), (members) => ({
+        userKeys: Array.from(new Set([...(members?.userKeys || []), userKey])),
+      }));
+
+      telemetryService.trackCustomEvent('Conversation_Reference_Added', {
+        userId: from.id || 'unknown',
+        aadObjectId: from.aadObjectId || 'unknown',
+        conversationId,
+        conversationType: conversation.conversationType,
+        totalConversations: Object.keys(record.conversations).length.toString()
+      });
+    }
+
+    return record;
+  }
+
+  /**
+   * Record the team channel or group chat an activity was sent in. Messages in a channel thread
+   * are stored as the channel itself.
+   */
+  async addChannelFromActivity(activity: Partial<Activity>): Promise<StoredChannel | undefined> {
+    if (!activity.conversation?.id) {
+      return undefined;
+    }
+    const conversationId = getChannelConversationId(activity.conversation.id);
+    const { activityId, user, ...reference } = TurnContext.getConversationReference(activity);
+    reference.conversation = { ...reference.conversation, id: conversationId };
+
+    const now = new Date();
+    let isNew = false;
+    const channel = await this.update<StoredChannel>(this.channelKey(conversationId), (existing) => {
+      if (
+        existing &&
+        JSON.stringify(existing.reference) === JSON.stringify(reference) &&
+        now.getTime() - Date.parse(existing.lastSeen) < LAST_SEEN_WRITE_INTERVAL_MS
+      ) {
+        return existing;
+      }
+      isNew = !existing;
+      return {
+        conversationId,
+        conversationType: activity.conversation.conversationType || "groupChat",
+        tenantId: activity.conversation.tenantId || activity.channelData?.tenant?.id,
+        teamId: activity.channelData?.team?.id || existing?.teamId,
+        teamName: activity.channelData?.team?.name || existing?.teamName,
+        channelName: activity.channelData?.channel?.name || existing?.channelName,
+        reference,
+        lastSeen: now.toISOString(),
+      };
+    });
+
+    if (isNew) {
+      telemetryService.trackCustomEvent('Channel_Reference_Added', {
+        conversationId,
+        conversationType: channel.conversationType,
+        teamId: channel.teamId || 'none'
+      });
+    }
+    return channel;
+  }
+
+  /**
+   * A team channel or group chat by conversation ID (a thread's ID finds its channel), or undefined
+   * if it isn't known or has expired.
+   */
+  async getChannel(conversationId: string): Promise<StoredChannel | undefined> {
+    const key = this.channelKey(getChannelConversationId(conversationId));
+    const items = await this.storage.read([key]);
+    const channel = items[key] as StoredChannel | undefined;
+    if (!channel || Date.parse(channel.lastSeen) < Date.now() - this.ttlMs) {
+      return undefined;
+    }
+    return channel;
+  }
+
+  /**
+   * Find a user by AAD object ID, Teams user ID or UPN.
+   * Expired conversations are dropped; a user with no live conversations is removed and not returned.
+   */
+  async findUser(identifier: string): Promise<ConversationUserRecord | undefined> {
+    if (!identifier) {
+      return undefined;
+    }
+
+    for (const type of ["aad", "teams", "upn"] as UserIdentifierType[]) {
+      const lookupKey = this.lookupKey(type, identifier);
+      const items = await this.storage.read([lookupKey]);
+      const entry = items[lookupKey] as LookupEntry | undefined;
+      if (entry?.userKey) {
+        return await this.getUser(entry.userKey);
+      }
+    }
+    return undefined;
+  }
+
+  async getUser(userKey: string): Promise<ConversationUserRecord | undefined> {
+    const key = this.userKey(userKey);
+    const items = await this.storage.read([key]);
+    const record = items[key] as ConversationUserRecord | undefined;
+    if (!record) {
+      return undefined;
+    }
+
+    const live = this.withoutExpired(record);
+    if (!live) {
+      await this.removeUser(userKey);
+      telemetryService.trackCustomEvent('Conversation_Reference_Expired', { userKey });
+      return undefined;
+    }
+    return live;
+  }
+
+  /**
+   * The reference to use when messaging a user directly: their personal chat if known,
+   * otherwise the conversation they were most recently seen in.
+   */
+  getPreferredReference(record: ConversationUserRecord): Partial<ConversationReference> | undefined {
+    const conversations = Object.values(record.conversations);
+    const personal = conversations.find((c) => c.conversationType === "personal");
+    if (personal) {
+      return personal.reference;
+    }
+    return conversations.sort((a, b) => Date.parse(b.lastSeen) - Date.parse(a.lastSeen))[0]?.reference;
+  }
+
+  /**
+   * Keys of every user with a stored reference, most recently seen first.
+   */
+  async listUserKeys(): Promise<string[]> {
+    const items = await this.storage.read(Array.from({ length: DIRECTORY_SHARDS }, (_, shard) => this.directoryShardKey(shard)));
+    const users: { [userKey: string]: string } = {};
+    for (const directory of Object.values(items) as UserDirectory[]) {
+      Object.assign(users, directory.users);
+    }
+    return Object.entries(users)
+      .sort(([, a], [, b]) => Date.parse(b) - Date.parse(a))
+      .map(([userKey]) => userKey);
+  }
+
+  /**
+   * Remove a conversation for every user who was seen in it, e.g. when the bot is uninstalled.
+   * Returns the keys of those users.
+   */
+  async removeConversation(conversationId: string): Promise<string[]> {
+    const conversationKey = this.conversationKey(conversationId);
+    const items = await this.storage.read([conversationKey]);
+    const members = items[conversationKey] as ConversationMembers | undefined;
+
+    for (const userKey of members?.userKeys || []) {
+      const record = await this.update<ConversationUserRecord>(this.userKey(userKey), (existing) => {
+        if (!existing) {
+          return undefined;
+        }
+        const { [conversationId]: removed, ...conversations } = existing.conversations;
+        return { ...existing, conversations };
+      });
+      if (record && Object.keys(record.conversations).length === 0) {
+        await this.removeUser(userKey);
+      }
+    }
+    await this.storage.delete([conversationKey, this.channelKey(getChannelConversationId(conversationId))]);
+
+    telemetryService.trackCustomEvent('Conversation_Reference_Removed', {
+      conversationId,
+      affectedUsers: (members?.userKeys.length || 0).toString()
+    });
+    return members?.userKeys || [];
+  }
+
+  async removeUser(userKey: string): Promise<void> {
+    const key = this.userKey(userKey);
+    const items = await this.storage.read([key]);
+    const record = items[key] as ConversationUserRecord | undefined;
+
+    const keys = [key];
+    if (record) {
+      keys.push(...this.lookupKeysFor(record));
+    }
+    await this.storage.delete(keys);
+    await this.update<UserDirectory>(this.directoryKey(userKey), (directory) => {
+      const { [userKey]: removed, ...users } = directory?.users || {};
+      return { users };
+    });
+  }
+
+  /**
+   * Drop every expired conversation and user. Meant to be run periodically.
+   */
+  async purgeExpired(): Promise<number> {
+    let removed = 0;
+    for (const userKey of await this.listUserKeys()) {
+      const key = this.userKey(userKey);
+      const items = await this.storage.read([key]);
+      const record = items[key] as ConversationUserRecord | undefined;
+      const live = record && this.withoutExpired(record);
+      if (!live) {
+        await this.removeUser(userKey);
+        removed++;
+      } else if (Object.keys(live.conversations).length !== Object.keys(record.conversations).length) {
+        await this.update<ConversationUserRecord>(key, () => live);
+      }
+    }
+
+    if (removed > 0) {
+      telemetryService.trackCustomEvent('Conversation_Reference_Purged', { removedUsers: removed.toString() });
+    }
+    return removed;
+  }
+
+  private withoutExpired(record: ConversationUserRecord): ConversationUserRecord | undefined {
+    const cutoff = Date.now() - this.ttlMs;
+    const conversations = Object.fromEntries(
+      Object.entries(record.conversations).filter(([, c]) => Date.parse(c.lastSeen) >= cutoff)
+    );
+    if (Object.keys(conversations).length === 0) {
+      return undefined;
+    }
+    return { ...record, conversations };
+  }
+
+  // Each lookup is written only when it is new or points at another user
+  private async writeLookups(record: ConversationUserRecord): Promise<void> {
+    for (const key of this.lookupKeysFor(record)) {
+      await this.update<LookupEntry>(key, (existing) =>
+        existing?.userKey === record.userKey ? existing : { userKey: record.userKey }
+      );
+    }
+  }
+
+  private lookupKeysFor(record: ConversationUserRecord): string[] {
+    const keys: string[] = [];
+    if (record.aadObjectId) keys.push(this.lookupKey("aad", record.aadObjectId));
+    if (record.teamsUserId) keys.push(this.lookupKey("teams", record.teamsUserId));
+    if (record.userPrincipalName) keys.push(this.lookupKey("upn", record.userPrincipalName));
+    return keys;
+  }
+
+  /**
+   * Read-modify-write with optimistic concurrency; retries after a jittered wait when another
+   * instance wrote first. A new item is created only if no other instance created it first.
+   * Returning undefined from mutate deletes the item.
+   */
+  private async update<T>(key: string, mutate: (existing: T | undefined) => T | undefined): Promise<T | undefined> {
+    for (let attempt = 1; ; attempt++) {
+      const items = await this.storage.read([key]);
+      const existing = items[key] as (T & { eTag?: string }) | undefined;
+      const next = mutate(existing);
+
+      if (next === existing) {
+        return existing;
+      }
+      if (next === undefined) {
+        await this.storage.delete([key]);
+        return undefined;
+      }
+
+      try {
+        await this.storage.write({ [key]: { ...next, eTag: existing?.eTag || CREATE_ONLY_ETAG } });
+        return next;
+      } catch (err) {
+        if (!isETagConflict(err) || attempt >= MAX_WRITE_ATTEMPTS) {
+          throw err;
+        }
+      }
+      await waitBeforeRetry(attempt);
+    }
+  }
+
+  private userKey(userKey: string): string {
+    return `${KEY_PREFIX}/users/${userKey}`;
+  }
+
+  private conversationKey(conversationId: string): string {
+    return `${KEY_PREFIX}/conversations/${conversationId}`;
+  }
+
+  private channelKey(conversationId: string): string {
+    return `${KEY_PREFIX}/channels/${conversationId}`;
+  }
+
+  private directoryKey(userKey: string): string {
+    return this.directoryShardKey(createHash("sha256").update(userKey).digest().readUInt32BE(0) % DIRECTORY_SHARDS);
+  }
+
+  private directoryShardKey(shard: number): string {
+    return `${KEY_PREFIX}/directory/${shard}`;
+  }
+
+  private lookupKey(type: UserIdentifierType, value: string): string {
+    return `${KEY_PREFIX}/lookup/${type}/${type === "upn" ? value.toLowerCase() : value}`;
+  }
+}
+
+/**
+ * The conversation ID of a channel without the thread part Teams appends to messages in a thread
+ * ("19:...@thread.tacv2;messageid=123").
+ */
+export function getChannelConversationId(conversationId: string): string {
+  return conversationId.split(";messageid=")[0];
+}
@@ -0,0 +1,6 @@
+// Proactive messaging module exports
+export * from './conversationReferenceStore';
+export * from './notifyAuth';
+export * from './proactiveMessenger';
+export * from './notifyJobs';
+export * from './notifyPayload';
@@ -0,0 +1,269 @@
+import { createHash, createHmac, createPublicKey, timingSafeEqual, KeyObject } from "crypto";
+import { NextFunction, Request, Response } from "express";
+import { decode, verify, JwtPayload } from "jsonwebtoken";
+import { Storage } from "botbuilder";
+import "isomorphic-fetch";
+import config from "../config";
+import { telemetryService } from "../telemetry";
+import { ExpiringIdStore } from "../idempotency";
+
+export type NotifyAuthScheme = "apiKey" | "hmac" | "entra" | "none";
+
+/**
+ * A backend system allowed to call /api/notify, configured through NOTIFY_CALLERS.
+ * A caller authenticates with any credential it has configured, and may only message
+ * the users and tenants it is scoped to ("*" allows any).
+ */
+export interface NotifyCaller {
+  id: string;
+  apiKey?: string;
+  hmacSecret?: string;
+  appIds?: string[];
+  allowedUsers?: string[];
+  allowedTenants?: string[];
+}
+
+export interface AuthenticatedNotifyRequest extends Request {
+  notifyCaller?: NotifyCaller;
+  rawBody?: Buffer;
+}
+
+export class NotifyAuthError extends Error {
+  constructor(public scheme: string, message: string) {
+    super(message);
+    this.name = "NotifyAuthError";
+  }
+}
+
+const API_KEY_HEADER = "x-api-key";
+const CALLER_HEADER = "x-notify-caller";
+const TIMESTAMP_HEADER = "x-notify-timestamp";
+const SIGNATURE_HEADER = "x-notify-signature";
+const JWKS_CACHE_MS = 24 * 60 * 60 * 1000;
+// A token with an unknown key id refetches the signing keys at most this often
+const JWKS_REFETCH_INTERVAL_MS = 60 * 1000;
+const SEEN_SIGNATURES_KEY_PREFIX = "notifySignatures";
+// Each caller's signatures are spread over this many records, so concurrent requests rarely write the same one
+const SEEN_SIGNATURES_SHARDS = 16;
+// Signatures remembered per record within the timestamp tolerance window
+const MAX_SEEN_SIGNATURES_PER_SHARD = 200;
+
+/**
+ * Express middleware protecting /api/notify.
+ * Supported schemes (NOTIFY_AUTH_SCHEMES, tried in order):
+ * - apiKey: shared key in the x-api-key header
+ * - hmac:   x-notify-signature = "sha256=" + HMAC-SHA256(secret, `${timestamp}.${rawBody}`),
+ *           with x-notify-caller and x-notify-timestamp (unix seconds) headers
+ * - entra:  Entra ID bearer token for NOTIFY_ENTRA_AUDIENCE issued to one of the caller's appIds
+ */
+export class NotifyAuthenticator {
+  private callers: NotifyCaller[];
+  private schemes: NotifyAuthScheme[];
+  // Signatures seen within the timestamp tolerance window, kept in the shared storage so that a
+  // request is accepted once across all instances
+  private seenSignatures: ExpiringIdStore;
+  private signingKeys = new Map<string, KeyObject>();
+  private signingKeysFetchedAt = 0;
+  private signingKeysRefresh?: Promise<void>;
+
+  constructor(
+    storage: Storage,
+    callers: NotifyCaller[] = config.notifyCallers,
+    schemes: NotifyAuthScheme[] = config.notifyAuthSchemes as NotifyAuthScheme[]
+  ) {
+    this.seenSignatures = new ExpiringIdStore(storage, MAX_SEEN_SIGNATURES_PER_SHARD);
+    this.callers = callers;
+    this.schemes = schemes;
+
+    if (this.schemes.includes("none")) {
+      console.warn('⚠️ /api/notify authentication is disabled (NOTIFY_AUTH_SCHEMES=none)');
+    }
+  }
+
+  middleware() {
+    return async (req: AuthenticatedNotifyRequest, res: Response, next: NextFunction) => {
+      try {
+        req.notifyCaller = await this.authenticate(req);
+        next();
+      } catch (error) {
+        const scheme = error instanceof NotifyAuthError ? error.scheme : "unknown";
+        const reason = error instanceof Error ? error.message : String(error);
+
+        telemetryService.trackCustomEvent('ProactiveMessage_AuthFailed', {
+          scheme,
+          reason,
+          callerId: req.header(CALLER_HEADER) || 'unknown',
+          remoteAddress: req.ip || 'unknown'
+        });
+
+        res.status(401).send('Unauthorized');
+      }
+    };
+  }
+
+  async authenticate(req: AuthenticatedNotifyRequest): Promise<NotifyCaller> {
+    if (this.schemes.includes("none")) {
+      return { id: "anonymous", allowedUsers: ["*"], allowedTenants: ["*"] };
+    }
+
+    if (req.header(API_KEY_HEADER) && this.schemes.includes("apiKey")) {
+      return this.authenticateApiKey(req.header(API_KEY_HEADER));
+    }
+    if (req.header(SIGNATURE_HEADER) && this.schemes.includes("hmac")) {
+      return await this.authenticateHmac(req);
+    }
+    const authorization = req.header("authorization");
+    if (authorization?.startsWith("Bearer ") && this.schemes.includes("entra")) {
+      return await this.authenticateEntra(authorization.substring("Bearer ".length));
+    }
+
+    throw new NotifyAuthError("none", "No supported credentials presented");
+  }
+
+  /**
+   * Whether the caller may message this recipient. Any of the recipient's identifiers
+   * may appear in allowedUsers; the recipient's tenant must appear in allowedTenants.
+   */
+  isRecipientAllowed(caller: NotifyCaller, recipient: { identifiers: string[]; tenantId?: string }): boolean {
+    const allowedUsers = (caller.allowedUsers || []).map((u) => u.toLowerCase());
+    const allowedTenants = (caller.allowedTenants || []).map((t) => t.toLowerCase());
+
+    const userAllowed =
+      allowedUsers.includes("*") ||
+      recipient.identifiers.some((id) => id && allowedUsers.includes(id.toLowerCase()));
+    const tenantAllowed =
+      allowedTenants.includes("*") ||
+      (!!recipient.tenantId && allowedTenants.includes(recipient.tenantId.toLowerCase()));
+
+    return userAllowed && tenantAllowed;
+  }
+
+  private authenticateApiKey(apiKey: string): NotifyCaller {
+    const caller = this.callers.find((c) => c.apiKey && safeEqual(c.apiKey, apiKey));
+    if (!caller) {
+      throw new NotifyAuthError("apiKey", "Unknown API key");
+    }
+    return caller;
+  }
+
+  private async authenticateHmac(req: AuthenticatedNotifyRequest): Promise<NotifyCaller> {
+    const callerId = req.header(CALLER_HEADER);
+    const caller = this.callers.find((c) => c.id === callerId && c.hmacSecret);
+    if (!caller) {
+      throw new NotifyAuthError("hmac", "Unknown caller");
+    }
+
+    const timestamp = parseInt(req.header(TIMESTAMP_HEADER) || "", 10);
+    const toleranceSeconds = config.notifyHmacToleranceSeconds;
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    if (!timestamp || Math.abs(nowSeconds - timestamp) > toleranceSeconds) {
+      throw new NotifyAuthError("hmac", "Timestamp missing or outside the allowed window");
+    }
+
+    const body = req.rawBody ? req.rawBody.toString("utf8") : "";
+    const expected = "sha256=" + createHmac("sha256", caller.hmacSecret).update(`${timestamp}.${body}`).digest("hex");
+    const signature = req.header(SIGNATURE_HEADER);
+    if (!safeEqual(expected, signature)) {
+      throw new NotifyAuthError("hmac", "Signature mismatch");
+    }
+
+    // A signature is only valid within the tolerance window either side of its timestamp. If the
+    // storage can't be reached the request is rejected, as a replay can't be ruled out.
+    const { added } = await this.seenSignatures.add(
+      this.seenSignaturesKey(caller, signature),
+      signature,
+      2 * toleranceSeconds * 1000
+    );
+    if (!added) {
+      throw new NotifyAuthError("hmac", "Replayed request");
+    }
+
+    return caller;
+  }
+
+  private async authenticateEntra(token: string): Promise<NotifyCaller> {
+    const decoded = decode(token, { complete: true });
+    const kid = decoded?.header?.kid;
+    if (!kid) {
+      throw new NotifyAuthError("entra", "Malformed bearer token");
+    }
+
+    const key = await this.getSigningKey(kid);
+    const tenantId = config.tenantId;
+    let payload: JwtPayload;
+    try {
+      payload = verify(token, key, {
+        algorithms: ["RS256"],
+        audience: config.notifyEntraAudience,
+        issuer: [
+          `https://login.microsoftonline.com/${tenantId}/v2.0`,
+          `https://sts.windows.net/${tenantId}/`,
+        ],
+      }) as JwtPayload;
+    } catch (error) {
+      throw new NotifyAuthError("entra", error instanceof Error ? error.message : String(error));
+    }
+
+    // v2 tokens carry the client app in azp, v1 tokens in appid
+    const appId = (payload.azp || payload.appid) as string | undefined;
+    const caller = this.callers.find((c) => appId && c.appIds?.includes(appId));
+    if (!caller) {
+      throw new NotifyAuthError("entra", `App ${appId || 'unknown'} is not an allowed caller`);
+    }
+    return caller;
+  }
+
+  // A replayed signature always lands in the same record as the original
+  private seenSignaturesKey(caller: NotifyCaller, signature: string): string {
+    const shard = createHash("sha256").update(signature).digest().readUInt32BE(0) % SEEN_SIGNATURES_SHARDS;
+    return `${SEEN_SIGNATURES_KEY_PREFIX}/${caller.id}/${shard}`;
+  }
+
+  private async getSigningKey(kid: string): Promise<KeyObject> {
+    // An unknown key id refetches the keys, as Entra rotates them, but not more than once a minute:
+    // the key id comes from an unverified token, so anyone could send new ones
+    const sinceFetch = Date.now() - this.signingKeysFetchedAt;
+    if (sinceFetch > JWKS_CACHE_MS || (!this.signingKeys.has(kid) && sinceFetch > JWKS_REFETCH_INTERVAL_MS)) {
+      await this.refreshSigningKeys();
+    }
+
+    const key = this.signingKeys.get(kid);
+    if (!key) {
+      throw new NotifyAuthError("entra", "Unknown signing key");
+    }
+    return key;
+  }
+
+  // Requests arriving while the keys are being fetched share the one fetch
+  private refreshSigningKeys(): Promise<void> {
+    if (!this.signingKeysRefresh) {
+      this.signingKeysRefresh = this.fetchSigningKeys().finally(() => {
+        this.signingKeysRefresh = undefined;
+      });
+    }
+    return this.signingKeysRefresh;
+  }
+
+  // Failed fetches count too, so an unreachable endpoint isn't retried on every request.
+  // The keys fetched before stay in use until new ones arrive.
+  private async fetchSigningKeys(): Promise<void> {
+    this.signingKeysFetchedAt = Date.now();
+    const authorityHost = config.authorityHost || "https://login.microsoftonline.com";
+    const response = await fetch(`${authorityHost}/${config.tenantId}/discovery/v2.0/keys`);
+    if (!response.ok) {
+      throw new NotifyAuthError("entra", `Could not load signing keys: ${response.status}`);
+    }
+    const jwks = await response.json();
+    const signingKeys = new Map<string, KeyObject>();
+    for (const jwk of jwks.keys || []) {
+      signingKeys.set(jwk.kid, createPublicKey({ key: jwk, format: "jwk" }));
+    }
+    this.signingKeys = signingKeys;
+  }
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a || "");
+  const right = Buffer.from(b || "");
+  return left.length === right.length && timingSafeEqual(left, right);
+}
@@ -0,0 +1,293 @@
+import { randomUUID } from "crypto";
+import { Activity, Storage } from "botbuilder";
+import config from "../config";
+import { CREATE_ONLY_ETAG, isETagConflict, waitBeforeRetry } from "../storage";
+import { telemetryService } from "../telemetry";
+import { ConversationReferenceStore } from "./conversationReferenceStore";
+import { NotifyCaller } from "./notifyAuth";
+import { DeliveryResult, DeliveryStatus, ProactiveMessenger } from "./proactiveMessenger";
+
+const KEY_PREFIX = "notifyJobs";
+// Persist progress after this many deliveries so status queries see a running job advance
+const PROGRESS_WRITE_INTERVAL = 25;
+const MAX_WRITE_ATTEMPTS = 5;
+// A running job is also saved this often, even when deliveries are slow, to show it is alive
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+// A running job saved longer ago than this lost its instance (a restart or crash) and won't finish
+const STALE_AFTER_MS = 4 * HEARTBEAT_INTERVAL_MS;
+
+// "interrupted": the instance running the job stopped; recipients still pending were not messaged
+export type NotifyJobStatus = "running" | "completed" | "interrupted";
+
+export interface NotifyJobRequest {
+  // Explicit recipients (AAD object IDs, Teams IDs or UPNs), or "all" for every known user
+  recipients: string[] | "all";
+  tenantId?: string;
+  message: string | Partial<Activity>;
+}
+
+export type NotifyJobCounts = Record<DeliveryStatus, number> & { total: number };
+
+export interface NotifyJob {
+  jobId: string;
+  callerId: string;
+  status: NotifyJobStatus;
+  tenantId?: string;
+  createdAt: string;
+  // Last time the running job was saved
+  heartbeatAt: string;
+  completedAt?: string;
+  counts: NotifyJobCounts;
+  recipients: { [recipient: string]: DeliveryResult };
+}
+
+type StoredNotifyJob = NotifyJob & { eTag?: string };
+
+export class NotifyJobValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotifyJobValidationError";
+  }
+}
+
+/**
+ * Runs batch and broadcast proactive notifications as background jobs.
+ * Job progress is kept in the shared storage so any instance can answer status queries.
+ */
+export class NotifyJobManager {
+  constructor(
+    private storage: Storage,
+    private store: ConversationReferenceStore,
+    private messenger: ProactiveMessenger
+  ) {}
+
+  /**
+   * Validate the request, record the job and start fanning out. Resolves once the job is stored;
+   * delivery continues in the background.
+   */
+  async startJob(caller: NotifyCaller, request: NotifyJobRequest): Promise<NotifyJob> {
+    const recipients = await this.resolveRecipients(request);
+    if (recipients.length === 0) {
+      throw new NotifyJobValidationError("No recipients");
+    }
+    if (recipients.length > config.notifyBatchMaxRecipients) {
+      throw new NotifyJobValidationError(
+        `Too many recipients (${recipients.length}); the limit is ${config.notifyBatchMaxRecipients}`
+      );
+    }
+
+    const job: NotifyJob = {
+      jobId: randomUUID(),
+      callerId: caller.id,
+      status: "running",
+      tenantId: request.tenantId,
+      createdAt: new Date().toISOString(),
+      heartbeatAt: new Date().toISOString(),
+      counts: { total: recipients.length, pending: recipients.length, sent: 0, notFound: 0, optedOut: 0, failed: 0 },
+      recipients: Object.fromEntries(recipients.map((r) => [r, { status: "pending", attempts: 0 } as DeliveryResult])),
+    };
+    await this.saveJob(job);
+
+    telemetryService.trackCustomEvent('ProactiveMessage_JobStarted', {
+      jobId: job.jobId,
+      callerId: caller.id,
+      broadcast: (request.recipients === "all").toString(),
+      tenantId: request.tenantId || 'any',
+      total: job.counts.total.toString()
+    });
+
+    this.runJob(job, caller, request).catch((error) => {
+      telemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+        jobId: job.jobId,
+        operation: 'ProactiveMessage_Job'
+      });
+    });
+
+    return job;
+  }
+
+  /**
+   * A job as seen by its caller; jobs created by other callers are not visible. A running job
+   * whose heartbeat stopped is marked interrupted.
+   */
+  async getJob(jobId: string, caller: NotifyCaller): Promise<NotifyJob | undefined> {
+    const key = this.jobKey(jobId);
+    const items = await this.storage.read([key]);
+    const job = items[key] as StoredNotifyJob | undefined;
+    if (!job || job.callerId !== caller.id) {
+      return undefined;
+    }
+    const { eTag, ...rest } = isStale(job) ? await this.markInterrupted(job) : job;
+    return rest;
+  }
+
+  private async runJob(job: NotifyJob, caller: NotifyCaller, request: NotifyJobRequest): Promise<void> {
+    const operationTimer = telemetryService.startOperation('ProactiveMessage_Job');
+    const queue = Object.keys(job.recipients);
+    let completedSinceSave = 0;
+    let interrupted = false;
+
+    // Saves run one at a time, so the job's own writes don't conflict with each other. A failed
+    // progress save is retried by the next one; a job marked interrupted meanwhile stops delivering.
+    let saving = Promise.resolve();
+    const saveProgress = () => {
+      saving = saving.then(async () => {
+        try {
+          if (!interrupted && !(await this.saveJob(job))) {
+            interrupted = true;
+            queue.length = 0;
+          }
+        } catch (error) {
+          console.warn(`Could not save notification job ${job.jobId}:`, error instanceof Error ? error.message : error);
+        }
+      });
+      return saving;
+    };
+    const heartbeat = setInterval(saveProgress, HEARTBEAT_INTERVAL_MS);
+
+    const worker = async () => {
+      for (let recipient = queue.shift(); recipient !== undefined; recipient = queue.shift()) {
+        const result = await this.deliverTo(recipient, caller, request);
+        job.recipients[recipient] = result;
+        job.counts.pending--;
+        job.counts[result.status]++;
+
+        if (++completedSinceSave >= PROGRESS_WRITE_INTERVAL) {
+          completedSinceSave = 0;
+          await saveProgress();
+        }
+      }
+    };
+
+    const concurrency = Math.max(1, Math.min(config.notifyBatchConcurrency, queue.length));
+    try {
+      await Promise.all(Array.from({ length: concurrency }, worker));
+    } finally {
+      clearInterval(heartbeat);
+      await saving;
+    }
+
+    if (interrupted) {
+      operationTimer.stop(false, 'Job was marked interrupted');
+      return;
+    }
+
+    job.status = "completed";
+    job.completedAt = new Date().toISOString();
+    if (!(await this.saveJob(job))) {
+      operationTimer.stop(false, 'Job was marked interrupted');
+      return;
+    }
+
+    telemetryService.trackCustomEvent('ProactiveMessage_JobCompleted', {
+      jobId: job.jobId,
+      callerId: caller.id,
+      total: job.counts.total.toString(),
+      sent: job.counts.sent.toString(),
+      notFound: job.counts.notFound.toString(),
+      optedOut: job.counts.optedOut.toString(),
+      failed: job.counts.failed.toString(),
+      durationMs: (Date.parse(job.completedAt) - Date.parse(job.createdAt)).toString()
+    });
+    operationTimer.stop(job.counts.failed === 0, job.counts.failed > 0 ? `${job.counts.failed} deliveries failed` : undefined);
+  }
+
+  // A recipient whose delivery threw, e.g. on a storage failure, is recorded as failed and the job goes on
+  private async deliverTo(recipient: string, caller: NotifyCaller, request: NotifyJobRequest): Promise<DeliveryResult> {
+    try {
+      return await this.messenger.deliver(recipient, request.message, caller, { tenantId: request.tenantId });
+    } catch (error) {
+      return { status: "failed", reason: error instanceof Error ? error.message : String(error), attempts: 0 };
+    }
+  }
+
+  private async resolveRecipients(request: NotifyJobRequest): Promise<string[]> {
+    const limit = config.notifyBatchMaxRecipients;
+    if (request.recipients === "all") {
+      // Broadcast: every known user, narrowed to one tenant if a filter was given. A broadcast
+      // beyond the limit is refused before anything is sent, rather than reaching only some users.
+      const userKeys = await this.store.listUserKeys();
+      if (!request.tenantId) {
+        if (userKeys.length > limit) {
+          throw new NotifyJobValidationError(
+            `Broadcast would reach ${userKeys.length} users; the limit is ${limit}. Narrow it with tenant_id or send batches of recipients.`
+          );
+        }
+        return userKeys;
+      }
+      const recipients: string[] = [];
+      for (const userKey of userKeys) {
+        const record = await this.store.getUser(userKey);
+        if (record?.tenantId === request.tenantId) {
+          recipients.push(userKey);
+        }
+        if (recipients.length > limit) {
+          throw new NotifyJobValidationError(
+            `Broadcast would reach more than ${limit} users in tenant ${request.tenantId}; the limit is ${limit}. Send batches of recipients.`
+          );
+        }
+      }
+      return recipients;
+    }
+
+    if (!Array.isArray(request.recipients)) {
+      throw new NotifyJobValidationError('recipients must be an array of user IDs or "all"');
+    }
+    return Array.from(new Set(request.recipients.filter((r) => typeof r === "string" && r.trim()).map((r) => r.trim())));
+  }
+
+  // Compare-and-swap on the stored job, so that a job another instance marked interrupted stays
+  // that way. Resolves false when it was.
+  private async saveJob(job: NotifyJob): Promise<boolean> {
+    const key = this.jobKey(job.jobId);
+    for (let attempt = 1; ; attempt++) {
+      const stored = (await this.storage.read([key]))[key] as StoredNotifyJob | undefined;
+      if (stored && stored.status === "interrupted") {
+        return false;
+      }
+
+      job.heartbeatAt = new Date().toISOString();
+      try {
+        await this.storage.write({ [key]: { ...job, eTag: stored?.eTag || CREATE_ONLY_ETAG } });
+        return true;
+      } catch (error) {
+        if (!isETagConflict(error) || attempt >= MAX_WRITE_ATTEMPTS) {
+          throw error;
+        }
+      }
+      await waitBeforeRetry(attempt);
+    }
+  }
+
+  // Only if the job wasn't saved since it was read: a conflict means its instance is still running it
+  private async markInterrupted(job: StoredNotifyJob): Promise<StoredNotifyJob> {
+    const interrupted: StoredNotifyJob = { ...job, status: "interrupted", completedAt: new Date().toISOString() };
+    try {
+      await this.storage.write({ [this.jobKey(job.jobId)]: interrupted });
+    } catch (error) {
+      if (!isETagConflict(error)) {
+        throw error;
+      }
+      const key = this.jobKey(job.jobId);
+      return ((await this.storage.read([key]))[key] as StoredNotifyJob | undefined) || job;
+    }
+
+    telemetryService.trackCustomEvent('ProactiveMessage_JobInterrupted', {
+      jobId: job.jobId,
+      callerId: job.callerId,
+      total: job.counts.total.toString(),
+      pending: job.counts.pending.toString(),
+      heartbeatAt: job.heartbeatAt
+    });
+    return interrupted;
+  }
+
+  private jobKey(jobId: string): string {
+    return `${KEY_PREFIX}/${jobId}`;
+  }
+}
+
+// Jobs saved before heartbeats were recorded count from their creation
+function isStale(job: NotifyJob): boolean {
+  return job.status === "running" && Date.now() - Date.parse(job.heartbeatAt || job.createdAt) > STALE_AFTER_MS;
+}
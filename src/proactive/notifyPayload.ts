@@ -0,0 +1,64 @@
+import { Activity } from "botbuilder";
+import {
+  AdaptiveCardValidationError,
+  CardTemplateNotFoundError,
+  createCardActivity,
+  renderCardTemplate,
+} from "../cards";
+import { getLocalizer } from "../localization";
+
+export class NotifyPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotifyPayloadError";
+  }
+}
+
+/**
+ * Build the outgoing message from a notify request body. Exactly one of:
+ * - message:         plain text
+ * - card:            Adaptive Card JSON
+ * - template (+data): name of a registered card template and the data to bind to it
+ * Cards are validated and get a plain-text fallback. An optional locale (BCP 47, e.g. "de-DE")
+ * picks the language of the text in a template.
+ */
+export function buildNotifyMessage(body: any, defaultMessage?: string): string | Partial<Activity> {
+  const { message, card, template, data, locale } = body || {};
+  if (locale !== undefined && locale !== null && typeof locale !== "string") {
+    throw new NotifyPayloadError("locale must be a string");
+  }
+  const provided = [message, card, template].filter((value) => value !== undefined && value !== null);
+  if (provided.length === 0) {
+    if (defaultMessage) {
+      return defaultMessage;
+    }
+    throw new NotifyPayloadError("One of message, card or template is required");
+  }
+  if (provided.length > 1) {
+    throw new NotifyPayloadError("Only one of message, card or template may be given");
+  }
+
+  if (message !== undefined && message !== null) {
+    if (typeof message !== "string" || !message.trim()) {
+      throw new NotifyPayloadError("message must be a non-empty string");
+    }
+    return message;
+  }
+
+  try {
+    const cardJson = template ? renderCardTemplate(String(template), data, getLocalizer(locale || undefined)) : card;
+    return createCardActivity(cardJson);
+  } catch (error) {
+    if (error instanceof AdaptiveCardValidationError || error instanceof CardTemplateNotFoundError) {
+      throw new NotifyPayloadError(error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Size of a notify message for telemetry
+ */
+export function getNotifyMessageLength(message: string | Partial<Activity>): number {
+  return typeof message === "string" ? message.length : JSON.stringify(message).length;
+}
@@ -0,0 +1,147 @@
+import { Activity, CloudAdapter, ConversationReference } from "botbuilder";
+import config from "../config";
+import { ConversationReferenceStore } from "./conversationReferenceStore";
+import { NotifyAuthenticator, NotifyCaller } from "./notifyAuth";
+import { UserPreferencesStore } from "../preferences";
+
+// optedOut: the user turned notifications off in /settings
+export type DeliveryStatus = "pending" | "sent" | "notFound" | "optedOut" | "failed";
+
+export interface DeliveryResult {
+  status: DeliveryStatus;
+  reason?: string;
+  attempts: number;
+}
+
+export interface DeliveryFilter {
+  tenantId?: string;
+}
+
+/**
+ * Sends proactive messages through continueConversationAsync.
+ * Throttled sends (HTTP 429) are retried with exponential backoff, honouring Retry-After when Teams sends it.
+ * Users who turned notifications off are skipped.
+ */
+export class ProactiveMessenger {
+  constructor(
+    private adapter: CloudAdapter,
+    private store: ConversationReferenceStore,
+    private authenticator: NotifyAuthenticator,
+    private preferences: UserPreferencesStore
+  ) {}
+
+  /**
+   * Resolve a recipient and send to their preferred conversation, enforcing the caller's scope.
+   */
+  async deliver(
+    identifier: string,
+    message: string | Partial<Activity>,
+    caller: NotifyCaller,
+    filter: DeliveryFilter = {}
+  ): Promise<DeliveryResult> {
+    const record = await this.store.findUser(identifier);
+    if (!record || (filter.tenantId && record.tenantId !== filter.tenantId)) {
+      return { status: "notFound", attempts: 0 };
+    }
+
+    const allowed = this.authenticator.isRecipientAllowed(caller, {
+      identifiers: [identifier, record.aadObjectId, record.teamsUserId, record.userPrincipalName],
+      tenantId: record.tenantId,
+    });
+    // Reported like an unknown user, so callers can't probe for users outside their scope
+    if (!allowed) {
+      return { status: "notFound", attempts: 0 };
+    }
+
+    const reference = this.store.getPreferredReference(record);
+    if (!reference) {
+      return { status: "notFound", attempts: 0 };
+    }
+    if (!(await this.allowsNotifications(reference))) {
+      return { status: "optedOut", attempts: 0 };
+    }
+
+    try {
+      const attempts = await this.sendToReference(reference, message);
+      return { status: "sent", attempts };
+    } catch (error) {
+      return {
+        status: "failed",
+        reason: error instanceof Error ? error.message : String(error),
+        attempts: (error as { attempts?: number }).attempts || 1,
+      };
+    }
+  }
+
+  /**
+   * Whether the user a conversation reference points to accepts notifications.
+   */
+  async allowsNotifications(reference: Partial<ConversationReference>): Promise<boolean> {
+    if (!reference.user) {
+      return true;
+    }
+    return (await this.preferences.getForReference(this.adapter, reference)).notificationsAllowed;
+  }
+
+  /**
+   * Send to a conversation, retrying on throttling. Resolves with the number of attempts made.
+   */
+  async sendToReference(reference: Partial<ConversationReference>, message: string | Partial<Activity>): Promise<number> {
+    // Get the bot's app ID from config, use empty string for local testing
+    const appId = config.MicrosoftAppId || "";
+    const maxAttempts = config.notifyMaxAttempts;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.adapter.continueConversationAsync(appId, reference, async (context) => {
+          await context.sendActivity(message);
+        });
+        return attempt;
+      } catch (error) {
+        const delayMs = this.getThrottleDelay(error, attempt);
+        if (delayMs === undefined || attempt >= maxAttempts) {
+          if (error && typeof error === "object") {
+            (error as { attempts?: number }).attempts = attempt;
+          }
+          throw error;
+        }
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  // Returns how long to wait before retrying, or undefined when the error isn't throttling
+  private getThrottleDelay(error: unknown, attempt: number): number | undefined {
+    if (!error || typeof error !== "object") {
+      return undefined;
+    }
+    const { statusCode, response } = error as ThrottledError;
+    if ((statusCode ?? response?.status) !== 429) {
+      return undefined;
+    }
+
+    const headers = response?.headers;
+    const retryAfter = headers && (isHeaders(headers) ? headers.get("retry-after") : headers["retry-after"]);
+    const retryAfterSeconds = parseInt(String(retryAfter), 10);
+    if (!isNaN(retryAfterSeconds)) {
+      return retryAfterSeconds * 1000;
+    }
+
+    // Exponential backoff with full jitter
+    const ceiling = Math.min(config.notifyRetryBaseDelayMs * 2 ** (attempt - 1), 30000);
+    return Math.floor(Math.random() * ceiling) + config.notifyRetryBaseDelayMs;
+  }
+}
+
+// The parts of a failed Bot Connector call that tell whether it was throttled
+interface ThrottledError {
+  statusCode?: number;
+  response?: {
+    status?: number;
+    headers?: Headers | { [name: string]: string | string[] | undefined };
+  };
+}
+
+function isHeaders(headers: object): headers is Headers {
+  return typeof (headers as Headers).get === "function";
+}
@@ -0,0 +1,2 @@
+// Rate limiting module exports
+export * from './rateLimiter';
@@ -0,0 +1,282 @@
+import { Storage, StoreItems, TurnContext } from "botbuilder";
+import config from "../config";
+import { CREATE_ONLY_ETAG, isETagConflict, waitBeforeRetry } from "../storage";
+import { telemetryService } from "../telemetry";
+
+const KEY_PREFIX = "rateLimits";
+const MAX_WRITE_ATTEMPTS = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type RateLimitScope = "user" | "conversation" | "tenant";
+
+/**
+ * Limits for one scope. Messages are taken from a token bucket that holds up to burst messages and
+ * refills at perMinute; dailyQuota caps the messages per UTC day. 0 turns a limit off.
+ */
+export interface ScopeLimits {
+  perMinute: number;
+  burst: number;
+  dailyQuota: number;
+}
+
+export type RateLimits = { [scope in RateLimitScope]: ScopeLimits };
+
+// Who a message counts against
+export interface RateLimitSubject {
+  userKey: string;
+  conversationId: string;
+  tenantId?: string;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // The limit that refused the message
+  scope?: RateLimitScope;
+  reason?: "rate" | "quota";
+  limit?: number;
+  // When a message would be accepted again
+  retryAfterSeconds?: number;
+}
+
+export interface QuotaUsage {
+  used: number;
+  // 0 when there is no daily quota
+  limit: number;
+  remaining?: number;
+}
+
+export interface UsageSummary {
+  user: QuotaUsage;
+  tenant?: QuotaUsage;
+  // Messages a minute the user can send, or 0 without a limit
+  userPerMinute: number;
+  // Start of the next UTC day, when daily counts start again (ISO 8601)
+  resetsAt: string;
+}
+
+interface TokenBucket {
+  tokens: number;
+  refilledAt: number;
+}
+
+interface DailyCount {
+  // UTC day (YYYY-MM-DD)
+  day: string;
+  count: number;
+}
+
+interface RateLimitRecord {
+  bucket?: TokenBucket;
+  daily?: DailyCount;
+}
+
+type StoredRateLimitRecord = RateLimitRecord & { eTag?: string };
+
+export function getConfiguredRateLimits(): RateLimits {
+  return {
+    user: { perMinute: config.rateLimitUserPerMinute, burst: config.rateLimitUserBurst, dailyQuota: config.dailyQuotaUserMessages },
+    conversation: { perMinute: config.rateLimitConversationPerMinute, burst: config.rateLimitConversationBurst, dailyQuota: 0 },
+    tenant: { perMinute: config.rateLimitTenantPerMinute, burst: config.rateLimitTenantBurst, dailyQuota: config.dailyQuotaTenantMessages },
+  };
+}
+
+/**
+ * Who a message counts against: the sender, the conversation (each channel thread on its own)
+ * and the tenant.
+ */
+export function getRateLimitSubject(context: TurnContext): RateLimitSubject {
+  const { activity } = context;
+  return {
+    userKey: activity.from.aadObjectId || activity.from.id,
+    conversationId: activity.conversation.id,
+    tenantId: activity.conversation.tenantId || activity.channelData?.tenant?.id,
+  };
+}
+
+/**
+ * Rate limits and daily quotas on messages to the bot, per user, conversation and tenant.
+ * Counters live in the shared storage, one record per user, conversation and tenant, so the
+ * limits hold across instances. Every limit is checked before the message is counted, so a
+ * refused message isn't counted. Each record is then updated on its own, compare-and-swap on its
+ * eTag: a storage write isn't atomic across keys, and a conflict on one record must not count
+ * the message again on the others.
+ *
+ * The limits fail open. When storage fails or a record stays contended, the message is allowed
+ * and the failure is tracked as Rate_Limit_Check_Failed, rather than failing the user's turn.
+ */
+export class RateLimiter {
+  private storage: Storage;
+  private limits: RateLimits;
+
+  constructor(storage: Storage, limits: RateLimits = getConfiguredRateLimits()) {
+    this.storage = storage;
+    this.limits = limits;
+  }
+
+  /**
+   * Count a message, unless a limit refuses it. Messages that don't count towards the daily
+   * quotas (countsTowardsQuota false) are still rate limited.
+   */
+  async consume(subject: RateLimitSubject, countsTowardsQuota = true): Promise<RateLimitResult> {
+    const scopes = this.getScopes(subject);
+    if (scopes.length === 0) {
+      return { allowed: true };
+    }
+
+    let items: StoreItems;
+    try {
+      items = await this.storage.read(scopes.map(({ key }) => key));
+    } catch (err) {
+      trackCheckFailed(undefined, err);
+      return { allowed: true };
+    }
+
+    const now = Date.now();
+    for (const { scope, key } of scopes) {
+      const refusal = this.check(scope, items[key], countsTowardsQuota, now);
+      if (refusal) {
+        return refusal;
+      }
+    }
+
+    for (const { scope, key } of scopes) {
+      try {
+        await this.count(scope, key, items[key], countsTowardsQuota);
+      } catch (err) {
+        trackCheckFailed(scope, err);
+      }
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * The user's messages today against the daily quotas, for /usage.
+   */
+  async getUsage(subject: RateLimitSubject): Promise<UsageSummary> {
+    const now = Date.now();
+    const today = getDay(now);
+    const userKey = this.key("user", subject.userKey);
+    const tenantKey = subject.tenantId && this.limits.tenant.dailyQuota > 0 ? this.key("tenant", subject.tenantId) : undefined;
+    const items = await this.storage.read(tenantKey ? [userKey, tenantKey] : [userKey]);
+
+    return {
+      user: getQuotaUsage(getUsed(items[userKey], today), this.limits.user.dailyQuota),
+      ...(tenantKey ? { tenant: getQuotaUsage(getUsed(items[tenantKey], today), this.limits.tenant.dailyQuota) } : {}),
+      userPerMinute: this.limits.user.perMinute,
+      resetsAt: new Date(getNextDay(now)).toISOString(),
+    };
+  }
+
+  // The limit of the scope that refuses the message, if any
+  private check(
+    scope: RateLimitScope,
+    record: StoredRateLimitRecord | undefined,
+    countsTowardsQuota: boolean,
+    now: number
+  ): RateLimitResult | undefined {
+    const limits = this.limits[scope];
+    if (limits.perMinute > 0) {
+      const bucket = refill(record?.bucket, limits, now);
+      if (bucket.tokens < 1) {
+        const retryAfterMs = ((1 - bucket.tokens) * 60000) / limits.perMinute;
+        return { allowed: false, scope, reason: "rate", limit: limits.perMinute, retryAfterSeconds: Math.ceil(retryAfterMs / 1000) };
+      }
+    }
+
+    if (countsTowardsQuota && limits.dailyQuota > 0 && getUsed(record, getDay(now)) >= limits.dailyQuota) {
+      return {
+        allowed: false,
+        scope,
+        reason: "quota",
+        limit: limits.dailyQuota,
+        retryAfterSeconds: Math.ceil((getNextDay(now) - now) / 1000),
+      };
+    }
+    return undefined;
+  }
+
+  // Take a token from the scope's bucket and add the message to its daily count. On a conflict
+  // the record is read again and the message counted on the newer counts, after a short wait.
+  private async count(
+    scope: RateLimitScope,
+    key: string,
+    existing: StoredRateLimitRecord | undefined,
+    countsTowardsQuota: boolean
+  ): Promise<void> {
+    const limits = this.limits[scope];
+    for (let attempt = 1; ; attempt++) {
+      const now = Date.now();
+      const today = getDay(now);
+      const next: RateLimitRecord = {
+        daily: { day: today, count: getUsed(existing, today) + (countsTowardsQuota ? 1 : 0) },
+      };
+      if (limits.perMinute > 0) {
+        // Below 0 when messages raced past the check; later messages wait for the refill
+        next.bucket = { tokens: refill(existing?.bucket, limits, now).tokens - 1, refilledAt: now };
+      }
+
+      try {
+        // A new record is created only if no other message created it first
+        await this.storage.write({ [key]: { ...next, eTag: existing?.eTag || CREATE_ONLY_ETAG } });
+        return;
+      } catch (err) {
+        if (!isETagConflict(err) || attempt >= MAX_WRITE_ATTEMPTS) {
+          throw err;
+        }
+      }
+      await waitBeforeRetry(attempt);
+      existing = (await this.storage.read([key]))[key];
+    }
+  }
+
+  // The scopes that have a limit, most specific first. The user's record is always kept, so
+  // /usage can show today's count.
+  private getScopes(subject: RateLimitSubject): { scope: RateLimitScope; key: string }[] {
+    const ids: { [scope in RateLimitScope]: string | undefined } = {
+      user: subject.userKey,
+      conversation: subject.conversationId,
+      tenant: subject.tenantId,
+    };
+    return (Object.keys(ids) as RateLimitScope[])
+      .filter((scope) => ids[scope] && (scope === "user" || this.limits[scope].perMinute > 0 || this.limits[scope].dailyQuota > 0))
+      .map((scope) => ({ scope, key: this.key(scope, ids[scope]) }));
+  }
+
+  private key(scope: RateLimitScope, id: string): string {
+    return `${KEY_PREFIX}/${scope}/${id}`;
+  }
+}
+
+// Add the tokens earned since the last message, up to the burst size. A new bucket starts full.
+function refill(bucket: TokenBucket | undefined, limits: ScopeLimits, now: number): TokenBucket {
+  const capacity = Math.max(1, limits.burst);
+  if (!bucket) {
+    return { tokens: capacity, refilledAt: now };
+  }
+  const earned = (Math.max(0, now - bucket.refilledAt) * limits.perMinute) / 60000;
+  return { tokens: Math.min(capacity, bucket.tokens + earned), refilledAt: now };
+}
+
+function trackCheckFailed(scope: RateLimitScope | undefined, err: unknown): void {
+  telemetryService.trackCustomEvent('Rate_Limit_Check_Failed', {
+    scope: scope || 'all',
+    reason: isETagConflict(err) ? 'contention' : 'storageError',
+    error: err instanceof Error ? err.message : String(err)
+  });
+}
+
+function getUsed(record: RateLimitRecord | undefined, today: string): number {
+  return record?.daily?.day === today ? record.daily.count : 0;
+}
+
+function getQuotaUsage(used: number, limit: number): QuotaUsage {
+  return { used, limit, ...(limit > 0 ? { remaining: Math.max(0, limit - used) } : {}) };
+}
+
+function getDay(time: number): string {
+  return new Date(time).toISOString().substring(0, 10);
+}
+
+function getNextDay(time: number): number {
+  return (Math.floor(time / DAY_MS) + 1) * DAY_MS;
+}
@@ -0,0 +1,3 @@
+// Scheduling module exports
+export * from './schedulingFlowStore';
+export * from './schedulingCards';
@@ -0,0 +1,326 @@
+import { ADAPTIVE_CARD_SCHEMA, ADAPTIVE_CARD_VERSION } from "../cards";
+import { Localizer } from "../localization";
+import { MeetingSlot, SchedulingFlow, SchedulingMode } from "./schedulingFlowStore";
+
+export type SchedulingAction = "search" | "book" | "edit" | "cancel";
+
+export const SCHEDULING_ACTIONS: SchedulingAction[] = ["search", "book", "edit", "cancel"];
+
+export const MEETING_DURATIONS = [15, 30, 45, 60, 90, 120];
+
+// Reasons Graph gives for finding no times that have their own text (scheduling.<reason>)
+const EMPTY_SUGGESTIONS_REASONS = ["attendeesUnavailable", "organizerUnavailable", "locationsUnavailable"];
+
+/**
+ * The data every button on a scheduling card submits. Buttons on the form submit its inputs with it.
+ */
+export interface SchedulingActionData {
+  flowId: string;
+  // The flow revision the card was rendered for, so a stale card can't move the flow
+  revision: number;
+  // The suggested time a Book button is for, by index
+  slot?: number;
+}
+
+/**
+ * The meeting form's inputs, as submitted with the Find times button. Adaptive Card inputs are
+ * submitted as strings, and left out when empty.
+ */
+export interface MeetingFormData {
+  attendees?: string;
+  // Minutes, one of MEETING_DURATIONS
+  duration?: string;
+  startDate?: string;
+  endDate?: string;
+  subject?: string;
+}
+
+// Adaptive Card JSON as built below. Elements and actions have more properties than their type.
+export interface SchedulingCardElement {
+  type: string;
+  [property: string]: unknown;
+}
+
+export interface SchedulingCardAction {
+  type: "Action.Execute" | "Action.OpenUrl";
+  title: string;
+  [property: string]: unknown;
+}
+
+export interface SchedulingCard {
+  type: "AdaptiveCard";
+  $schema: string;
+  version: string;
+  body: SchedulingCardElement[];
+  actions?: SchedulingCardAction[];
+}
+
+interface CardFact {
+  title: string;
+  value: string;
+}
+
+/**
+ * The Action.Execute verb for a scheduling button, e.g. "schedule.book".
+ */
+export function getSchedulingVerb(mode: SchedulingMode, action: SchedulingAction): string {
+  return `${mode}.${action}`;
+}
+
+/**
+ * The card for the flow's current step. Used to refresh a stale card with the latest state.
+ */
+export function createSchedulingCard(flow: SchedulingFlow, localizer: Localizer): SchedulingCard {
+  switch (flow.status) {
+    case "form":
+      return createMeetingFormCard(flow, localizer);
+    case "searching":
+      return createSchedulingProgressCard(flow, localizer.t("scheduling.searching"), localizer);
+    case "suggested":
+      return createSuggestionsCard(flow, localizer);
+    case "booking":
+      return createSchedulingProgressCard(flow, localizer.t("scheduling.booking"), localizer);
+    case "booked":
+      return createMeetingBookedCard(flow, localizer);
+    default:
+      // "Done" on found times keeps them on the card, without the buttons
+      return flow.mode === "findtime" && flow.suggestions?.length
+        ? createSuggestionsCard(flow, localizer)
+        : createSchedulingOutcomeCard(localizer.t("scheduling.cancelled"));
+  }
+}
+
+/**
+ * Attendees, duration, date window and (for schedule) subject.
+ */
+export function createMeetingFormCard(flow: SchedulingFlow, localizer: Localizer, errors: string[] = []): SchedulingCard {
+  const { request } = flow;
+  const body: SchedulingCardElement[] = [
+    { type: "TextBlock", text: getTitle(flow.mode, localizer), weight: "Bolder", size: "Medium" },
+    ...getErrorBlocks(flow, errors),
+    {
+      type: "Input.Text",
+      id: "attendees",
+      label: localizer.t("scheduling.attendees"),
+      placeholder: localizer.t("scheduling.attendeesPlaceholder"),
+      value: request.attendees.join(", "),
+      isRequired: true,
+      errorMessage: localizer.t("scheduling.attendeesRequired"),
+    },
+    {
+      type: "Input.ChoiceSet",
+      id: "duration",
+      label: localizer.t("scheduling.duration"),
+      style: "compact",
+      value: String(request.durationMinutes),
+      choices: MEETING_DURATIONS.map((minutes) => ({ title: formatDuration(minutes, localizer), value: String(minutes) })),
+    },
+    {
+      type: "ColumnSet",
+      columns: [
+        {
+          type: "Column",
+          width: "stretch",
+          items: [{ type: "Input.Date", id: "startDate", label: localizer.t("scheduling.from"), value: request.startDate, isRequired: true }],
+        },
+        {
+          type: "Column",
+          width: "stretch",
+          items: [{ type: "Input.Date", id: "endDate", label: localizer.t("scheduling.to"), value: request.endDate, isRequired: true }],
+        },
+      ],
+    },
+  ];
+  if (flow.mode === "schedule") {
+    body.push({
+      type: "Input.Text",
+      id: "subject",
+      label: localizer.t("scheduling.subject"),
+      value: request.subject || "",
+      maxLength: 255,
+      isRequired: true,
+      errorMessage: localizer.t("scheduling.subjectRequired"),
+    });
+  }
+
+  return createCard(body, [
+    {
+      type: "Action.Execute",
+      title: localizer.t("scheduling.findTimes"),
+      verb: getSchedulingVerb(flow.mode, "search"),
+      data: getActionData(flow),
+      style: "positive",
+    },
+    createCancelAction(flow, localizer.t("common.cancel")),
+  ]);
+}
+
+/**
+ * A step that is waiting for Microsoft Graph. A search can be cancelled; a booking can't.
+ */
+export function createSchedulingProgressCard(flow: SchedulingFlow, text: string, localizer: Localizer): SchedulingCard {
+  return createCard(
+    [
+      { type: "TextBlock", text: getTitle(flow.mode, localizer), weight: "Bolder", size: "Medium" },
+      { type: "TextBlock", text, wrap: true },
+    ],
+    flow.status === "searching" ? [createCancelAction(flow, localizer.t("common.cancel"))] : []
+  );
+}
+
+/**
+ * The suggested times, with a Book button on each when scheduling. The buttons are left out
+ * once the flow has moved on.
+ */
+export function createSuggestionsCard(flow: SchedulingFlow, localizer: Localizer): SchedulingCard {
+  const slots = flow.suggestions || [];
+  const open = flow.status === "suggested";
+  const body: SchedulingCardElement[] = [
+    {
+      type: "TextBlock",
+      text: localizer.t(slots.length > 0 ? "scheduling.suggestedTimes" : "scheduling.noTimesFound"),
+      weight: "Bolder",
+      size: "Medium",
+    },
+    ...getErrorBlocks(flow),
+    { type: "FactSet", facts: getRequestFacts(flow, localizer) },
+  ];
+
+  if (slots.length === 0) {
+    const reason = EMPTY_SUGGESTIONS_REASONS.includes(flow.emptySuggestionsReason)
+      ? localizer.t(`scheduling.${flow.emptySuggestionsReason}`)
+      : localizer.t("scheduling.nothingFits");
+    body.push({ type: "TextBlock", text: `${reason} ${localizer.t("scheduling.tryLonger")}`, wrap: true });
+  }
+  slots.forEach((slot, index) => {
+    const items: SchedulingCardElement[] = [{ type: "TextBlock", text: formatSlot(slot, localizer), weight: "Bolder", wrap: true }];
+    if (slot.reason) {
+      items.push({ type: "TextBlock", text: slot.reason, isSubtle: true, spacing: "None", wrap: true });
+    }
+    const columns: SchedulingCardElement[] = [{ type: "Column", width: "stretch", items }];
+    if (flow.mode === "schedule" && open) {
+      columns.push({
+        type: "Column",
+        width: "auto",
+        verticalContentAlignment: "Center",
+        items: [{
+          type: "ActionSet",
+          actions: [{
+            type: "Action.Execute",
+            title: localizer.t("scheduling.book"),
+            verb: getSchedulingVerb(flow.mode, "book"),
+            data: { ...getActionData(flow), slot: index },
+          }],
+        }],
+      });
+    }
+    body.push({ type: "ColumnSet", separator: true, spacing: "Medium", columns });
+  });
+
+  return createCard(body, open ? [
+    { type: "Action.Execute", title: localizer.t("scheduling.changeDetails"), verb: getSchedulingVerb(flow.mode, "edit"), data: getActionData(flow) },
+    createCancelAction(flow, localizer.t(flow.mode === "findtime" ? "scheduling.done" : "common.cancel")),
+  ] : []);
+}
+
+export function createMeetingBookedCard(flow: SchedulingFlow, localizer: Localizer): SchedulingCard {
+  const meeting = flow.meeting;
+  const actions: SchedulingCardAction[] = [];
+  if (meeting?.joinUrl) {
+    actions.push({ type: "Action.OpenUrl", title: localizer.t("common.join"), url: meeting.joinUrl });
+  }
+  if (meeting?.webLink) {
+    actions.push({ type: "Action.OpenUrl", title: localizer.t("common.openInOutlook"), url: meeting.webLink });
+  }
+  return createCard(
+    [
+      { type: "TextBlock", text: localizer.t("scheduling.meetingScheduled"), weight: "Bolder", size: "Medium" },
+      {
+        type: "FactSet",
+        facts: [
+          { title: localizer.t("scheduling.subject"), value: flow.request.subject || "" },
+          ...(meeting ? [{ title: localizer.t("common.when"), value: formatSlot(meeting, localizer) }] : []),
+          { title: localizer.t("scheduling.attendees"), value: flow.request.attendees.join(", ") },
+        ],
+      },
+      { type: "TextBlock", text: localizer.t("scheduling.invitationsSent"), isSubtle: true, wrap: true },
+    ],
+    actions
+  );
+}
+
+/**
+ * A card with no buttons left, for a flow that has ended or can't be found.
+ */
+export function createSchedulingOutcomeCard(text: string): SchedulingCard {
+  return createCard([{ type: "TextBlock", text, wrap: true }]);
+}
+
+/**
+ * A slot as "Tue, Jan 7, 10:00 - 10:30".
+ */
+export function formatSlot(slot: Pick<MeetingSlot, "start" | "end">, localizer: Localizer): string {
+  const day = slot.start.substring(0, 10);
+  const endDay = slot.end.substring(0, 10);
+  const end = endDay === day ? slot.end.substring(11, 16) : `${localizer.formatDate(endDay, true)} ${slot.end.substring(11, 16)}`;
+  return localizer.t("scheduling.slot", {
+    weekday: localizer.formatWeekday(day),
+    date: localizer.formatDate(day, true),
+    start: slot.start.substring(11, 16),
+    end,
+  });
+}
+
+function createCard(body: SchedulingCardElement[], actions: SchedulingCardAction[] = []): SchedulingCard {
+  return {
+    type: "AdaptiveCard",
+    $schema: ADAPTIVE_CARD_SCHEMA,
+    version: ADAPTIVE_CARD_VERSION,
+    body,
+    ...(actions.length > 0 ? { actions } : {}),
+  };
+}
+
+function createCancelAction(flow: SchedulingFlow, title: string): SchedulingCardAction {
+  return { type: "Action.Execute", title, verb: getSchedulingVerb(flow.mode, "cancel"), data: getActionData(flow), associatedInputs: "none" };
+}
+
+// Every button carries the flow and the revision the card was rendered for
+function getActionData(flow: SchedulingFlow): SchedulingActionData {
+  return { flowId: flow.id, revision: flow.revision };
+}
+
+function getErrorBlocks(flow: SchedulingFlow, errors: string[] = []): SchedulingCardElement[] {
+  return [...(flow.error ? [flow.error] : []), ...errors].map((text) => ({ type: "TextBlock", text, color: "Attention", wrap: true }));
+}
+
+function getRequestFacts(flow: SchedulingFlow, localizer: Localizer): CardFact[] {
+  const { request } = flow;
+  return [
+    ...(request.subject ? [{ title: localizer.t("scheduling.subject"), value: request.subject }] : []),
+    { title: localizer.t("scheduling.attendees"), value: request.attendees.join(", ") },
+    { title: localizer.t("scheduling.duration"), value: formatDuration(request.durationMinutes, localizer) },
+    {
+      title: localizer.t("scheduling.between"),
+      value: request.startDate === request.endDate
+        ? localizer.formatDate(request.startDate, true)
+        : localizer.t("scheduling.dateRange", {
+          start: localizer.formatDate(request.startDate, true),
+          end: localizer.formatDate(request.endDate, true),
+        }),
+    },
+    { title: localizer.t("scheduling.timeZone"), value: flow.timeZone },
+  ];
+}
+
+function getTitle(mode: SchedulingMode, localizer: Localizer): string {
+  return localizer.t(mode === "schedule" ? "scheduling.titleSchedule" : "scheduling.titleFindTime");
+}
+
+function formatDuration(minutes: number, localizer: Localizer): string {
+  if (minutes < 60) {
+    return localizer.t("common.minutes", { count: minutes });
+  }
+  const hours = minutes / 60;
+  return localizer.t("common.hours", { count: hours });
+}
@@ -0,0 +1,146 @@
+import { randomUUID } from "crypto";
+import { Storage } from "botbuilder";
+import { isETagConflict } from "../storage";
+
+const KEY_PREFIX = "scheduling";
+// Cards older than this can't be used any more
+const FLOW_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type SchedulingMode = "findtime" | "schedule";
+
+// form -> searching -> suggested -> booking -> booked, with cancelled reachable from any step
+// and "change details" going back to form
+export type SchedulingFlowStatus = "form" | "searching" | "suggested" | "booking" | "booked" | "cancelled";
+
+export interface MeetingRequest {
+  attendees: string[];
+  durationMinutes: number;
+  // Date window, both days included (YYYY-MM-DD)
+  startDate: string;
+  endDate: string;
+  subject?: string;
+}
+
+export interface MeetingSlot {
+  // Wall-clock times in the flow's time zone (YYYY-MM-DDTHH:mm:ss)
+  start: string;
+  end: string;
+  confidence?: number;
+  reason?: string;
+}
+
+export interface ScheduledMeeting {
+  id: string;
+  start: string;
+  end: string;
+  webLink?: string;
+  joinUrl?: string;
+}
+
+export interface SchedulingFlow {
+  id: string;
+  mode: SchedulingMode;
+  userKey: string;
+  conversationId: string;
+  status: SchedulingFlowStatus;
+  // Bumped on every change. Cards carry the revision they were rendered for, so a stale card
+  // or a second click on the same button can't act on the flow again.
+  revision: number;
+  // Mailbox time zone the dates and slots are in
+  timeZone: string;
+  request: MeetingRequest;
+  suggestions?: MeetingSlot[];
+  // Why findMeetingTimes had no suggestions, e.g. "attendeesUnavailable"
+  emptySuggestionsReason?: string;
+  selectedSlot?: number;
+  meeting?: ScheduledMeeting;
+  // Shown on the card after a step failed
+  error?: string;
+  // The message holding the flow's card, updated as the flow moves on
+  cardActivityId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SchedulingFlowErrorKind = "notFound" | "stale";
+
+export class SchedulingFlowError extends Error {
+  constructor(public kind: SchedulingFlowErrorKind, public flowId: string, public flow?: SchedulingFlow) {
+    super(kind === "notFound" ? `Scheduling flow ${flowId} was not found or has expired` : `Scheduling flow ${flowId} has changed`);
+    this.name = "SchedulingFlowError";
+  }
+}
+
+/**
+ * State of the find-time and schedule forms, one record per card.
+ * Changes are compare-and-swap on the revision (and the storage eTag), so when the same
+ * card is submitted twice only the first submission moves the flow on.
+ */
+export class SchedulingFlowStore {
+  private storage: Storage;
+
+  constructor(storage: Storage) {
+    this.storage = storage;
+  }
+
+  async create(
+    fields: Pick<SchedulingFlow, "mode" | "userKey" | "conversationId" | "timeZone" | "request">
+  ): Promise<SchedulingFlow> {
+    const now = new Date().toISOString();
+    const flow: SchedulingFlow = { ...fields, id: randomUUID(), status: "form", revision: 1, createdAt: now, updatedAt: now };
+    await this.storage.write({ [this.key(flow.conversationId, flow.id)]: { ...flow, eTag: "*" } });
+    return flow;
+  }
+
+  /**
+   * The flow, or undefined if it doesn't exist or has expired.
+   */
+  async get(conversationId: string, flowId: string): Promise<SchedulingFlow | undefined> {
+    const key = this.key(conversationId, flowId);
+    const flow = (await this.storage.read([key]))[key] as (SchedulingFlow & { eTag?: string }) | undefined;
+    if (!flow || Date.parse(flow.createdAt) + FLOW_TTL_MS < Date.now()) {
+      return undefined;
+    }
+    return flow;
+  }
+
+  /**
+   * Apply a change to the flow if it is still at the given revision.
+   * Throws SchedulingFlowError "stale" (with the current flow) when it has moved on, or "notFound".
+   */
+  async advance(
+    conversationId: string,
+    flowId: string,
+    revision: number,
+    mutate: (flow: SchedulingFlow) => void
+  ): Promise<SchedulingFlow> {
+    const flow = (await this.get(conversationId, flowId)) as (SchedulingFlow & { eTag?: string }) | undefined;
+    if (!flow) {
+      throw new SchedulingFlowError("notFound", flowId);
+    }
+    if (flow.revision !== revision) {
+      throw new SchedulingFlowError("stale", flowId, flow);
+    }
+
+    const { eTag, ...current } = flow;
+    const next: SchedulingFlow = { ...current, error: undefined };
+    mutate(next);
+    next.revision = revision + 1;
+    next.updatedAt = new Date().toISOString();
+
+    try {
+      await this.storage.write({ [this.key(conversationId, flowId)]: { ...next, eTag: eTag || "*" } });
+    } catch (err) {
+      if (isETagConflict(err)) {
+        // Another submission of the same card got there first
+        throw new SchedulingFlowError("stale", flowId, await this.get(conversationId, flowId));
+      }
+      throw err;
+    }
+    return next;
+  }
+
+  private key(conversationId: string, flowId: string): string {
+    return `${KEY_PREFIX}/${conversationId}/${flowId}`;
+  }
+}
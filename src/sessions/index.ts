@@ -0,0 +1,3 @@
+// Session module exports
+export * from './sessionStore';
+export * from './sessionCards';
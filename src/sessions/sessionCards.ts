@@ -0,0 +1,117 @@
+import { Activity } from "botbuilder";
+import { ADAPTIVE_CARD_SCHEMA, ADAPTIVE_CARD_VERSION, createCardActivity } from "../cards";
+import { Localizer } from "../localization";
+import { AgentSession, UserSessions, getShortSessionId } from "./sessionStore";
+
+export type SessionAction = "session.new" | "session.clear" | "session.cancel" | "session.resume";
+
+export interface SessionActionData {
+  action: SessionAction;
+  // The session the card was shown for, so a stale card can't reset a newer session
+  sessionId: string;
+}
+
+const SESSION_ACTIONS: SessionAction[] = ["session.new", "session.clear", "session.cancel", "session.resume"];
+
+/**
+ * The session action submitted from one of the cards below, if the activity carries one.
+ */
+export function getSessionAction(value: unknown): SessionActionData | undefined {
+  const data = value as Partial<SessionActionData> | undefined;
+  if (data && SESSION_ACTIONS.includes(data.action) && typeof data.sessionId === "string") {
+    return { action: data.action, sessionId: data.sessionId };
+  }
+  return undefined;
+}
+
+/**
+ * Ask the user to confirm before starting a new session (/new) or clearing the current one (/cls).
+ */
+export function createResetConfirmationCard(
+  action: "session.new" | "session.clear",
+  session: AgentSession,
+  localizer: Localizer
+): Partial<Activity> {
+  const startNew = action === "session.new";
+  const card = {
+    type: "AdaptiveCard",
+    $schema: ADAPTIVE_CARD_SCHEMA,
+    version: ADAPTIVE_CARD_VERSION,
+    body: [
+      {
+        type: "TextBlock",
+        text: localizer.t(startNew ? "sessions.confirmNewTitle" : "sessions.confirmClearTitle"),
+        weight: "Bolder",
+        size: "Medium",
+      },
+      {
+        type: "TextBlock",
+        text: startNew
+          ? localizer.t("sessions.confirmNewText", { id: getShortSessionId(session) })
+          : localizer.t("sessions.confirmClearText"),
+        wrap: true,
+      },
+    ],
+    actions: [
+      { type: "Action.Submit", title: localizer.t(startNew ? "sessions.startNew" : "sessions.clearHistory"), data: { action, sessionId: session.id } },
+      { type: "Action.Submit", title: localizer.t("common.cancel"), data: { action: "session.cancel", sessionId: session.id } },
+    ],
+  };
+  return createCardActivity(card);
+}
+
+/**
+ * The user's sessions in this conversation, with a resume button for each previous one.
+ */
+export function createSessionListCard(sessions: UserSessions, localizer: Localizer): Partial<Activity> {
+  const describe = (session: AgentSession) =>
+    localizer.t("sessions.summary", { count: session.messageCount, lastActive: localizer.formatDateTime(session.lastActiveAt) });
+  const current = sessions.current.title || localizer.t("sessions.newConversation");
+
+  const body: any[] = [
+    { type: "TextBlock", text: localizer.t("sessions.listTitle"), weight: "Bolder", size: "Medium" },
+    {
+      type: "FactSet",
+      facts: [
+        { title: localizer.t("sessions.current"), value: `${getShortSessionId(sessions.current)} · ${current}` },
+      ],
+    },
+  ];
+
+  if (sessions.previous.length === 0) {
+    body.push({ type: "TextBlock", text: localizer.t("sessions.noPrevious"), isSubtle: true, wrap: true });
+  }
+  for (const session of sessions.previous) {
+    body.push({
+      type: "Container",
+      separator: true,
+      items: [
+        { type: "TextBlock", text: `${getShortSessionId(session)} · ${session.title || localizer.t("sessions.untitled")}`, weight: "Bolder", wrap: true },
+        { type: "TextBlock", text: describe(session), isSubtle: true, spacing: "None", wrap: true },
+        {
+          type: "ActionSet",
+          actions: [{ type: "Action.Submit", title: localizer.t("sessions.resume"), data: { action: "session.resume", sessionId: session.id } }],
+        },
+      ],
+    });
+  }
+
+  return createCardActivity({
+    type: "AdaptiveCard",
+    $schema: ADAPTIVE_CARD_SCHEMA,
+    version: ADAPTIVE_CARD_VERSION,
+    body,
+  });
+}
+
+/**
+ * Replaces a confirmation card once it has been answered, so it can't be submitted twice.
+ */
+export function createCardOutcome(text: string): Partial<Activity> {
+  return createCardActivity({
+    type: "AdaptiveCard",
+    $schema: ADAPTIVE_CARD_SCHEMA,
+    version: ADAPTIVE_CARD_VERSION,
+    body: [{ type: "TextBlock", text, wrap: true, isSubtle: true }],
+  });
+}
@@ -0,0 +1,220 @@
+import { randomUUID } from "crypto";
+import { Storage } from "botbuilder";
+import config from "../config";
+import { MessageHistoryItem } from "../agent";
+import { CREATE_ONLY_ETAG, isETagConflict, waitBeforeRetry } from "../storage";
+import { telemetryService } from "../telemetry";
+
+const KEY_PREFIX = "sessions";
+const MAX_WRITE_ATTEMPTS = 5;
+// Length of the session ID prefix shown to users and accepted by /resume
+export const SESSION_SHORT_ID_LENGTH = 8;
+
+export interface AgentSession {
+  id: string;
+  startedAt: string;
+  lastActiveAt: string;
+  // First message of the session, used to tell sessions apart in /sessions
+  title?: string;
+  messageCount: number;
+  // Local message history, kept while the session is not the current one so it can be resumed
+  history?: MessageHistoryItem[];
+}
+
+export interface UserSessions {
+  userKey: string;
+  conversationId: string;
+  current: AgentSession;
+  previous: AgentSession[];
+}
+
+export class SessionNotFoundError extends Error {
+  constructor(public sessionId: string) {
+    super(`No previous session matches "${sessionId}"`);
+    this.name = "SessionNotFoundError";
+  }
+}
+
+/**
+ * Agent sessions for each user in each conversation.
+ * The current session's ID is sent to the agent as session_id. Starting a new session
+ * only affects that user in that conversation; earlier sessions are kept (up to
+ * SESSION_MAX_PREVIOUS) with their message history so they can be resumed.
+ */
+export class SessionStore {
+  private storage: Storage;
+  private maxPrevious: number;
+
+  constructor(storage: Storage, maxPrevious: number = config.sessionMaxPrevious) {
+    this.storage = storage;
+    this.maxPrevious = maxPrevious;
+  }
+
+  /**
+   * The user's current session in a conversation, created on first use.
+   */
+  async getCurrent(userKey: string, conversationId: string): Promise<AgentSession> {
+    return (await this.list(userKey, conversationId)).current;
+  }
+
+  /**
+   * The current session and the previous ones, most recent first.
+   */
+  async list(userKey: string, conversationId: string): Promise<UserSessions> {
+    return this.update(userKey, conversationId, (existing) => existing || this.createRecord(userKey, conversationId));
+  }
+
+  /**
+   * Note activity on the current session. The title is set from the first message.
+   */
+  async touch(userKey: string, conversationId: string, message: string): Promise<AgentSession> {
+    const record = await this.update(userKey, conversationId, (existing) => {
+      const next = existing || this.createRecord(userKey, conversationId);
+      return {
+        ...next,
+        current: {
+          ...next.current,
+          title: next.current.title || truncate(message.replace(/\s+/g, " ").trim(), 60),
+          lastActiveAt: new Date().toISOString(),
+          messageCount: next.current.messageCount + 1,
+        },
+      };
+    });
+    return record.current;
+  }
+
+  /**
+   * Start a new session, archiving the current one with its message history.
+   */
+  async startNew(userKey: string, conversationId: string, history: MessageHistoryItem[] = []): Promise<AgentSession> {
+    let archived: AgentSession | undefined;
+    const record = await this.update(userKey, conversationId, (existing) => {
+      const next = existing || this.createRecord(userKey, conversationId);
+      archived = next.current;
+      return {
+        ...next,
+        current: createSession(),
+        previous: this.archive(next.previous, next.current, history),
+      };
+    });
+
+    telemetryService.trackCustomEvent('Session_Started', {
+      userId: userKey,
+      conversationId,
+      sessionId: record.current.id,
+      previousSessionId: archived?.id || '',
+    });
+    return record.current;
+  }
+
+  /**
+   * Make a previous session current again. Accepts the full ID or the short ID shown in /sessions.
+   * Returns the resumed session including the message history saved with it.
+   */
+  async resume(userKey: string, conversationId: string, sessionId: string, history: MessageHistoryItem[] = []): Promise<AgentSession> {
+    const wanted = sessionId.trim().toLowerCase();
+    let resumed: AgentSession | undefined;
+    await this.update(userKey, conversationId, (existing) => {
+      const next = existing || this.createRecord(userKey, conversationId);
+      resumed = undefined;
+      const matches = wanted.length >= 4 ? next.previous.filter((session) => session.id.startsWith(wanted)) : [];
+      if (matches.length !== 1) {
+        return next;
+      }
+      resumed = matches[0];
+      return {
+        ...next,
+        current: { ...resumed, history: undefined, lastActiveAt: new Date().toISOString() },
+        previous: this.archive(next.previous.filter((session) => session.id !== resumed.id), next.current, history),
+      };
+    });
+
+    if (!resumed) {
+      throw new SessionNotFoundError(sessionId);
+    }
+    telemetryService.trackCustomEvent('Session_Resumed', {
+      userId: userKey,
+      conversationId,
+      sessionId: resumed.id,
+    });
+    return resumed;
+  }
+
+  /**
+   * Reset the current session's activity counters after its history was cleared.
+   */
+  async markCleared(userKey: string, conversationId: string): Promise<void> {
+    await this.update(userKey, conversationId, (existing) => existing && {
+      ...existing,
+      current: { ...existing.current, title: undefined, messageCount: 0, lastActiveAt: new Date().toISOString() },
+    });
+  }
+
+  /**
+   * Forget the user's sessions in a conversation, e.g. when the bot is uninstalled from it.
+   */
+  async remove(userKey: string, conversationId: string): Promise<void> {
+    await this.storage.delete([this.key(userKey, conversationId)]);
+  }
+
+  private archive(previous: AgentSession[], session: AgentSession, history: MessageHistoryItem[]): AgentSession[] {
+    // An unused session isn't worth keeping
+    if (session.messageCount === 0 && history.length === 0) {
+      return previous;
+    }
+    return [{ ...session, history }, ...previous].slice(0, this.maxPrevious);
+  }
+
+  private createRecord(userKey: string, conversationId: string): UserSessions {
+    return { userKey, conversationId, current: createSession(), previous: [] };
+  }
+
+  // Read-modify-write with optimistic concurrency; the user may be active on more than one instance
+  private async update(
+    userKey: string,
+    conversationId: string,
+    mutate: (existing: UserSessions | undefined) => UserSessions
+  ): Promise<UserSessions> {
+    const key = this.key(userKey, conversationId);
+    for (let attempt = 1; ; attempt++) {
+      const items = await this.storage.read([key]);
+      const existing = items[key] as (UserSessions & { eTag?: string }) | undefined;
+      const next = mutate(existing);
+
+      if (next === existing) {
+        return existing;
+      }
+
+      // A new record is only created if no other instance created one meanwhile
+      try {
+        await this.storage.write({ [key]: { ...next, eTag: existing?.eTag || CREATE_ONLY_ETAG } });
+        return next;
+      } catch (err) {
+        if (!isETagConflict(err) || attempt >= MAX_WRITE_ATTEMPTS) {
+          throw err;
+        }
+      }
+      await waitBeforeRetry(attempt);
+    }
+  }
+
+  private key(userKey: string, conversationId: string): string {
+    return `${KEY_PREFIX}/${userKey}/${conversationId}`;
+  }
+}
+
+/**
+ * The short form of a session ID shown to users.
+ */
+export function getShortSessionId(session: AgentSession | string): string {
+  return (typeof session === "string" ? session : session.id).substring(0, SESSION_SHORT_ID_LENGTH);
+}
+
+function createSession(): AgentSession {
+  const now = new Date().toISOString();
+  return { id: randomUUID(), startedAt: now, lastActiveAt: now, messageCount: 0 };
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.substring(0, length - 1)}…` : text;
+}
@@ -7,45 +7,67 @@ import {
 } from "botbuilder-dialogs";
 import {
   Activity,
-  ActivityTypes,
+  ConversationReference,
   StatePropertyAccessor,
   Storage,
-  tokenExchangeOperationName,
   TurnContext,
 } from "botbuilder";
 import "isomorphic-fetch";
 import { TeamsBotSsoPrompt } from "@microsoft/teamsfx";
 import oboAuthConfig from "./authConfig";
 import config from "./config";
-import { SSOCommandMap } from "./commands/SSOCommandMap";
+import { createSSOCommandMap } from "./commands/SSOCommandMap";
+import { SSOCardAction, SSOCommand } from "./commands/SSOCommand";
+import { CommandRegistry, getCommandParseOptions } from "./commands/commandRegistry";
+import { ConsentStore, normalizeScope } from "./consentStore";
+import { GraphServiceError, getGraphErrorMessage, toGraphServiceError } from "./graph";
+import { agentTokenProvider } from "./agent";
+import { Localizer, getLocalizer } from "./localization";
 import { telemetryService } from "./telemetry";
+import { TokenExchangeDeduplicator } from "./idempotency";
 
 const DIALOG_NAME = "SSODialog";
 const MAIN_WATERFALL_DIALOG = "MainWaterfallDialog";
 const TEAMS_SSO_PROMPT_ID = "TeamsFxSsoPrompt";
+// Used when a command doesn't declare scopes, and to get the SSO token when nothing is missing
+const DEFAULT_SCOPES = ["User.Read"];
+
+export interface SSODialogOptions {
+  // The command to run; defaults to the text of the activity that starts the dialog
+  commandMessage?: string;
+  // A card action to finish with the command's continueWithSSOToken instead of running the command
+  cardAction?: SSOCardAction;
+  // A message for the agent, sent with the user's agent token once they are signed in
+  agentMessage?: string;
+  // Where the agent's answer goes when the user signs in privately from a group chat or channel
+  agentReplyTo?: Partial<ConversationReference>;
+}
+
+// Sends a message to the agent on behalf of the signed-in user (see TeamsBot.replyWithAgent)
+export type AgentMessageHandler = (
+  context: TurnContext,
+  message: string,
+  accessToken: string,
+  replyTo?: Partial<ConversationReference>
+) => Promise<void>;
 
 export class SSODialog extends ComponentDialog {
-  private requiredScopes: string[] = ["User.Read"]; // hard code the scopes for demo purpose only
-  private dedupStorage: Storage;
-  private dedupStorageKeys: string[];
+  private tokenExchangeDeduplicator: TokenExchangeDeduplicator;
+  private consentStore: ConsentStore;
+  private commands: CommandRegistry<SSOCommand>;
+  private onAgentMessage?: AgentMessageHandler;
 
   // Developer controlls the lifecycle of credential provider, as well as the cache in it.
   // In this sample the provider is shared in all conversations
-  constructor(dedupStorage: Storage) {
+  constructor(
+    storage: Storage,
+    commands: CommandRegistry<SSOCommand> = createSSOCommandMap(storage),
+    onAgentMessage?: AgentMessageHandler
+  ) {
     super(DIALOG_NAME);
 
-    const initialLoginEndpoint = `https://${config.botDomain}/auth-start.html`;
-
-    const dialog = new TeamsBotSsoPrompt(
-      oboAuthConfig,
-      initialLoginEndpoint,
-      TEAMS_SSO_PROMPT_ID,
-      {
-        scopes: this.requiredScopes,
-        endOnInvalidMessage: true,
-      }
-    );
-    this.addDialog(dialog);
+    // Fail at startup rather than on the first command if SSO isn't configured
+    this.ensureSsoPrompt(DEFAULT_SCOPES);
 
     this.addDialog(
       new WaterfallDialog(MAIN_WATERFALL_DIALOG, [
@@ -56,16 +78,19 @@ export class SSODialog extends ComponentDialog {
     );
 
     this.initialDialogId = MAIN_WATERFALL_DIALOG;
-    this.dedupStorage = dedupStorage;
-    this.dedupStorageKeys = [];
+    this.tokenExchangeDeduplicator = new TokenExchangeDeduplicator(storage);
+    this.consentStore = new ConsentStore(storage);
+    this.commands = commands;
+    this.onAgentMessage = onAgentMessage;
   }
 
   /**
    * The run method handles the incoming activity (in the form of a DialogContext) and passes it through the dialog system.
    * If no dialog is active, it will start the default dialog.
+   * With options, a new run is started with them, replacing any sign-in that is waiting.
    * @param {*} dialogContext
    */
-  async run(context: TurnContext, dialogState: StatePropertyAccessor) {
+  async run(context: TurnContext, dialogState: StatePropertyAccessor, options?: SSODialogOptions) {
     const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
     const operationTimer = telemetryService.startOperation('SSO_Dialog_Run').setContext(userId, conversationId);
     
@@ -76,13 +101,22 @@ export class SSODialog extends ComponentDialog {
     });
     
     try {
+      // A sign-in may have started on another instance, or before a restart
+      this.ensureSsoPromptsInState(await dialogState.get(context));
+
       const dialogSet = new DialogSet(dialogState);
       dialogSet.add(this);
 
       const dialogContext = await dialogSet.createContext(context);
-      let dialogTurnResult = await dialogContext.continueDialog();
-      if (dialogTurnResult && dialogTurnResult.status === DialogTurnStatus.empty) {
-        dialogTurnResult = await dialogContext.beginDialog(this.id);
+      let dialogTurnResult;
+      if (options) {
+        await dialogContext.cancelAllDialogs();
+        dialogTurnResult = await dialogContext.beginDialog(this.id, options);
+      } else {
+        dialogTurnResult = await dialogContext.continueDialog();
+        if (dialogTurnResult && dialogTurnResult.status === DialogTurnStatus.empty) {
+          dialogTurnResult = await dialogContext.beginDialog(this.id);
+        }
       }
       
       telemetryService.trackCustomEvent('SSO_Dialog_Completed', {
@@ -108,15 +142,28 @@ export class SSODialog extends ComponentDialog {
     const turnContext = stepContext.context as TurnContext;
     const { userId, conversationId } = telemetryService.extractTelemetryFromContext(turnContext);
     
-    stepContext.options.commandMessage = this.getActivityText(turnContext.activity);
+    stepContext.options.commandMessage = stepContext.options.commandMessage ?? this.getActivityText(turnContext.activity);
+
+    // Only ask for the scopes this command (or the agent) needs that the user hasn't consented to yet.
+    // If there are none, a low-privilege exchange is still needed to get the SSO token.
+    const forAgent = stepContext.options.agentMessage !== undefined;
+    const command = forAgent ? undefined : this.commands.match(stepContext.options.commandMessage)?.command;
+    const requiredScopes = forAgent
+      ? agentTokenProvider.scopes
+      : command?.scopes?.length ? command.scopes : DEFAULT_SCOPES;
+    const missingScopes = await this.consentStore.getMissingScopes(this.getUserKey(turnContext), requiredScopes);
+    stepContext.options.requiredScopes = requiredScopes;
+    stepContext.options.promptScopes = missingScopes.length > 0 ? missingScopes : DEFAULT_SCOPES;
     
     telemetryService.trackCustomEvent('SSO_Step_Started', {
       userId,
       conversationId,
-      command: stepContext.options.commandMessage
+      command: forAgent ? 'agent' : stepContext.options.commandMessage,
+      requiredScopes: requiredScopes.join(' '),
+      missingScopes: missingScopes.join(' ')
     });
     
-    return await stepContext.beginDialog(TEAMS_SSO_PROMPT_ID);
+    return await stepContext.beginDialog(this.ensureSsoPrompt(stepContext.options.promptScopes));
   }
 
   async dedupStep(stepContext: any) {
@@ -124,8 +171,9 @@ export class SSODialog extends ComponentDialog {
     const { userId, conversationId } = telemetryService.extractTelemetryFromContext(turnContext);
     
     const tokenResponse = stepContext.result;
-    // Only dedup after ssoStep to make sure that all Teams client would receive the login request
-    if (tokenResponse && (await this.shouldDedup(stepContext.context))) {
+    // Only dedup after ssoStep to make sure that all Teams client would receive the login request.
+    // Of the token exchanges the user's Teams clients then send, the first one is processed.
+    if (tokenResponse && !(await this.tokenExchangeDeduplicator.claim(turnContext))) {
       telemetryService.trackCustomEvent('SSO_Token_Deduplicated', {
         userId,
         conversationId,
@@ -151,21 +199,43 @@ export class SSODialog extends ComponentDialog {
     
     const tokenResponse = stepContext.result;
     if (!tokenResponse || !tokenResponse.ssoToken) {
-      const errorMessage = "There is an issue while trying to sign you in and run your command. Please try again.";
+      // The prompt ends without a token when the user moves on (another message) or it times out,
+      // which is usually a consent request that was declined or ignored
+      const promptScopes: string[] = stepContext.options.promptScopes || DEFAULT_SCOPES;
       
       telemetryService.trackCustomEvent('SSO_Token_Missing', {
         userId,
         conversationId,
         hasTokenResponse: (!!tokenResponse).toString(),
-        hasSsoToken: (!!tokenResponse?.ssoToken).toString()
+        hasSsoToken: (!!tokenResponse?.ssoToken).toString(),
+        promptScopes: promptScopes.join(' ')
       });
       
-      operationTimer.stop(false, errorMessage);
-      throw new Error(errorMessage);
+      const localizer = getLocalizer(turnContext);
+      await turnContext.sendActivity(
+        stepContext.options.agentMessage !== undefined
+          ? getAgentConsentRequiredMessage(localizer)
+          : getConsentRequiredMessage(promptScopes, localizer)
+      );
+      operationTimer.stop(false, 'SSO token not granted');
+      return await stepContext.endDialog();
+    }
+
+    // The exchange succeeded, so the user has consented to everything the prompt asked for
+    await this.consentStore.addScopes(this.getUserKey(turnContext), stepContext.options.promptScopes || DEFAULT_SCOPES);
+
+    if (stepContext.options.agentMessage !== undefined) {
+      const succeeded = await this.sendToAgent(turnContext, tokenResponse.ssoToken, stepContext.options);
+      operationTimer.stop(succeeded, succeeded ? undefined : 'Agent token not acquired');
+      return await stepContext.endDialog();
     }
     
-    // Once got ssoToken, run operation that depends on ssoToken
-    const SSOCommand = SSOCommandMap.get(stepContext.options.commandMessage);
+    // Once got ssoToken, run operation that depends on ssoToken.
+    // The command text is kept rather than the parsed arguments, as dialog state is serialized
+    // between the sign-in turns; the arguments were validated before the dialog started.
+    const match = this.commands.parse(stepContext.options.commandMessage, getCommandParseOptions(turnContext));
+    const cardAction: SSOCardAction | undefined = stepContext.options.cardAction;
+    const SSOCommand = match?.command;
     if (!SSOCommand) {
       const errorMessage = "Can not get sso operation. Please try again.";
       
@@ -183,16 +253,21 @@ export class SSODialog extends ComponentDialog {
       telemetryService.trackCustomEvent('SSO_Operation_Started', {
         userId,
         conversationId,
-        command: stepContext.options.commandMessage,
-        commandType: SSOCommand.constructor.name
+        command: SSOCommand.name,
+        commandType: SSOCommand.constructor.name,
+        ...(cardAction ? { cardVerb: cardAction.verb } : {})
       });
       
-      await SSOCommand.operationWithSSOToken(stepContext.context, tokenResponse.ssoToken);
+      if (cardAction && SSOCommand.continueWithSSOToken) {
+        await SSOCommand.continueWithSSOToken(stepContext.context, tokenResponse.ssoToken, cardAction);
+      } else {
+        await SSOCommand.operationWithSSOToken(stepContext.context, tokenResponse.ssoToken, match.args);
+      }
       
       telemetryService.trackCustomEvent('SSO_Operation_Completed', {
         userId,
         conversationId,
-        command: stepContext.options.commandMessage
+        command: SSOCommand.name
       });
       
       operationTimer.stop(true);
@@ -201,84 +276,129 @@ export class SSODialog extends ComponentDialog {
         userId,
         conversationId,
         operation: 'SSO_Execute_Operation',
-        command: stepContext.options.commandMessage
+        command: SSOCommand.name
       });
       
       operationTimer.stop(false, error instanceof Error ? error.message : String(error));
+
+      // Graph failures become a friendly message; anything else is a bug and goes to the adapter's error handler
+      if (error instanceof GraphServiceError) {
+        if (error.kind === "consentRequired") {
+          // Consent was revoked (or never covered this scope): forget it so the next run asks again
+          const requiredScopes: string[] = stepContext.options.requiredScopes || DEFAULT_SCOPES;
+          await this.consentStore.removeScopes(this.getUserKey(turnContext), requiredScopes);
+          await turnContext.sendActivity(getConsentRequiredMessage(requiredScopes, getLocalizer(turnContext)));
+        } else {
+          await turnContext.sendActivity(getGraphErrorMessage(error, getLocalizer(turnContext)));
+        }
+        return await stepContext.endDialog();
+      }
       throw error;
     }
     
     return await stepContext.endDialog();
   }
 
-  async onEndDialog(context: TurnContext) {
-    const conversationId = context.activity.conversation.id;
-    const currentDedupKeys = this.dedupStorageKeys.filter(
-      (key) => key.indexOf(conversationId) > 0
-    );
-    await this.dedupStorage.delete(currentDedupKeys);
-    this.dedupStorageKeys = this.dedupStorageKeys.filter(
-      (key) => key.indexOf(conversationId) < 0
-    );
+  // Exchange the SSO token for the agent's token and hand the message over. Returns false when
+  // the exchange failed; the user has been told why.
+  private async sendToAgent(context: TurnContext, ssoToken: string, options: any): Promise<boolean> {
+    const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
+    let accessToken: string;
+    try {
+      accessToken = await agentTokenProvider.getToken(ssoToken);
+    } catch (error) {
+      const tokenError = toGraphServiceError(error);
+      telemetryService.trackCustomEvent('Agent_Token_Failed', {
+        userId,
+        conversationId,
+        errorKind: tokenError.kind,
+        ...(tokenError.code ? { code: tokenError.code } : {})
+      });
+      telemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+        userId,
+        conversationId,
+        operation: 'Agent_Token'
+      });
+
+      if (tokenError.kind === "consentRequired") {
+        await this.consentStore.removeScopes(this.getUserKey(context), options.requiredScopes || []);
+        await context.sendActivity(getAgentConsentRequiredMessage(getLocalizer(context)));
+      } else {
+        await context.sendActivity(getLocalizer(context).t("sso.agentSignInFailed"));
+      }
+      return false;
+    }
+
+    if (this.onAgentMessage) {
+      await this.onAgentMessage(context, options.agentMessage, accessToken, options.agentReplyTo);
+    }
+    return true;
   }
 
-  // If a user is signed into multiple Teams clients, the Bot might receive a "signin/tokenExchange" from each client.
-  // Each token exchange request for a specific user login will have an identical activity.value.Id.
-  // Only one of these token exchange requests should be processed by the bot.  For a distributed bot in production,
-  // this requires a distributed storage to ensure only one token exchange is processed.
-  async shouldDedup(context: TurnContext): Promise<boolean> {
-    const storeItem = {
-      eTag: context.activity.value.id,
-    };
+  /**
+   * End a pending sign-in after the user declined or cancelled the consent popup.
+   */
+  async cancelSignIn(context: TurnContext, dialogState: StatePropertyAccessor, reason: string) {
+    const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
+    telemetryService.trackCustomEvent('SSO_Consent_Declined', { userId, conversationId, reason });
 
-    const key = this.getStorageKey(context);
-    const storeItems = { [key]: storeItem };
+    this.ensureSsoPromptsInState(await dialogState.get(context));
+    const dialogSet = new DialogSet(dialogState);
+    dialogSet.add(this);
+    const dialogContext = await dialogSet.createContext(context);
+    await dialogContext.cancelAllDialogs();
 
-    try {
-      await this.dedupStorage.write(storeItems);
-      this.dedupStorageKeys.push(key);
-    } catch (err) {
-      if (err instanceof Error && err.message.indexOf("eTag conflict")) {
-        return true;
-      }
-      throw err;
-    }
-    return false;
+    await context.sendActivity(getLocalizer(context).t("sso.consentDeclined"));
   }
 
-  getStorageKey(context: TurnContext): string {
-    if (!context || !context.activity || !context.activity.conversation) {
-      throw new Error("Invalid context, can not get storage key!");
-    }
-    const activity = context.activity;
-    const channelId = activity.channelId;
-    const conversationId = activity.conversation.id;
-    if (
-      activity.type !== ActivityTypes.Invoke ||
-      activity.name !== tokenExchangeOperationName
-    ) {
-      throw new Error(
-        "TokenExchangeState can only be used with Invokes of signin/tokenExchange."
+  // One prompt per set of scopes. The ID is derived from the scopes, so a prompt that is
+  // waiting for the user can be recreated from dialog state on any instance.
+  private ensureSsoPrompt(scopes: string[]): string {
+    const normalized = [...new Set(scopes.map(normalizeScope))].sort();
+    const promptId = `${TEAMS_SSO_PROMPT_ID}:${normalized.join(" ")}`;
+    if (!this.findDialog(promptId)) {
+      const initialLoginEndpoint = `https://${config.botDomain}/auth-start.html`;
+      this.addDialog(
+        new TeamsBotSsoPrompt(oboAuthConfig, initialLoginEndpoint, promptId, {
+          scopes: normalized,
+          endOnInvalidMessage: true,
+        })
       );
     }
-    const value = activity.value;
-    if (!value || !value.id) {
-      throw new Error(
-        "Invalid signin/tokenExchange. Missing activity.value.id."
-      );
+    return promptId;
+  }
+
+  private ensureSsoPromptsInState(state: any) {
+    for (const instance of state?.dialogStack || []) {
+      if (typeof instance?.id === "string" && instance.id.startsWith(`${TEAMS_SSO_PROMPT_ID}:`)) {
+        this.ensureSsoPrompt(instance.id.substring(TEAMS_SSO_PROMPT_ID.length + 1).split(" "));
+      }
+      // Component dialogs keep their own stack
+      this.ensureSsoPromptsInState(instance?.state?.dialogs);
     }
-    return `${channelId}/${conversationId}/${value.id}`;
+  }
+
+  private getUserKey(context: TurnContext): string {
+    return context.activity.from.aadObjectId || context.activity.from.id;
   }
 
   private getActivityText(activity: Activity): string {
     let text = activity.text;
     const removedMentionText = TurnContext.removeRecipientMention(activity);
     if (removedMentionText) {
+      // Case is kept for command arguments; command names are matched case-insensitively
       text = removedMentionText
-        .toLowerCase()
-        .replace(/\n|\r\n/g, "")
+        .replace(/\n|\r\n/g, " ")
         .trim();
     }
     return text;
   }
 }
+
+function getConsentRequiredMessage(scopes: string[], localizer: Localizer): string {
+  return localizer.t("sso.consentRequired", { scopes: scopes.join(", ") });
+}
+
+function getAgentConsentRequiredMessage(localizer: Localizer): string {
+  return localizer.t("sso.agentConsentRequired");
+}
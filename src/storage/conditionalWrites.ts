@@ -0,0 +1,42 @@
+import { Storage } from "botbuilder";
+import { isETagConflict } from "./storageErrors";
+
+/**
+ * eTag for writing an item only if nothing is stored under its key; "*" would overwrite instead.
+ * No stored item has this eTag, so how each provider handles the write:
+ * - MemoryStorage and FileStorage check an eTag only against an item that exists: the item is
+ *   created when the key is free and the write fails with an eTag conflict when it is taken.
+ * - Cosmos DB (CosmosDbPartitionedStorage) upserts with an If-Match condition, which applies only
+ *   to a document that exists. A free key is created; a taken one fails with 412, or with 409 when
+ *   another writer creates the document at the same moment. botbuilder's own token exchange
+ *   deduplication relies on the same behaviour.
+ * isETagConflict recognises all of these, and verifyStorage checks at startup that the configured
+ * storage behaves this way.
+ */
+export const CREATE_ONLY_ETAG = "create-only";
+
+/**
+ * Create an item unless the key is taken, in a single storage write, so that of several writers
+ * on any instance exactly one succeeds. Resolves false when the key is taken; any other storage
+ * failure is thrown.
+ */
+export async function createIfAbsent(storage: Storage, key: string, item: object): Promise<boolean> {
+  try {
+    await storage.write({ [key]: { ...item, eTag: CREATE_ONLY_ETAG } });
+    return true;
+  } catch (err) {
+    if (isETagConflict(err)) {
+      return false;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Wait before retrying a write that lost an eTag race: exponential backoff with full jitter, so
+ * writers that collided don't collide again on the next attempt.
+ */
+export function waitBeforeRetry(attempt: number, baseDelayMs = 20, maxDelayMs = 500): Promise<void> {
+  const ceiling = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+  return new Promise((resolve) => setTimeout(resolve, Math.floor(Math.random() * ceiling)));
+}
@@ -0,0 +1,117 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { Storage, StoreItems } from "botbuilder";
+import { sanitizeStorageKey } from "./storageKeys";
+
+interface FileStoreEntry {
+  key: string;
+  eTag: string;
+  item: any;
+}
+
+/**
+ * Storage provider that keeps each state item in its own JSON file.
+ * Intended for local development: state survives a restart of the bot process,
+ * which MemoryStorage does not. Writes follow the same optimistic concurrency
+ * rules as MemoryStorage: an item written with a stale eTag is rejected.
+ * It is NOT suitable for multiple instances - use Cosmos DB for that.
+ */
+export class FileStorage implements Storage {
+  private directory: string;
+  // Serializes read-compare-write cycles within this process
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  async read(keys: string[]): Promise<StoreItems> {
+    if (!keys) {
+      throw new ReferenceError("Keys are required when reading.");
+    }
+
+    const items: StoreItems = {};
+    for (const key of keys) {
+      const entry = await this.readEntry(key);
+      if (entry) {
+        items[key] = { ...entry.item, eTag: entry.eTag };
+      }
+    }
+    return items;
+  }
+
+  write(changes: StoreItems): Promise<void> {
+    if (!changes) {
+      return Promise.reject(new ReferenceError("Changes are required when writing."));
+    }
+
+    return this.serialize(async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+      for (const [key, newItem] of Object.entries(changes)) {
+        const existing = await this.readEntry(key);
+        if (existing && newItem.eTag && newItem.eTag !== "*" && newItem.eTag !== existing.eTag) {
+          throw new Error(`Storage: error writing "${key}" due to eTag conflict.`);
+        }
+
+        const { eTag, ...item } = newItem;
+        const entry: FileStoreEntry = {
+          key,
+          eTag: this.nextETag(existing?.eTag),
+          item,
+        };
+
+        // Write to a temp file and rename so readers never see a partial file
+        const filePath = this.filePath(key);
+        const tempPath = `${filePath}.${process.pid}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(entry), "utf8");
+        await fs.rename(tempPath, filePath);
+      }
+    });
+  }
+
+  delete(keys: string[]): Promise<void> {
+    if (!keys) {
+      return Promise.reject(new ReferenceError("Keys are required when deleting."));
+    }
+
+    return this.serialize(async () => {
+      for (const key of keys) {
+        try {
+          await fs.unlink(this.filePath(key));
+        } catch (err) {
+          if (err.code !== "ENOENT") {
+            throw err;
+          }
+        }
+      }
+    });
+  }
+
+  private async readEntry(key: string): Promise<FileStoreEntry | undefined> {
+    try {
+      const content = await fs.readFile(this.filePath(key), "utf8");
+      return JSON.parse(content) as FileStoreEntry;
+    } catch (err) {
+      if (err.code === "ENOENT") {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.directory, `${sanitizeStorageKey(key)}.json`);
+  }
+
+  private nextETag(previous?: string): string {
+    const counter = previous ? parseInt(previous.split("-")[0], 10) || 0 : 0;
+    return `${counter + 1}-${Date.now().toString(36)}`;
+  }
+
+  private serialize(operation: () => Promise<void>): Promise<void> {
+    const result = this.pending.then(operation);
+    // Keep the chain alive even if this operation fails
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+}
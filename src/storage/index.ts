@@ -0,0 +1,6 @@
+// Storage module exports
+export * from './storageFactory';
+export * from './fileStorage';
+export * from './storageKeys';
+export * from './storageErrors';
+export * from './conditionalWrites';
@@ -0,0 +1,17 @@
+/**
+ * True when a storage write was rejected because the item changed since it was read, or because
+ * a create-only write (see createIfAbsent) found the key taken. MemoryStorage and FileStorage
+ * report this as an "eTag conflict" error message. Cosmos DB reports a failed If-Match as HTTP 412
+ * (Precondition Failed), and an item that another writer created at the same moment as HTTP 409
+ * (Conflict).
+ */
+export function isETagConflict(err: unknown): boolean {
+  if (!err || typeof err !== "object") {
+    return false;
+  }
+  const { code, statusCode, message } = err as { code?: unknown; statusCode?: unknown; message?: unknown };
+  if (code === 412 || statusCode === 412 || code === 409 || statusCode === 409) {
+    return true;
+  }
+  return typeof message === "string" && message.includes("eTag conflict");
+}
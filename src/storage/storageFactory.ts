@@ -0,0 +1,77 @@
+import os from "os";
+import { MemoryStorage, Storage } from "botbuilder";
+import { CosmosDbPartitionedStorage } from "botbuilder-azure";
+import { DefaultAzureCredential } from "@azure/identity";
+import config from "../config";
+import { FileStorage } from "./fileStorage";
+import { createIfAbsent } from "./conditionalWrites";
+
+export type StorageProvider = "memory" | "file" | "cosmos";
+
+/**
+ * Create the state store selected by STORAGE_PROVIDER.
+ * - memory: MemoryStorage, lost on restart and not shared between instances
+ * - file:   FileStorage under STORAGE_FILE_DIRECTORY, for local development
+ * - cosmos: Cosmos DB using the COSMOS_DB_* settings, required when the bot
+ *           runs on more than one App Service instance
+ */
+export function createStorage(provider: string = config.storageProvider): Storage {
+  switch (provider as StorageProvider) {
+    case "memory":
+      return new MemoryStorage();
+    case "file":
+      return new FileStorage(config.storageFileDirectory);
+    case "cosmos":
+      return createCosmosStorage();
+    default:
+      throw new Error(
+        `Unknown STORAGE_PROVIDER "${provider}". Expected one of: memory, file, cosmos.`
+      );
+  }
+}
+
+function createCosmosStorage(): Storage {
+  if (!config.cosmosDbEndpoint) {
+    throw new Error("COSMOS_DB_ENDPOINT is required when STORAGE_PROVIDER is cosmos.");
+  }
+  if (!config.cosmosDbUseAad && !config.cosmosDbAuthKey) {
+    throw new Error("Set COSMOS_DB_USE_AAD=true or COSMOS_DB_AUTH_KEY when STORAGE_PROVIDER is cosmos.");
+  }
+
+  // CosmosDbPartitionedStorage escapes keys that are not valid document ids and
+  // rejects writes whose eTag does not match the stored document.
+  return new CosmosDbPartitionedStorage({
+    cosmosDbEndpoint: config.cosmosDbEndpoint,
+    databaseId: config.cosmosDbDatabaseId,
+    containerId: config.cosmosDbContainerId,
+    compatibilityMode: false,
+    ...(config.cosmosDbUseAad
+      ? { tokenCredential: new DefaultAzureCredential() }
+      : { authKey: config.cosmosDbAuthKey }),
+  });
+}
+
+/**
+ * Startup check that the configured store can be reached.
+ * Writes, reads back and deletes a probe item; throws if any step fails.
+ * Also checks that create-only writes (see createIfAbsent) are refused for a taken key
+ * and succeed for a free one, which deduplication depends on.
+ */
+export async function verifyStorage(storage: Storage): Promise<void> {
+  const key = `storage-health/${os.hostname()}-${process.pid}`;
+  const checkedAt = new Date().toISOString();
+
+  await storage.write({ [key]: { checkedAt } });
+  const items = await storage.read([key]);
+  if (items[key]?.checkedAt !== checkedAt) {
+    throw new Error(`Storage health check failed: probe item "${key}" could not be read back.`);
+  }
+  if (await createIfAbsent(storage, key, { checkedAt })) {
+    throw new Error(`Storage health check failed: a create-only write overwrote probe item "${key}".`);
+  }
+  await storage.delete([key]);
+  if (!(await createIfAbsent(storage, key, { checkedAt }))) {
+    throw new Error(`Storage health check failed: a create-only write could not create probe item "${key}".`);
+  }
+  await storage.delete([key]);
+}
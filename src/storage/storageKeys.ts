@@ -0,0 +1,29 @@
+import { createHash } from "crypto";
+
+// Longest key we hand to a backing store. File names and Cosmos DB ids both
+// top out around 255 characters, so leave room for a hash suffix.
+const MAX_KEY_LENGTH = 200;
+
+/**
+ * Turn a bot state key (e.g. "msteams/conversations/a:1Hk...|skype;messageid=1")
+ * into a value that is safe to use as a file name or document id.
+ * Characters outside [A-Za-z0-9._-] are percent-encoded so the mapping stays
+ * reversible for short keys; long keys are truncated and suffixed with a hash
+ * of the original key so two different keys never collide.
+ */
+export function sanitizeStorageKey(key: string): string {
+  if (!key) {
+    throw new ReferenceError("Storage key is required.");
+  }
+
+  const escaped = key.replace(
+    /[^A-Za-z0-9._-]/g,
+    (ch) => "%" + ch.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")
+  );
+  if (escaped.length <= MAX_KEY_LENGTH) {
+    return escaped;
+  }
+
+  const hash = createHash("sha256").update(key).digest("hex").substring(0, 16);
+  return `${escaped.substring(0, MAX_KEY_LENGTH - hash.length - 1)}~${hash}`;
+}
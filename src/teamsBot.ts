@@ -1,55 +1,148 @@
 import {
+  Activity,
+  AdaptiveCardInvokeResponse,
+  AdaptiveCardInvokeValue,
+  ConversationReference,
+  MessagingExtensionAction,
+  MessagingExtensionActionResponse,
+  MessagingExtensionQuery,
+  MessagingExtensionResponse,
   TeamsActivityHandler,
   TurnContext,
   SigninStateVerificationQuery,
-  MemoryStorage,
+  Storage,
   ConversationState,
   UserState,
   StatePropertyAccessor,
-  Activity,
-  ConversationReference,
+  TeamsInfo,
 } from "botbuilder";
+import config from "./config";
 import { SSODialog } from "./ssoDialog";
-import { SSOCommandMap } from "./commands/SSOCommandMap";
+import { createSSOCommandMap, getCommandForCardVerb } from "./commands/SSOCommandMap";
+import { SSOCardAction, SSOCommand } from "./commands/SSOCommand";
+import { BotCommand, CommandRegistry, getCommandParseOptions } from "./commands/commandRegistry";
+import { createWelcomeCard } from "./commands/welcomeCard";
+import { SettingsCommand } from "./commands/settingsCommand";
+import { UsageCommand } from "./commands/usageCommand";
+import {
+  CommandParseError,
+  ParsedCommandArgs,
+  formatCommandHelp,
+  parseCommandArgs,
+} from "./commands/commandParser";
 import { telemetryService } from "./telemetry";
+import { createCardInvokeResponse } from "./cards";
+import { ConversationReferenceStore } from "./proactive";
+import {
+  SessionActionData,
+  SessionNotFoundError,
+  SessionStore,
+  createCardOutcome,
+  createResetConfirmationCard,
+  createSessionListCard,
+  getSessionAction,
+  getShortSessionId,
+} from "./sessions";
+import {
+  AgentError,
+  AgentResponse,
+  AgentUserPreferences,
+  MessageHistoryItem,
+  StreamingResponder,
+  agentClient,
+  agentTokenProvider,
+  appendToHistory,
+  createAgentResponse,
+  formatHistorySummary,
+  formatUserList,
+  getAgentErrorMessage,
+  renderAgentResponse,
+} from "./agent";
+import { MessagingExtensionHandler } from "./messagingExtension";
+import { UserPreferencesStore } from "./preferences";
+import { Localizer, getLocalizer, setTurnLocale } from "./localization";
+import { RateLimiter, getRateLimitSubject } from "./rateLimiting";
+import { ActivityDeduplicator, TokenExchangeDeduplicator } from "./idempotency";
+import { randomUUID } from "crypto";
 import e from "express";
 
-interface MessageHistoryItem {
-  role: 'user' | 'assistant' | 'system' | 'tool';
-  content: string;
-}
-
 export class TeamsBot extends TeamsActivityHandler {
   conversationState: ConversationState;
   userState: UserState;
   dialog: SSODialog | null;
   dialogState: StatePropertyAccessor;
   messageHistoryAccessor: StatePropertyAccessor<MessageHistoryItem[]>;
-  private conversationReferences: { [key: string]: Partial<ConversationReference> } = {};
+  installationAccessor: StatePropertyAccessor<{ installedAt: string } | undefined>;
+  conversationReferenceStore: ConversationReferenceStore;
+  sessionStore: SessionStore;
+  preferencesStore: UserPreferencesStore;
+  rateLimiter: RateLimiter;
+  activityDeduplicator: ActivityDeduplicator;
+  tokenExchangeDeduplicator: TokenExchangeDeduplicator;
+  commands: CommandRegistry<BotCommand>;
+  ssoCommands: CommandRegistry<SSOCommand>;
+  messagingExtension: MessagingExtensionHandler;
 
-  constructor() {
+  constructor(storage: Storage) {
     super();
 
-    // Define the state store for your bot.
-    // See https://aka.ms/about-bot-state to learn more about using MemoryStorage.
     // A bot requires a state storage system to persist the dialog and user state between messages.
-    const memoryStorage = new MemoryStorage();
-
-    // Create conversation and user state with in-memory storage provider.
-    this.conversationState = new ConversationState(memoryStorage);
-    this.userState = new UserState(memoryStorage);
+    // See https://aka.ms/about-bot-state to learn more about bot state.
+    // The storage is created from configuration (see storage/storageFactory.ts) so that
+    // state is shared when the bot runs on more than one instance.
+    this.conversationState = new ConversationState(storage);
+    this.userState = new UserState(storage);
+    this.conversationReferenceStore = new ConversationReferenceStore(storage);
+    this.sessionStore = new SessionStore(storage);
+    this.preferencesStore = new UserPreferencesStore(this.userState);
+    this.rateLimiter = new RateLimiter(storage);
+    this.activityDeduplicator = new ActivityDeduplicator(storage);
+    this.tokenExchangeDeduplicator = new TokenExchangeDeduplicator(storage);
+    this.ssoCommands = createSSOCommandMap(storage, this.preferencesStore);
     
     // Only initialize SSO dialog if configuration is available
     try {
-      this.dialog = new SSODialog(new MemoryStorage());
+      // Messages that waited for sign-in are answered from the dialog with the user's agent token,
+      // in the group chat or channel thread they were sent in when the user signed in privately
+      this.dialog = new SSODialog(storage, this.ssoCommands, (context, message, accessToken, replyTo) =>
+        replyTo
+          ? this.continueInConversation(context, replyTo, (threadContext) => this.replyWithAgent(threadContext, message, accessToken))
+          : this.replyWithAgent(context, message, accessToken)
+      );
     } catch (error) {
       console.warn('SSO Dialog initialization failed - SSO features will be disabled:', error.message);
       this.dialog = null;
     }
     
     this.dialogState = this.conversationState.createProperty("DialogState");
-    //this.messageHistoryAccessor = this.conversationState.createProperty("MessageHistory");
-    // get the conversation id and user id from the context
+    // Recent turns of this conversation, trimmed to a bounded window (see agent/messageHistory.ts)
+    this.messageHistoryAccessor = this.conversationState.createProperty<MessageHistoryItem[]>("MessageHistory");
+    // Set when the bot is installed in this conversation; deleted with the rest of the state on uninstall
+    this.installationAccessor = this.conversationState.createProperty("Installation");
+    this.commands = this.createCommands();
+    // Questions asked from the messaging extension are one-off, so each gets its own agent session.
+    // They count against the same limits as chat messages.
+    this.messagingExtension = new MessagingExtensionHandler(
+      async (context, question, accessToken) => {
+        const limited = await this.checkRateLimits(context);
+        if (limited) {
+          return createAgentResponse({ text: limited, failed: true });
+        }
+        return this.getAIResponse(
+          context.activity.conversation.id,
+          randomUUID(),
+          question,
+          undefined,
+          [],
+          accessToken,
+          await this.getAgentPreferences(context),
+          getLocalizer(context)
+        );
+      },
+      // The task module tells the user when this fails
+      (context, activity) =>
+        this.tryInPrivateChat(context, async (privateContext) => { await privateContext.sendActivity(activity); }, false)
+    );
 
     this.onMessage(async (context, next) => {
       console.log("Running with Message Activity.");
@@ -58,14 +151,33 @@ export class TeamsBot extends TeamsActivityHandler {
       const messageTimer = telemetryService.startOperation('MessageHandler').setContext(userId, conversationId);
 
       try {
+        // Buttons on the session cards come back as a message carrying the card data
+        const sessionAction = getSessionAction(context.activity.value);
+
+        // In group chats and channels the bot only answers when it is @mentioned. Replies go to the
+        // thread the message was sent in, as the activity's conversation is the thread.
+        if (isGroupConversation(context.activity) && !sessionAction && !isBotMentioned(context.activity)) {
+          telemetryService.trackCustomEvent('Message_Ignored_Not_Mentioned', { userId, conversationId });
+          messageTimer.stop(true);
+          return;
+        }
+
         // Store conversation reference for proactive messaging
-        this.addConversationReference(context.activity);
+        await this.addConversationReference(context);
+
+        if (sessionAction) {
+          await this.handleSessionAction(context, sessionAction);
+          messageTimer.stop(true);
+          return;
+        }
 
         let txt = context.activity.text;
         // remove the mention of this bot
         const removedMentionText = TurnContext.removeRecipientMention(
           context.activity
         );
+        // Commands keep the original case for their arguments
+        const commandText = (removedMentionText ?? txt ?? "").replace(/\r?\n/g, " ").trim();
         if (removedMentionText) {
           // Remove the line break
           txt = removedMentionText.toLowerCase().replace(/\n|\r/g, "").trim();
@@ -79,79 +191,85 @@ export class TeamsBot extends TeamsActivityHandler {
           hasText: (!!txt).toString(),
           messageLength: (txt?.length || 0).toString()
         });
+
+        // Rate limits and daily quotas apply before anything reaches a command or the agent. /usage
+        // doesn't count towards the quotas, so users can still see when they can send messages again.
+        const limited = await this.checkRateLimits(context, !(this.commands.match(commandText)?.command instanceof UsageCommand));
+        if (limited) {
+          await context.sendActivity(limited);
+          messageTimer.stop(true);
+          return;
+        }
         
-        if(txt === "/cls" || txt === "/new") {
-          // Clear the conversation history
-          telemetryService.trackCustomEvent('Conversation_Clear', { userId, conversationId });
-          
-          if (this.clearConversationHistory(context, context.activity.from.aadObjectId)) {
-            await context.sendActivity("New conversation started.  Prior history has been cleared.");
-            messageTimer.stop(true);
-            return;
+        // Commands the bot handles itself, then commands that need the user signed in
+        const botCommand = this.commands.match(commandText);
+        const ssoCommand = botCommand ? undefined : this.ssoCommands.match(commandText);
+        let args: ParsedCommandArgs | undefined;
+        if (botCommand || ssoCommand) {
+          const { command, argText } = botCommand || ssoCommand;
+          try {
+            // Validate before any sign-in prompt, so a typo doesn't send the user through SSO first
+            args = parseCommandArgs(command, argText, getCommandParseOptions(context));
+          } catch (error) {
+            if (!(error instanceof CommandParseError)) {
+              throw error;
+            }
+            // A message that starts with a plain word like "show" may just be a question for the
+            // assistant; only /commands are answered with their usage
+            if (commandText.startsWith("/")) {
+              telemetryService.trackCustomEvent('Command_Invalid_Arguments', {
+                userId,
+                conversationId,
+                command: command.name,
+                reason: error.reason
+              });
+              await context.sendActivity(error.message);
+              messageTimer.stop(true);
+              return;
+            }
           }
         }
-        // Trigger command by IM text
-        if (SSOCommandMap.get(txt)) {
-          if (this.dialog) {
+        if (args) {
+          const { command } = botCommand || ssoCommand;
+          if (botCommand) {
+            telemetryService.trackCustomEvent('Bot_Command_Triggered', { userId, conversationId, command: command.name });
+            if (botCommand.command.runsPrivately && isGroupConversation(context.activity)) {
+              const sent = await this.tryInPrivateChat(context, (privateContext) => botCommand.command.run(privateContext, args));
+              if (sent) {
+                await context.sendActivity(getLocalizer(context).t("bot.commandSentPrivately", { command: command.name }));
+              }
+            } else {
+              await botCommand.command.run(context, args);
+            }
+            messageTimer.stop(true);
+          } else if (this.dialog) {
             telemetryService.trackCustomEvent('SSO_Command_Triggered', {
               userId,
               conversationId,
-              command: txt
+              command: command.name,
+              conversationType: context.activity.conversation.conversationType || 'personal'
             });
             
-            await this.dialog.run(context, this.dialogState);
+            if (isGroupConversation(context.activity)) {
+              await this.runCommandPrivately(context, commandText, command.name);
+            } else {
+              await this.dialog.run(context, this.dialogState);
+            }
             messageTimer.stop(true);
           } else {
             telemetryService.trackCustomEvent('SSO_Command_Failed_No_Dialog', {
               userId,
               conversationId,
-              command: txt
+              command: command.name
             });
             
-            await context.sendActivity("SSO functionality is not available. Please check the bot configuration.");
+            await context.sendActivity(getLocalizer(context).t("bot.ssoUnavailable"));
             messageTimer.stop(false, 'SSO Dialog not initialized');
           }
         }
         else
         {
-          await context.sendActivity({type: "typing"});
-          
-          // Get the user's Entra ID from the context and use it as the session id
-          // This is used to identify the user in the AI response
-          // Note: context.activity.from.id is the Teams user ID, not the Entra ID
-          // For Entra ID, we need to get it from the user's AAD object ID
-          const aiUserId = context.activity.from.aadObjectId || context.activity.from.id;
-          
-          telemetryService.trackCustomEvent('AI_Response_Requested', {
-            userId,
-            conversationId,
-            aiUserId,
-            hasMessage: (!!txt).toString()
-          });
-          
-          const aiResponseTimer = telemetryService.startOperation('AI_Response').setContext(userId, conversationId);
-          
-          try {
-            const aiResponse = await this.getAIResponse(context.activity.conversation.id, aiUserId, txt);
-            await context.sendActivity(aiResponse);
-            
-            telemetryService.trackCustomEvent('AI_Response_Sent', {
-              userId,
-              conversationId,
-              responseLength: aiResponse.length.toString()
-            });
-            
-            aiResponseTimer.stop(true);
-          } catch (aiError) {
-            telemetryService.trackException(aiError instanceof Error ? aiError : new Error(String(aiError)), {
-              userId,
-              conversationId,
-              operation: 'AI_Response'
-            });
-            
-            aiResponseTimer.stop(false, aiError instanceof Error ? aiError.message : String(aiError));
-            throw aiError;
-          }
+          await this.sendToAgent(context, txt);
         }
         
         messageTimer.stop(true);
@@ -168,62 +286,594 @@ export class TeamsBot extends TeamsActivityHandler {
        
     });
 
-    // this.onMembersAdded(async (context, next) => {
-    //   const membersAdded = context.activity.membersAdded;
-    //   for (let cnt = 0; cnt < membersAdded.length; cnt++) {
-    //     if (membersAdded[cnt].id) {
-    //       await context.sendActivity("🎉 Welcome to the SSO Bot scheduling assistant!\n\n" +
-    //         "💬 I'll keep track of our conversation history. You can:\n" +
-    //         "• Chat normally and I'll remember our messages\n" +
-    //         "• Type **'history'** to see our conversation summary\n" +
-    //         "• Type **'clear history'** to start fresh\n" +
-    //         "• Use SSO commands for authentication features\n\n" +
-    //         "Let's start chatting!");
-    //       break;
-    //     }
-    //   }
-    //   await next();
-    // });
+    // Installing the bot sends an installationUpdate and, in most scopes, a conversationUpdate that
+    // adds the bot; both are handled and handleInstall only acts on the first one. The same goes for
+    // uninstalling, which also removes the bot from the conversation.
+    this.onInstallationUpdateAdd(async (context, next) => {
+      await this.handleInstall(context, 'installationUpdate');
+      await next();
+    });
+
+    this.onInstallationUpdateRemove(async (context, next) => {
+      await this.handleUninstall(context, 'installationUpdate');
+      await next();
+    });
+
+    this.onMembersAdded(async (context, next) => {
+      const botAdded = context.activity.membersAdded?.some(
+        (member) => member.id === context.activity.recipient.id
+      );
+      if (botAdded) {
+        await this.handleInstall(context, 'membersAdded');
+      }
+      await next();
+    });
+
+    this.onMembersRemoved(async (context, next) => {
+      const botRemoved = context.activity.membersRemoved?.some(
+        (member) => member.id === context.activity.recipient.id
+      );
+      if (botRemoved) {
+        await this.handleUninstall(context, 'membersRemoved');
+      }
+      await next();
+    });
+  }
+
+  // Capture the conversation reference straight away, so proactive messages work before the
+  // user's first message, and welcome the user with the commands they can use
+  private async handleInstall(context: TurnContext, source: string): Promise<void> {
+    const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
+    const installation = await this.installationAccessor.get(context);
+    if (installation) {
+      return;
+    }
+    await this.installationAccessor.set(context, { installedAt: new Date().toISOString() });
+
+    await this.addConversationReference(context);
+    telemetryService.trackCustomEvent('App_Installed', {
+      userId,
+      conversationId,
+      conversationType: context.activity.conversation.conversationType || 'personal',
+      source,
+      action: context.activity.action || 'add'
+    });
+
+    // An app update isn't a new install, even if the bot hadn't recorded the original one
+    if (context.activity.action !== 'add-upgrade') {
+      await context.sendActivity(
+        createWelcomeCard([...this.commands.getCommands(), ...this.ssoCommands.getCommands()], getLocalizer(context))
+      );
+      telemetryService.trackCustomEvent('Welcome_Card_Sent', { userId, conversationId });
+    }
+  }
+
+  // Drop conversation references so proactive messages aren't attempted against conversations the
+  // bot can no longer post to, along with the sessions and state kept for the conversation
+  private async handleUninstall(context: TurnContext, source: string): Promise<void> {
+    const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
+    const conversation = context.activity.conversation;
+    const installation = await this.installationAccessor.get(context);
+
+    const userKeys = await this.conversationReferenceStore.removeConversation(conversation.id);
+    for (const userKey of new Set([...userKeys, this.getUserKey(context), SHARED_SESSION_OWNER])) {
+      await this.sessionStore.remove(userKey, conversation.id);
+    }
+    await this.activityDeduplicator.removeConversation(context.activity.channelId, conversation.id);
+    await this.tokenExchangeDeduplicator.removeConversation(context.activity.channelId, conversation.id);
+    await this.conversationState.delete(context);
+    if ((conversation.conversationType || 'personal') === 'personal') {
+      // Removing the app from a personal chat removes it for the user
+      await this.userState.delete(context);
+    }
+
+    // The second of the two uninstall events finds nothing left to clean up
+    if (installation || userKeys.length > 0) {
+      telemetryService.trackCustomEvent('App_Uninstalled', {
+        userId,
+        conversationId,
+        conversationType: conversation.conversationType || 'personal',
+        source,
+        removedUsers: userKeys.length.toString()
+      });
+    }
+  }
+
+  private async addConversationReference(context: TurnContext): Promise<void> {
+    const activity = context.activity;
+    try {
+      // Channels and group chats are stored once, for posting to them; users are reached in their personal chat
+      if (isGroupConversation(activity)) {
+        await this.conversationReferenceStore.addChannelFromActivity(activity);
+        return;
+      }
+
+      let userPrincipalName: string | undefined;
+      const existing = await this.conversationReferenceStore.getUser(activity.from?.aadObjectId || activity.from?.id);
+      if (!existing?.userPrincipalName && activity.channelId === "msteams") {
+        // The UPN isn't on the activity; resolve it once from the roster so callers can notify by UPN
+        try {
+          const member = await TeamsInfo.getMember(context, activity.from.id);
+          userPrincipalName = member.userPrincipalName;
+        } catch (error) {
+          console.warn('Could not resolve user principal name:', error instanceof Error ? error.message : error);
+        }
+      }
+
+      await this.conversationReferenceStore.addFromActivity(activity, userPrincipalName);
+    } catch (error) {
+      // Failing to record a reference must not stop the user's message from being handled
+      telemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+        userId: activity.from?.id || 'unknown',
+        conversationId: activity.conversation?.id || 'unknown',
+        operation: 'Conversation_Reference_Add'
+      });
+    }
+  }
+
+  // Commands handled without signing in. SSO commands are created in commands/SSOCommandMap.ts.
+  private createCommands(): CommandRegistry<BotCommand> {
+    return new CommandRegistry<BotCommand>([
+      {
+        name: "help",
+        aliases: ["/help", "?"],
+        description: "List the commands I understand",
+        run: async (context) => {
+          await context.sendActivity(
+            formatCommandHelp([...this.commands.getCommands(), ...this.ssoCommands.getCommands()], getLocalizer(context))
+          );
+        },
+      },
+      {
+        name: "history",
+        description: "Summarize the recent turns of this conversation",
+        run: async (context) => {
+          const history = await this.messageHistoryAccessor.get(context, []);
+          const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
+          telemetryService.trackCustomEvent('Conversation_History_Viewed', {
+            userId,
+            conversationId,
+            historyLength: history.length.toString()
+          });
+          await context.sendActivity(formatHistorySummary(history, getLocalizer(context)));
+        },
+      },
+      {
+        name: "/new",
+        description: "Start a new conversation; the current one can be resumed later",
+        run: (context) => this.confirmReset(context, "session.new"),
+      },
+      {
+        name: "/cls",
+        description: "Clear the history of the current conversation",
+        run: (context) => this.confirmReset(context, "session.clear"),
+      },
+      {
+        name: "/sessions",
+        description: "List your conversations in this chat",
+        run: async (context) => {
+          const sessions = await this.sessionStore.list(this.getSessionOwner(context), context.activity.conversation.id);
+          await context.sendActivity(createSessionListCard(sessions, getLocalizer(context)));
+        },
+      },
+      {
+        name: "/resume",
+        description: "Go back to an earlier conversation",
+        args: [{ name: "id", type: "string", required: true, description: "the ID shown by /sessions" }],
+        run: (context, args) => this.resumeSession(context, String(args.id)),
+      },
+      new SettingsCommand(this.preferencesStore),
+      new UsageCommand(this.rateLimiter),
+    ]);
+  }
+
+  // Count the message against the sender's, the conversation's and the tenant's limits. Returns the
+  // reply to send instead of answering when one of them refuses it.
+  private async checkRateLimits(context: TurnContext, countsTowardsQuota = true): Promise<string | undefined> {
+    const result = await this.rateLimiter.consume(getRateLimitSubject(context), countsTowardsQuota);
+    if (result.allowed) {
+      return undefined;
+    }
+
+    const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
+    const localizer = getLocalizer(context);
+    if (result.reason === "quota") {
+      telemetryService.trackCustomEvent('Quota_Exceeded', {
+        userId,
+        conversationId,
+        scope: result.scope,
+        limit: result.limit.toString()
+      });
+      const resetsAt = localizer.formatDateTime(new Date(Date.now() + result.retryAfterSeconds * 1000).toISOString());
+      return localizer.t(result.scope === "tenant" ? "rateLimits.tenantQuota" : "rateLimits.userQuota", { limit: result.limit, resetsAt });
+    }
+
+    telemetryService.trackCustomEvent('Rate_Limit_Exceeded', {
+      userId,
+      conversationId,
+      scope: result.scope,
+      retryAfterSeconds: result.retryAfterSeconds.toString()
+    });
+    // Only the sender's own limit is theirs to slow down for; the others are shared with other users
+    return localizer.t(result.scope === "user" ? "rateLimits.user" : "rateLimits.busy", { count: result.retryAfterSeconds });
+  }
+
+  // Anything that isn't a command goes to the agent. With user auth on, the user's token for the
+  // agent is sent along; without a cached one the message waits for the SSO prompt, which is
+  // silent once the user has consented, and is answered from the dialog.
+  private async sendToAgent(context: TurnContext, txt: string): Promise<void> {
+    if (!agentTokenProvider.enabled) {
+      await this.replyWithAgent(context, txt);
+      return;
+    }
+    const accessToken = agentTokenProvider.getCachedToken(context);
+    if (accessToken) {
+      await this.replyWithAgent(context, txt, accessToken);
+      return;
+    }
+
+    const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
+    if (!this.dialog) {
+      telemetryService.trackCustomEvent('Agent_Sign_In_Failed_No_Dialog', { userId, conversationId });
+      await context.sendActivity(getLocalizer(context).t("bot.ssoUnavailable"));
+      return;
+    }
+    telemetryService.trackCustomEvent('Agent_Sign_In_Required', { userId, conversationId });
+    if (!isGroupConversation(context.activity)) {
+      await this.dialog.run(context, this.dialogState, { agentMessage: txt });
+      return;
+    }
+
+    // Sign in privately and answer here once that's done
+    const replyTo = TurnContext.getConversationReference(context.activity);
+    const sent = await this.tryInPrivateChat(context, (privateContext) =>
+      this.dialog.run(privateContext, this.dialogState, { agentMessage: txt, agentReplyTo: replyTo })
+    );
+    if (sent) {
+      await context.sendActivity(getLocalizer(context).t("bot.agentSignInPrivately"));
+    }
   }
 
-  private addConversationReference(activity: Activity): void {
-    const conversationReference = TurnContext.getConversationReference(activity);
+  // SSO commands show the user's own data and may need them to sign in, so in a group chat or
+  // channel they run in the user's private chat with the bot
+  private async runCommandPrivately(context: TurnContext, commandText: string, commandName: string): Promise<void> {
+    const sent = await this.tryInPrivateChat(context, (privateContext) =>
+      this.dialog.run(privateContext, this.dialogState, { commandMessage: commandText })
+    );
+    if (sent) {
+      await context.sendActivity(getLocalizer(context).t("bot.commandAnsweredPrivately", { command: commandName }));
+    }
+  }
+
+  // Run logic in the user's 1:1 chat with the bot, which Teams creates if there isn't one yet.
+  // Returns false, after telling the user in the current conversation unless notifyOnFailure is
+  // off, when that isn't possible.
+  private async tryInPrivateChat(
+    context: TurnContext,
+    logic: (privateContext: TurnContext) => Promise<void>,
+    notifyOnFailure = true
+  ): Promise<boolean> {
+    const { activity } = context;
+    const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
+    const tenantId = activity.conversation.tenantId || activity.channelData?.tenant?.id;
+    try {
+      await context.adapter.createConversationAsync(
+        config.MicrosoftAppId || "",
+        activity.channelId,
+        activity.serviceUrl,
+        undefined,
+        { isGroup: false, bot: activity.recipient, members: [activity.from], tenantId, channelData: { tenant: { id: tenantId } } },
+        async (privateContext) => {
+          // The activity for a new conversation has no sender, and the dialog needs to know who it is for
+          privateContext.activity.from = activity.from;
+          privateContext.activity.conversation.conversationType = "personal";
+          // Nor a locale, so answer in the language of the turn that started it
+          setTurnLocale(privateContext, getLocalizer(context).locale);
+          await logic(privateContext);
+          await this.conversationState.saveChanges(privateContext, false);
+        }
+      );
+      telemetryService.trackCustomEvent('Private_Chat_Used', { userId, conversationId });
+      return true;
+    } catch (error) {
+      // Teams only lets the bot start a chat with users it shares a team or chat with
+      telemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
+        userId,
+        conversationId,
+        operation: 'Private_Chat'
+      });
+      if (notifyOnFailure) {
+        await context.sendActivity(getLocalizer(context).t("bot.privateChatFailed"));
+      }
+      return false;
+    }
+  }
+
+  // Run logic in another conversation the bot is part of, saving its state afterwards
+  private async continueInConversation(
+    context: TurnContext,
+    reference: Partial<ConversationReference>,
+    logic: (otherContext: TurnContext) => Promise<void>
+  ): Promise<void> {
+    await context.adapter.continueConversationAsync(config.MicrosoftAppId || "", reference, async (otherContext) => {
+      setTurnLocale(otherContext, getLocalizer(context).locale);
+      await logic(otherContext);
+      await this.conversationState.saveChanges(otherContext, false);
+      await this.userState.saveChanges(otherContext, false);
+    });
+  }
+
+  private async replyWithAgent(context: TurnContext, txt: string, accessToken?: string): Promise<void> {
+    const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
+    await context.sendActivity({type: "typing"});
+
+
+    // The agent keeps its own history per session; each user has a session per conversation
+    // (see sessions/sessionStore.ts) that /new rotates and /resume switches back to
+    const session = await this.sessionStore.touch(this.getSessionOwner(context), conversationId, txt);
     
-    // Debug: Log the different user IDs available
-    console.log('Storing conversation reference:');
-    console.log('- conversationReference.user.id:', conversationReference.user?.id);
-    console.log('- activity.from.id:', activity.from?.id);
-    console.log('- activity.from.aadObjectId:', activity.from?.aadObjectId);
+    telemetryService.trackCustomEvent('AI_Response_Requested', {
+      userId,
+      conversationId,
+      sessionId: session.id,
+      hasMessage: (!!txt).toString()
+    });
     
-    // Store using the user.id from conversation reference
-    if (conversationReference.user?.id) {
-      this.conversationReferences[conversationReference.user.id] = conversationReference;
-    }
+    const aiResponseTimer = telemetryService.startOperation('AI_Response').setContext(userId, conversationId);
     
-    // Also store using AAD Object ID if available (for easier lookup)
-    if (activity.from?.aadObjectId) {
-      this.conversationReferences[activity.from.aadObjectId] = conversationReference;
+    try {
+      const history = await this.messageHistoryAccessor.get(context, []);
+      const localizer = getLocalizer(context);
+      // Show the answer as it streams in; agents that don't stream get a single message
+      const responder = new StreamingResponder(context);
+      const aiResponse = await this.getAIResponse(
+        context.activity.conversation.id,
+        session.id,
+        txt,
+        (delta) => responder.append(delta),
+        history,
+        accessToken,
+        await this.getAgentPreferences(context),
+        localizer
+      );
+      // Render users, attachments and suggested actions as cards rather than raw text
+      await responder.finish(renderAgentResponse(aiResponse, localizer));
+
+      // Only successful turns become context for the next message
+      if (!aiResponse.failed) {
+        const answer = aiResponse.text || (aiResponse.users.length > 0 ? formatUserList(aiResponse.users, localizer) : '');
+        await this.messageHistoryAccessor.set(context, appendToHistory(history, [
+          { role: 'user', content: txt },
+          ...(answer ? [{ role: 'assistant' as const, content: answer }] : []),
+        ]));
+      }
+      
+      telemetryService.trackCustomEvent('AI_Response_Sent', {
+        userId,
+        conversationId,
+        streamed: responder.started.toString(),
+        historyLength: history.length.toString(),
+        responseLength: (aiResponse.text?.length || 0).toString(),
+        users: aiResponse.users.length.toString(),
+        attachments: aiResponse.attachments.length.toString(),
+        suggestedActions: aiResponse.suggestedActions.length.toString()
+      });
+      
+      aiResponseTimer.stop(true);
+    } catch (aiError) {
+      telemetryService.trackException(aiError instanceof Error ? aiError : new Error(String(aiError)), {
+        userId,
+        conversationId,
+        operation: 'AI_Response'
+      });
+      
+      aiResponseTimer.stop(false, aiError instanceof Error ? aiError.message : String(aiError));
+      throw aiError;
     }
-    
-    // Track conversation reference addition
-    telemetryService.trackCustomEvent('Conversation_Reference_Added', {
-      userId: activity.from?.id || 'unknown',
-      aadObjectId: activity.from?.aadObjectId || 'unknown',
-      conversationId: activity.conversation?.id || 'unknown',
-      totalReferences: Object.keys(this.conversationReferences).length.toString()
+  }
+
+  // The sender's settings, sent with every agent request. Without a language setting the agent
+  // answers in the language of the user's Teams client.
+  private async getAgentPreferences(context: TurnContext): Promise<AgentUserPreferences> {
+    const preferences = await this.preferencesStore.get(context);
+    return {
+      timeZone: preferences.timeZone,
+      workingHours: preferences.workingHours,
+      language: preferences.language || context.activity.locale,
+      verbosity: preferences.verbosity,
+    };
+  }
+
+  // Both reset the conversation, so ask first; the card's buttons are handled in handleSessionAction
+  private async confirmReset(context: TurnContext, action: "session.new" | "session.clear"): Promise<void> {
+    const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
+    const session = await this.sessionStore.getCurrent(this.getSessionOwner(context), context.activity.conversation.id);
+    telemetryService.trackCustomEvent('Conversation_Clear', { userId, conversationId, action });
+    await context.sendActivity(createResetConfirmationCard(action, session, getLocalizer(context)));
+  }
+
+  // Sessions and conversation references are keyed by the AAD object ID when there is one
+  private getUserKey(context: TurnContext): string {
+    return context.activity.from.aadObjectId || context.activity.from.id;
+  }
+
+  // Agent sessions belong to the user in a personal chat, and are shared by everyone in a group
+  // chat or channel thread (conversation state, and so the message history, already is)
+  private getSessionOwner(context: TurnContext): string {
+    return isGroupConversation(context.activity) ? SHARED_SESSION_OWNER : this.getUserKey(context);
+  }
+
+  private async handleSessionAction(context: TurnContext, data: SessionActionData): Promise<void> {
+    const userKey = this.getSessionOwner(context);
+    const conversationId = context.activity.conversation.id;
+    const localizer = getLocalizer(context);
+
+    if (data.action === "session.resume") {
+      await this.resumeSession(context, data.sessionId);
+      return;
+    }
+
+    const session = await this.sessionStore.getCurrent(userKey, conversationId);
+    if (data.sessionId !== session.id) {
+      // The card was answered already, or belongs to a session that has since been replaced
+      await this.replaceCard(context, localizer.t("sessions.alreadyHandled"));
+      return;
+    }
+
+    if (data.action === "session.cancel") {
+      await this.replaceCard(context, localizer.t("sessions.cancelled"));
+      return;
+    }
+
+    if (data.action === "session.new") {
+      const history = await this.messageHistoryAccessor.get(context, []);
+      const next = await this.sessionStore.startNew(userKey, conversationId, history);
+      await this.messageHistoryAccessor.delete(context);
+      await this.replaceCard(context, localizer.t("sessions.startedNew", { id: getShortSessionId(session) }));
+      await context.sendActivity(
+        localizer.t("sessions.newStarted", { id: getShortSessionId(next), previous: getShortSessionId(session) })
+      );
+      return;
+    }
+
+    await this.replaceCard(context, localizer.t("sessions.clearing"));
+    if (await this.clearConversationHistory(context, session.id)) {
+      await this.sessionStore.markCleared(userKey, conversationId);
+      await context.sendActivity(localizer.t("sessions.cleared"));
+    }
+  }
+
+  private async resumeSession(context: TurnContext, sessionId: string): Promise<void> {
+    const history = await this.messageHistoryAccessor.get(context, []);
+    const localizer = getLocalizer(context);
+    try {
+      const resumed = await this.sessionStore.resume(this.getSessionOwner(context), context.activity.conversation.id, sessionId, history);
+      await this.messageHistoryAccessor.set(context, resumed.history || []);
+      await context.sendActivity(
+        resumed.title
+          ? localizer.t("sessions.resumedWithTitle", { id: getShortSessionId(resumed), title: resumed.title })
+          : localizer.t("sessions.resumed", { id: getShortSessionId(resumed) })
+      );
+    } catch (error) {
+      if (error instanceof SessionNotFoundError) {
+        await context.sendActivity(localizer.t("sessions.notFound"));
+        return;
+      }
+      throw error;
+    }
+  }
+
+  // Swap an answered card for a short outcome so its buttons can't be used again
+  private async replaceCard(context: TurnContext, text: string): Promise<void> {
+    const cardActivityId = context.activity.replyToId;
+    if (!cardActivityId) {
+      await context.sendActivity(text);
+      return;
+    }
+    try {
+      await context.updateActivity({ ...createCardOutcome(text), type: "message", id: cardActivityId });
+    } catch (error) {
+      // Not every channel supports updates
+      console.warn('Could not update card:', error instanceof Error ? error.message : error);
+      await context.sendActivity(text);
+    }
+  }
+
+  // Action.Execute buttons on command cards, such as the settings card and the scheduling forms. The
+  // response replaces the card; SSO command actions that need Graph continue in the SSO dialog, which
+  // updates the card when done.
+  async onAdaptiveCardInvoke(context: TurnContext, invokeValue: AdaptiveCardInvokeValue): Promise<AdaptiveCardInvokeResponse> {
+    const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
+    const verb = invokeValue.action?.verb;
+    const botCommand = getCommandForCardVerb(this.commands, verb);
+    if (botCommand?.handleCardAction) {
+      telemetryService.trackCustomEvent('Card_Action_Invoked', { userId, conversationId, verb, command: botCommand.name });
+      return createCardInvokeResponse(await botCommand.handleCardAction(context, { verb, data: invokeValue.action.data || {} }));
+    }
+
+    const command = getCommandForCardVerb(this.ssoCommands, verb);
+    telemetryService.trackCustomEvent('Card_Action_Invoked', {
+      userId,
+      conversationId,
+      verb: verb || 'none',
+      command: command?.name || 'none'
     });
+
+    if (!command?.handleCardAction) {
+      return {
+        statusCode: 400,
+        type: "application/vnd.microsoft.error",
+        value: { code: "BadRequest", message: `Unknown card action "${verb}"` },
+      };
+    }
+
+    const action: SSOCardAction = { verb, data: invokeValue.action.data || {} };
+    const result = await command.handleCardAction(context, action);
+    if (result.continueWithSSO) {
+      if (this.dialog) {
+        await this.dialog.run(context, this.dialogState, { commandMessage: command.name, cardAction: action });
+      } else {
+        await context.sendActivity(getLocalizer(context).t("bot.ssoUnavailable"));
+      }
+    }
+    return createCardInvokeResponse(result.card);
   }
 
-  public getConversationReferences(): { [key: string]: Partial<ConversationReference> } {
-    return this.conversationReferences;
+  // Search commands of the messaging extension (see messagingExtension/messagingExtensionHandler.ts)
+  async handleTeamsMessagingExtensionQuery(context: TurnContext, query: MessagingExtensionQuery): Promise<MessagingExtensionResponse> {
+    return this.messagingExtension.handleQuery(context, query);
+  }
+
+  // The message action, which asks about the selected message in a task module
+  async handleTeamsMessagingExtensionFetchTask(
+    context: TurnContext,
+    action: MessagingExtensionAction
+  ): Promise<MessagingExtensionActionResponse> {
+    return this.messagingExtension.handleFetchTask(context, action);
+  }
+
+  // Action commands of the messaging extension: the compose box form Teams builds from the command's
+  // parameters, and the steps of the message action's task module
+  async handleTeamsMessagingExtensionSubmitAction(
+    context: TurnContext,
+    action: MessagingExtensionAction
+  ): Promise<MessagingExtensionActionResponse> {
+    return this.messagingExtension.handleSubmitAction(context, action);
   }
 
   async run(context: TurnContext) {
-    await super.run(context);
+    // Teams delivers an activity again when the bot is slow to answer; the first delivery answers it.
+    // If that can't be checked, the activity is processed.
+    const claim = await this.activityDeduplicator.claim(context);
+    if (!claim.isNew) {
+      const { userId, conversationId } = telemetryService.extractTelemetryFromContext(context);
+      telemetryService.trackCustomEvent('Activity_Deduplicated', {
+        userId,
+        conversationId,
+        activityId: context.activity.id,
+        activityType: context.activity.type,
+        replays: claim.replays.toString()
+      });
+      return;
+    }
+
+    try {
+      // Text and cards are in the user's language setting, or else in the language of their Teams client
+      if (context.activity.from?.id) {
+        setTurnLocale(context, (await this.preferencesStore.get(context)).language);
+      }
+      await super.run(context);
 
-    // Save any state changes. The load happened during the execution of the Dialog.
-    await this.conversationState.saveChanges(context, false);
-    await this.userState.saveChanges(context, false);
+      // Save any state changes. The load happened during the execution of the Dialog.
+      await this.conversationState.saveChanges(context, false);
+      await this.userState.saveChanges(context, false);
+    } catch (error) {
+      // Let a redelivery of the activity try again
+      await this.activityDeduplicator.release(context).catch((releaseError) =>
+        console.warn('Could not release activity for redelivery:', releaseError instanceof Error ? releaseError.message : releaseError)
+      );
+      throw error;
+    }
   }
 
   async handleTeamsSigninVerifyState(
@@ -233,7 +883,11 @@ export class TeamsBot extends TeamsActivityHandler {
     console.log(
       "Running dialog with signin/verifystate from an Invoke Activity."
     );
-    if (this.dialog) {
+    // auth-end.html reports a declined consent, and Teams reports a closed popup, through the state
+    const failure = getSignInFailure(query?.state);
+    if (this.dialog && failure) {
+      await this.dialog.cancelSignIn(context, this.dialogState, failure);
+    } else if (this.dialog) {
       await this.dialog.run(context, this.dialogState);
     } else {
       console.warn("SSO Dialog not available for signin verification");
@@ -259,101 +913,49 @@ export class TeamsBot extends TeamsActivityHandler {
     }
   }
 
-  // outputs the AI response in the following format:
-  async getAIResponse(chat_id: string, session_id: string, message: string): Promise<string> {
-    const operationTimer = telemetryService.startOperation('External_AI_API');
-    
-    // Get agent url from environment variable
-    const url = process.env.AGENT_URL || "http://localhost:8989/agent_chat";
-
-    telemetryService.trackCustomEvent('External_AI_Request', {
-      sessionId: session_id,
-      chatId: chat_id,
-      url,
-      messageLength: message.length.toString()
-    });
-
-    // We can use the `Headers` constructor to create headers
-    // and assign it as the type of the `headers` variable
-    const headers: Headers = new Headers();
-    // Add standard headers
-    headers.set('Content-Type', 'application/json');
-    headers.set('Accept', 'application/json');
-    
-    // Add OpenTelemetry trace context for distributed tracing
-    // This connects your bot telemetry with the FastAPI service telemetry
-    const traceHeaders = telemetryService.getTraceHeaders();
-    Object.entries(traceHeaders).forEach(([key, value]) => {
-      if (typeof value === 'string') {
-        headers.set(key, value);
-      }
-    });
-
-    // Create the request object, which will be a RequestInfo type. 
-    // Here, we will pass in the URL as well as the options object as parameters.
-    const request: Request = new Request(url, {
-      method: 'POST',
-      headers: headers,
-      body: JSON.stringify({ session_id: session_id, message: message })
-    });
-
+  // outputs the AI response parsed into the agent response contract (see agent/agentResponse.ts)
+  // When onDelta is given and the agent streams (SSE or NDJSON), each text chunk is passed
+  // to it as it arrives; the complete response is returned either way.
+  // history holds the earlier turns of the conversation and is sent as context.
+  // accessToken is the user's token for the agent, when user auth is on.
+  // preferences are the user's settings (see preferences/userPreferences.ts).
+  // localizer is the user's locale, sent to the agent and used for error messages.
+  async getAIResponse(
+    chat_id: string,
+    session_id: string,
+    message: string,
+    onDelta?: (delta: string) => Promise<void> | void,
+    history: MessageHistoryItem[] = [],
+    accessToken?: string,
+    preferences?: AgentUserPreferences,
+    localizer: Localizer = getLocalizer()
+  ): Promise<AgentResponse> {
     try {
-      // Pass in the request object to the `fetch` API
-      const response = await fetch(request);
-      
-      if (!response.ok) {
-        const errorMessage = `HTTP error! status: ${response.status} calling URL: ${url}`;
-        telemetryService.trackCustomEvent('External_AI_Error', {
-          sessionId: session_id,
-          chatId: chat_id,
-          url,
-          statusCode: response.status.toString(),
-          error: errorMessage
-        });
-        
-        operationTimer.stop(false, errorMessage);
-        throw new Error(errorMessage);
-      }
-      
-      const data = await response.json();
-      
-      // Extract the response text from the API response
-      // This depends on your API's response format
-      let responseText: string;
-      if (data && data.response) {
-        responseText = data.response;
-      } else if (data && data.message) {
-        responseText = data.message;
-      } else if (typeof data === 'string') {
-        responseText = data;
-      } else {
-        responseText = JSON.stringify(data);
-      }
-      
-      telemetryService.trackCustomEvent('External_AI_Success', {
-        sessionId: session_id,
+      return await agentClient.chat({
         chatId: chat_id,
-        url,
-        responseLength: responseText.length.toString()
+        sessionId: session_id,
+        message,
+        history,
+        onDelta,
+        accessToken,
+        preferences,
+        locale: localizer.locale,
       });
-      
-      operationTimer.stop(true);
-      return responseText;
     } catch (error) {
-      console.error('Fetch error:', error);
+      console.error('Agent error:', error);
+      if (error instanceof AgentError && error.kind === "unauthorized" && accessToken) {
+        // The next message signs the user in again rather than resending a rejected token
+        agentTokenProvider.invalidate(accessToken);
+      }
       
-      const errorMessage = error instanceof Error ? error.message : String(error);
       telemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
         sessionId: session_id,
         chatId: chat_id,
-        url,
         operation: 'External_AI_API'
       });
       
-      operationTimer.stop(false, errorMessage);
-      
-      // Return a fallback message instead of the error object
-      return `Sorry, I encountered an error while processing your request: ${errorMessage}`;
+      // Return a friendly message instead of the error object
+      return createAgentResponse({ text: getAgentErrorMessage(error, localizer), failed: true });
     }
   }
 
@@ -365,59 +967,34 @@ export class TeamsBot extends TeamsActivityHandler {
     telemetryService.trackCustomEvent('Clear_History_Started', {
       sessionId: session_id,
       userId,
-      conversationId,
-      previousReferences: Object.keys(this.conversationReferences).length.toString()
+      conversationId
     });
     
-    // Clear the conversation references
-    this.conversationReferences = {};
-    // Optionally, clear the message history accessor if implemented
-    this.messageHistoryAccessor.set(context, []);
-    const clearHistoryUrl = process.env.CLEAR_HISTORY_URL || "http://localhost:8989/clear_history";
+    // The local history is always dropped, even if the agent can't be reached
+    await this.messageHistoryAccessor.delete(context);
     
     try {
-      await context.sendActivity("Clearing conversation history...");
-      await context.sendActivity(clearHistoryUrl);
-      const body = JSON.stringify({ session_id: session_id });
-      await context.sendActivity(body);
+      // No sign-in prompt here; the agent gets the user's token if one is cached
+      await agentClient.clearHistory(session_id, agentTokenProvider.enabled ? agentTokenProvider.getCachedToken(context) : undefined);
       
-      const response = await fetch(clearHistoryUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: body
+      telemetryService.trackCustomEvent('Clear_History_Success', {
+        sessionId: session_id,
+        userId,
+        conversationId
       });
-
-      if (response.ok) {
-        telemetryService.trackCustomEvent('Clear_History_Success', {
-          sessionId: session_id,
-          userId,
-          conversationId,
-          url: clearHistoryUrl
-        });
-        
-        operationTimer.stop(true);
-        return true;
-      } else {
-        const errorMessage = `Clear history failed with status: ${response.status}`;
-        telemetryService.trackCustomEvent('Clear_History_Failed', {
-          sessionId: session_id,
-          userId,
-          conversationId,
-          url: clearHistoryUrl,
-          statusCode: response.status.toString(),
-          error: errorMessage
-        });
-        
-        operationTimer.stop(false, errorMessage);
-        return false;
-      }
-
+      
+      operationTimer.stop(true);
+      return true;
     } catch (error) {
-      console.error('Fetch error:', error);
+      console.error('Agent error:', error);
       
       const errorMessage = error instanceof Error ? error.message : String(error);
+      telemetryService.trackCustomEvent('Clear_History_Failed', {
+        sessionId: session_id,
+        userId,
+        conversationId,
+        error: errorMessage
+      });
       telemetryService.trackException(error instanceof Error ? error : new Error(String(error)), {
         sessionId: session_id,
         userId,
@@ -425,254 +1002,30 @@ export class TeamsBot extends TeamsActivityHandler {
         operation: 'Clear_Conversation_History'
       });
       
-      await context.sendActivity(errorMessage);
+      await context.sendActivity(getAgentErrorMessage(error, getLocalizer(context)));
       operationTimer.stop(false, errorMessage);
     }
 
     return false;
   }
+ }
 
+// Session owner for the sessions shared by a group chat or channel thread
+const SHARED_SESSION_OWNER = "conversation";
 
-  
-
-  // Process AI response, handling both JSON and plain text responses
-  processAIResponse(response: string): string {
-    try {
-      // Try to parse as JSON first
-      const jsonResponse = JSON.parse(response);
-      
-      // Check if it's an array of conversation messages
-      if (Array.isArray(jsonResponse)) {
-        return this.processConversationArray(jsonResponse);
-      }
-      
-      // Check if it's a single message object
-      if (jsonResponse.role && jsonResponse.content) {
-        return jsonResponse.content;
-      }
-      
-      // Check if it has a specific response field
-      if (jsonResponse.response) {
-        return jsonResponse.response;
-      }
-      
-      // Check if it has a message field
-      if (jsonResponse.message) {
-        return jsonResponse.message;
-      }
-      
-      // If it's a tool call response, extract relevant information
-      if (jsonResponse.tool_calls || jsonResponse.function_call) {
-        return this.processToolCallResponse(jsonResponse);
-      }
-      
-      // For other JSON objects, try to extract meaningful content
-      return this.extractMeaningfulContent(jsonResponse);
-      
-    } catch (error) {
-      // If parsing fails, treat as plain text
-      console.log('Response is not JSON, treating as plain text');
-      return response;
-    }
-  }
-
-  // Process an array of conversation messages
-  private processConversationArray(messages: any[]): string {
-    const lastMessage = messages[messages.length - 1];
-    
-    // If the last message is from assistant, return its content
-    if (lastMessage && lastMessage.role === 'assistant') {
-      return lastMessage.content || 'No content in assistant response';
-    }
-    
-    // Look for tool results or function calls
-    const toolResults = messages.filter(msg => msg.role === 'tool');
-    if (toolResults.length > 0) {
-      return this.processToolResults(toolResults);
-    }
-    
-    // Fallback: return a summary of the conversation
-    return `Received ${messages.length} messages. Last message: ${lastMessage?.content || 'No content'}`;
-  }
-
-  // Process tool call responses
-  private processToolCallResponse(response: any): string {
-    if (response.tool_calls) {
-      const toolCall = response.tool_calls[0];
-      return `Executed tool: ${toolCall.function?.name || 'Unknown'} with result: ${JSON.stringify(toolCall.function?.arguments || {})}`;
-    }
-    
-    if (response.function_call) {
-      return `Function call: ${response.function_call.name} with arguments: ${response.function_call.arguments}`;
-    }
-    
-    return 'Tool call response received';
-  }
-
-  // Process tool results
-  private processToolResults(toolResults: any[]): string {
-    if (toolResults.length === 1) {
-      const result = toolResults[0];
-      try {
-        // Try to parse the tool result content
-        const parsedContent = JSON.parse(result.content);
-        
-        // If it's user data from Microsoft Graph API
-        if (Array.isArray(parsedContent) && parsedContent[0]?.display_name) {
-          return this.formatUserList(parsedContent);
-        }
-        
-        return `Tool result: ${result.content}`;
-      } catch {
-        return `Tool result: ${result.content}`;
-      }
-    }
-    
-    return `Received ${toolResults.length} tool results`;
-  }
-
-  // Format user list from Microsoft Graph API
-  private formatUserList(users: any[]): string {
-    if (users.length === 0) {
-      return 'No users found.';
-    }
-    
-    let formatted = `Found ${users.length} user(s):\n\n`;
-    
-    users.forEach((user, index) => {
-      formatted += `${index + 1}. **${user.display_name || 'No name'}**\n`;
-      if (user.job_title) formatted += `   • Job Title: ${user.job_title}\n`;
-      if (user.department) formatted += `   • Department: ${user.department}\n`;
-      if (user.mail) formatted += `   • Email: ${user.mail}\n`;
-      formatted += '\n';
-    });
-    
-    return formatted;
-  }
-
-  // Extract meaningful content from generic JSON objects
-  private extractMeaningfulContent(obj: any): string {
-    // Common fields that might contain meaningful content
-    const contentFields = ['content', 'text', 'message', 'response', 'result', 'data'];
-    
-    for (const field of contentFields) {
-      if (obj[field] && typeof obj[field] === 'string') {
-        return obj[field];
-      }
-    }
-    
-    // If no meaningful field found, stringify the object
-    return JSON.stringify(obj, null, 2);
-  }
-
-  // Parse conversation response and extract items for history
-  parseConversationResponse(response: string): { displayMessage: string, conversationItems: MessageHistoryItem[] } {
-    try {
-      const parsedResponse = JSON.parse(response);
-      const conversationItems: MessageHistoryItem[] = [];
-      let displayMessage = '';
-
-      // Check if it's an array of conversation messages (like your sample)
-      if (Array.isArray(parsedResponse)) {
-        // Filter out system messages and process the conversation
-        const relevantMessages = parsedResponse.filter(msg => 
-          msg.role && ['user', 'assistant', 'tool'].includes(msg.role)
-        );
-
-        // Add all relevant messages to conversation items
-        relevantMessages.forEach(msg => {
-          if (msg.role === 'user' || msg.role === 'assistant') {
-            conversationItems.push({
-              role: msg.role,
-              content: msg.content || ''
-            });
-          } else if (msg.role === 'tool') {
-            // Tool messages are added to history as-is, without processing for display
-            conversationItems.push({
-              role: 'tool',
-              content: msg.content || ''
-            });
-          }
-        });
-
-        // Get the last assistant message for display
-        const lastAssistantMessage = relevantMessages
-          .filter(msg => msg.role === 'assistant')
-          .pop();
-
-        if (lastAssistantMessage) {
-          displayMessage = lastAssistantMessage.content || 'Response received';
-        } else {
-          // If no assistant message, show a generic message
-          displayMessage = 'Conversation processed successfully';
-        }
-      } else {
-        // Handle single message objects
-        conversationItems.push({
-          role: 'assistant',
-          content: response
-        });
-        displayMessage = response;
-      }
+const SIGN_IN_FAILURES = ["CancelledByUser", "ConsentDeclined", "AuthenticationFailed"];
 
-      return { displayMessage, conversationItems };
-    } catch (error) {
-      console.log('Failed to parse as conversation JSON, treating as simple text');
-      return {
-        displayMessage: response,
-        conversationItems: [{ role: 'assistant', content: response }]
-      };
-    }
-  }
+function getSignInFailure(state: unknown): string | undefined {
+  const text = typeof state === "string" ? state : JSON.stringify(state ?? "");
+  return SIGN_IN_FAILURES.find((failure) => text.includes(failure));
+}
 
-  // Process tool content to extract meaningful information
-  private processToolContent(toolContent: string): string {
-    try {
-      // Check if tool content contains user data (Python objects)
-      if (toolContent.includes('User(') && toolContent.includes('display_name=')) {
-        return this.extractUserDataFromToolContent(toolContent);
-      }
-      
-      // Try to parse as JSON
-      const parsed = JSON.parse(toolContent);
-      if (Array.isArray(parsed) && parsed[0]?.display_name) {
-        return this.formatUserList(parsed);
-      }
-      
-      return toolContent;
-    } catch {
-      return toolContent;
-    }
-  }
+// Group chats and team channels, as opposed to the user's personal chat with the bot
+function isGroupConversation(activity: Activity): boolean {
+  const conversationType = activity.conversation?.conversationType;
+  return conversationType === "groupChat" || conversationType === "channel";
+}
 
-  // Extract user data from Python object string representation
-  private extractUserDataFromToolContent(content: string): string {
-    const userMatches = content.match(/User\([^)]+display_name='([^']+)'[^)]+job_title='([^']*)'[^)]+department='([^']*)'[^)]+mail='([^']*)'/g);
-    
-    if (userMatches && userMatches.length > 0) {
-      let formatted = `Found ${userMatches.length} user(s):\n\n`;
-      
-      userMatches.forEach((match, index) => {
-        const nameMatch = match.match(/display_name='([^']+)'/);
-        const jobMatch = match.match(/job_title='([^']*)'/);
-        const deptMatch = match.match(/department='([^']*)'/);
-        const emailMatch = match.match(/mail='([^']*)'/);
-        
-        const name = nameMatch ? nameMatch[1] : 'Unknown';
-        const job = jobMatch ? jobMatch[1] : '';
-        const dept = deptMatch ? deptMatch[1] : '';
-        const email = emailMatch ? emailMatch[1] : '';
-        
-        formatted += `${index + 1}. **${name}**\n`;
-        if (job) formatted += `   • Job Title: ${job}\n`;
-        if (dept) formatted += `   • Department: ${dept}\n`;
-        if (email) formatted += `   • Email: ${email}\n`;
-        formatted += '\n';
-      });
-      
-      return formatted;
-    }
-    
-    return content;
-  }
- }
+function isBotMentioned(activity: Activity): boolean {
+  return TurnContext.getMentions(activity).some((mention) => mention.mentioned?.id === activity.recipient?.id);
+}
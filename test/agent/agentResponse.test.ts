@@ -0,0 +1,44 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseAgentResponse } from "../../src/agent/agentResponse";
+import { renderAgentResponse } from "../../src/agent/agentResponseRenderer";
+import { getLocalizer } from "../../src/localization";
+
+describe("parseAgentResponse", () => {
+  it("reads the versioned contract and skips malformed entries", () => {
+    const response = parseAgentResponse({
+      version: "1",
+      text: "Here you go",
+      users: [{ id: "u1", display_name: "Ada", job_title: "" }, { id: "u2" }, "Grace"],
+      suggested_actions: [{ title: "Book 10:00" }, { value: "no title" }],
+      attachments: [{ content_type: "application/vnd.microsoft.card.adaptive", content: {} }, { content: {} }],
+      messages: [{ role: "assistant", content: "Here you go" }, { role: "robot", content: "?" }],
+    });
+
+    assert.equal(response.text, "Here you go");
+    assert.deepEqual(response.users, [
+      { id: "u1", displayName: "Ada", jobTitle: undefined, department: undefined, mail: undefined, userPrincipalName: undefined },
+    ]);
+    assert.deepEqual(response.suggestedActions, [{ title: "Book 10:00", value: "Book 10:00" }]);
+    assert.equal(response.attachments.length, 1);
+    assert.equal(response.messages.length, 1);
+  });
+
+  it("finds users in tool messages of a chat message array", () => {
+    const response = parseAgentResponse([
+      { role: "user", content: "who is Ada?" },
+      { role: "tool", name: "search_users", content: JSON.stringify([{ display_name: "Ada" }]) },
+    ]);
+
+    assert.equal(response.text, undefined);
+    assert.deepEqual(response.users.map((user) => user.displayName), ["Ada"]);
+  });
+
+  it("leaves the text of an answerless chat to the renderer, in the user's language", () => {
+    const response = parseAgentResponse([{ role: "user", content: "hallo" }, { role: "assistant", content: "" }]);
+
+    assert.equal(response.text, undefined);
+    const localizer = getLocalizer("de-DE");
+    assert.equal(renderAgentResponse(response, localizer).text, localizer.t("agent.responseReceived"));
+  });
+});
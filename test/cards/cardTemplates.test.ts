@@ -0,0 +1,16 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CardTemplateNotFoundError, getCardTemplateNames, renderCardTemplate } from "../../src/cards/cardTemplates";
+
+describe("renderCardTemplate", () => {
+  it("renders a registered template", () => {
+    assert.ok(getCardTemplateNames().includes("notification"));
+    assert.equal(renderCardTemplate("notification", { title: "Build failed" }).type, "AdaptiveCard");
+  });
+
+  for (const name of ["constructor", "toString", "__proto__", "hasOwnProperty"]) {
+    it(`doesn't take "${name}" for a template`, () => {
+      assert.throws(() => renderCardTemplate(name), CardTemplateNotFoundError);
+    });
+  }
+});
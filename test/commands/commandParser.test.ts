@@ -0,0 +1,27 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CommandDefinition, CommandParseError, parseCommandArgs } from "../../src/commands/commandParser";
+
+const agenda: CommandDefinition = {
+  name: "agenda",
+  description: "Show your agenda",
+  args: [{ name: "from", type: "date", default: "today" }],
+};
+
+describe("parseCommandArgs", () => {
+  it("reads date words relative to the user's day", () => {
+    const args = parseCommandArgs(agenda, "tomorrow", { today: "2025-01-31" });
+
+    assert.equal((args.from as Date).toISOString(), "2025-02-01T00:00:00.000Z");
+  });
+
+  for (const input of ["constructor", "__proto__", "toString", "garbage", "2025-02-30", "9999-99-99"]) {
+    it(`doesn't take "${input}" for a date`, () => {
+      assert.throws(() => parseCommandArgs(agenda, input, { today: "2025-01-31" }), CommandParseError);
+    });
+  }
+
+  it("doesn't return an Invalid Date for a malformed day", () => {
+    assert.throws(() => parseCommandArgs(agenda, "today", { today: "not-a-date" }), CommandParseError);
+  });
+});
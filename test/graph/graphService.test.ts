@@ -0,0 +1,53 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import config from "../../src/config";
+import { GraphClientFactory } from "../../src/graph/graphService";
+
+describe("GraphClientFactory", () => {
+  const originalFetch = global.fetch;
+  const originalMockAuth = config.graphMockAuth;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    config.graphMockAuth = originalMockAuth;
+  });
+
+  // Graph answers each request with the statuses in turn; Retry-After: 0 keeps the retries instant
+  function answerWith(statuses: number[]): { methods: string[] } {
+    const calls = { methods: [] as string[] };
+    config.graphMockAuth = true;
+    global.fetch = (async (request: RequestInfo, options: RequestInit) => {
+      calls.methods.push((options?.method || "GET").toUpperCase());
+      const status = statuses.shift() ?? 200;
+      return new Response(status === 200 ? "{}" : "", {
+        status,
+        headers: { "Content-Type": "application/json", "Retry-After": "0" },
+      });
+    }) as typeof fetch;
+    return calls;
+  }
+
+  it("retries a GET after a 503", async () => {
+    const calls = answerWith([503, 200]);
+
+    await new GraphClientFactory().create("sso-token", ["User.Read"]).get("/me");
+
+    assert.deepEqual(calls.methods, ["GET", "GET"]);
+  });
+
+  it("doesn't replay a POST after a 503", async () => {
+    const calls = answerWith([503, 200]);
+
+    await assert.rejects(new GraphClientFactory().create("sso-token", ["User.Read"]).post("/me/events", { subject: "Sync" }));
+
+    assert.deepEqual(calls.methods, ["POST"]);
+  });
+
+  it("retries a throttled POST", async () => {
+    const calls = answerWith([429, 200]);
+
+    await new GraphClientFactory().create("sso-token", ["User.Read"]).post("/me/events", { subject: "Sync" });
+
+    assert.deepEqual(calls.methods, ["POST", "POST"]);
+  });
+});
@@ -0,0 +1,17 @@
+import { MemoryStorage, StoreItems } from "botbuilder";
+
+/**
+ * MemoryStorage that runs a test's hook before each write, e.g. to let another instance write
+ * first or to make the write fail.
+ */
+export class InterceptingStorage extends MemoryStorage {
+  beforeWrite?: (changes: StoreItems) => Promise<void>;
+
+  async write(changes: StoreItems): Promise<void> {
+    const beforeWrite = this.beforeWrite;
+    if (beforeWrite) {
+      await beforeWrite(changes);
+    }
+    return super.write(changes);
+  }
+}
@@ -0,0 +1,104 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemoryStorage, TurnContext } from "botbuilder";
+import { ActivityDeduplicator } from "../../src/idempotency";
+import { InterceptingStorage } from "../helpers/interceptingStorage";
+
+const RECORD_KEY = "activityDedup/msteams/conversation-1";
+
+function createContext(id: string, type = "message"): TurnContext {
+  return {
+    activity: { id, type, channelId: "msteams", conversation: { id: "conversation-1" }, from: { id: "user-1" } },
+  } as unknown as TurnContext;
+}
+
+describe("ActivityDeduplicator", () => {
+  it("recognises a redelivered activity on another instance", async () => {
+    const storage = new MemoryStorage();
+    const first = new ActivityDeduplicator(storage, 60);
+    const second = new ActivityDeduplicator(storage, 60);
+
+    assert.deepEqual(await first.claim(createContext("activity-1")), { isNew: true, replays: 0 });
+    assert.deepEqual(await second.claim(createContext("activity-1")), { isNew: false, replays: 1 });
+    assert.deepEqual(await first.claim(createContext("activity-1")), { isNew: false, replays: 2 });
+    assert.equal((await second.claim(createContext("activity-2"))).isNew, true);
+  });
+
+  it("lets exactly one of several concurrent deliveries through", async () => {
+    const storage = new MemoryStorage();
+    const deduplicators = [1, 2, 3, 4].map(() => new ActivityDeduplicator(storage, 60));
+
+    const claims = await Promise.all(deduplicators.map((deduplicator) => deduplicator.claim(createContext("activity-1"))));
+
+    assert.equal(claims.filter((claim) => claim.isNew).length, 1);
+  });
+
+  it("keeps both activities when deliveries of different activities conflict", async () => {
+    const storage = new InterceptingStorage();
+    const deduplicator = new ActivityDeduplicator(storage, 60);
+    const other = new ActivityDeduplicator(storage, 60);
+    await deduplicator.claim(createContext("activity-1"));
+
+    storage.beforeWrite = async () => {
+      storage.beforeWrite = undefined;
+      await other.claim(createContext("activity-2"));
+    };
+    assert.equal((await deduplicator.claim(createContext("activity-3"))).isNew, true);
+
+    const record = (await storage.read([RECORD_KEY]))[RECORD_KEY];
+    assert.deepEqual(Object.keys(record.ids).sort(), ["activity-1", "activity-2", "activity-3"]);
+  });
+
+  it("processes an activity again after it was released or expired", async () => {
+    const storage = new MemoryStorage();
+    const deduplicator = new ActivityDeduplicator(storage, 60);
+    await deduplicator.claim(createContext("activity-1"));
+    await deduplicator.release(createContext("activity-1"));
+    assert.equal((await deduplicator.claim(createContext("activity-1"))).isNew, true);
+
+    const expiring = new ActivityDeduplicator(storage, 0.05);
+    await expiring.claim(createContext("activity-2"));
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    assert.equal((await expiring.claim(createContext("activity-2"))).isNew, true);
+  });
+
+  it("leaves invokes alone", async () => {
+    const storage = new MemoryStorage();
+    const deduplicator = new ActivityDeduplicator(storage, 60);
+
+    await deduplicator.claim(createContext("invoke-1", "invoke"));
+    assert.equal((await deduplicator.claim(createContext("invoke-1", "invoke"))).isNew, true);
+    assert.deepEqual(await storage.read([RECORD_KEY]), {});
+  });
+
+  it("processes the activity when storage fails", async () => {
+    const storage = new MemoryStorage();
+    storage.read = async () => {
+      throw new Error("Service unavailable");
+    };
+
+    assert.equal((await new ActivityDeduplicator(storage, 60).claim(createContext("activity-1"))).isNew, true);
+  });
+
+  it("processes the activity when the record stays contended", async () => {
+    const storage = new InterceptingStorage();
+    let writes = 0;
+    storage.beforeWrite = async () => {
+      writes++;
+      throw new Error(`Storage: error writing "${RECORD_KEY}" due to eTag conflict.`);
+    };
+
+    assert.equal((await new ActivityDeduplicator(storage, 60).claim(createContext("activity-1"))).isNew, true);
+    assert.equal(writes, 5);
+  });
+
+  it("deletes the conversation's record", async () => {
+    const storage = new MemoryStorage();
+    const deduplicator = new ActivityDeduplicator(storage, 60);
+    await deduplicator.claim(createContext("activity-1"));
+
+    await deduplicator.removeConversation("msteams", "conversation-1");
+
+    assert.deepEqual(await storage.read([RECORD_KEY]), {});
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemoryStorage, TurnContext } from "botbuilder";
+import { TokenExchangeDeduplicator } from "../../src/idempotency";
+
+const RECORD_KEY = "tokenExchangeDedup/msteams/conversation-1";
+
+function createContext(exchangeId: string, conversationId = "conversation-1"): TurnContext {
+  return {
+    activity: {
+      type: "invoke",
+      name: "signin/tokenExchange",
+      channelId: "msteams",
+      conversation: { id: conversationId },
+      value: { id: exchangeId },
+    },
+  } as unknown as TurnContext;
+}
+
+describe("TokenExchangeDeduplicator", () => {
+  it("lets exactly one of the concurrent exchanges from the user's clients through", async () => {
+    const storage = new MemoryStorage();
+    const deduplicators = [1, 2, 3, 4].map(() => new TokenExchangeDeduplicator(storage, 60));
+
+    const claimed = await Promise.all(deduplicators.map((deduplicator) => deduplicator.claim(createContext("exchange-1"))));
+
+    assert.equal(claimed.filter(Boolean).length, 1);
+    assert.equal(await deduplicators[0].claim(createContext("exchange-1", "conversation-2")), true);
+  });
+
+  it("drops expired claims from the record", async () => {
+    const storage = new MemoryStorage();
+    const deduplicator = new TokenExchangeDeduplicator(storage, 0.05);
+    await deduplicator.claim(createContext("exchange-1"));
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    assert.equal(await deduplicator.claim(createContext("exchange-2")), true);
+
+    const record = (await storage.read([RECORD_KEY]))[RECORD_KEY];
+    assert.deepEqual(Object.keys(record.ids), ["exchange-2"]);
+  });
+
+  it("keeps a bounded number of claims per conversation", async () => {
+    const storage = new MemoryStorage();
+    const deduplicator = new TokenExchangeDeduplicator(storage, 60);
+    for (let i = 0; i < 60; i++) {
+      await deduplicator.claim(createContext(`exchange-${i}`));
+    }
+
+    const record = (await storage.read([RECORD_KEY]))[RECORD_KEY];
+    assert.equal(Object.keys(record.ids).length, 50);
+  });
+
+  it("throws storage failures instead of taking the exchange for a duplicate", async () => {
+    const storage = new MemoryStorage();
+    storage.write = async () => {
+      throw new Error("Service unavailable");
+    };
+
+    await assert.rejects(new TokenExchangeDeduplicator(storage, 60).claim(createContext("exchange-1")), /Service unavailable/);
+  });
+
+  it("only claims signin/tokenExchange invokes", async () => {
+    const context = { activity: { type: "message", channelId: "msteams", conversation: { id: "conversation-1" } } } as TurnContext;
+
+    await assert.rejects(new TokenExchangeDeduplicator(new MemoryStorage(), 60).claim(context), /signin\/tokenExchange/);
+  });
+
+  it("deletes the conversation's record", async () => {
+    const storage = new MemoryStorage();
+    const deduplicator = new TokenExchangeDeduplicator(storage, 60);
+    await deduplicator.claim(createContext("exchange-1"));
+
+    await deduplicator.removeConversation("msteams", "conversation-1");
+
+    assert.deepEqual(await storage.read([RECORD_KEY]), {});
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MessagingExtensionQuery, TurnContext } from "botbuilder";
+import { MessagingExtensionHandler } from "../../src/messagingExtension/messagingExtensionHandler";
+import { getLocalizer } from "../../src/localization";
+
+function createContext(): TurnContext {
+  return {
+    activity: { type: "invoke", locale: "en-US", from: { id: "user-1" }, conversation: { id: "conversation-1" } },
+    turnState: new Map(),
+  } as unknown as TurnContext;
+}
+
+describe("MessagingExtensionHandler.handleQuery", () => {
+  const handler = new MessagingExtensionHandler(
+    async () => { throw new Error("not asked"); },
+    async () => false
+  );
+
+  for (const commandId of ["unknownCommand", "toString", "constructor", "__proto__"]) {
+    it(`answers "${commandId}" as an unknown search`, async () => {
+      const query: MessagingExtensionQuery = { commandId, parameters: [{ name: "searchQuery", value: "ada" }] };
+
+      const response = await handler.handleQuery(createContext(), query);
+
+      assert.deepEqual(response.composeExtension, {
+        type: "message",
+        text: getLocalizer("en-US").t("messagingExtension.unknownSearch", { command: commandId }),
+      });
+    });
+  }
+});
@@ -0,0 +1,52 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Activity, MemoryStorage } from "botbuilder";
+import { ConversationReferenceStore } from "../../src/proactive";
+
+function createActivity(userNumber: number): Partial<Activity> {
+  return {
+    type: "message",
+    channelId: "msteams",
+    serviceUrl: "https://smba.example",
+    from: { id: `29:user-${userNumber}`, aadObjectId: `aad-${userNumber}`, name: `User ${userNumber}` },
+    recipient: { id: "28:bot", name: "Bot" },
+    conversation: { id: `a:personal-${userNumber}`, conversationType: "personal", tenantId: "tenant-1", isGroup: false, name: "" },
+  };
+}
+
+describe("ConversationReferenceStore", () => {
+  it("keeps every user added concurrently on several instances", async () => {
+    const storage = new MemoryStorage();
+    const stores = [1, 2, 3].map(() => new ConversationReferenceStore(storage));
+
+    await Promise.all(
+      Array.from({ length: 12 }, (_, i) => stores[i % stores.length].addFromActivity(createActivity(i), `user${i}@example.com`))
+    );
+
+    assert.equal((await stores[0].listUserKeys()).length, 12);
+    assert.equal((await stores[1].findUser("USER7@example.com"))?.userKey, "aad-7");
+    assert.equal((await stores[2].findUser("29:user-3"))?.userKey, "aad-3");
+  });
+
+  it("creates a new user only once when two instances add them at the same time", async () => {
+    const storage = new MemoryStorage();
+    const [first, second] = [1, 2].map(() => new ConversationReferenceStore(storage));
+    const group = { ...createActivity(1), conversation: { id: "19:group", conversationType: "groupChat", isGroup: true, name: "" } };
+
+    await Promise.all([first.addFromActivity(createActivity(1)), second.addFromActivity(group)]);
+
+    const record = await first.getUser("aad-1");
+    assert.deepEqual(Object.keys(record.conversations).sort(), ["19:group", "a:personal-1"]);
+  });
+
+  it("removes a user from the directory", async () => {
+    const store = new ConversationReferenceStore(new MemoryStorage());
+    await store.addFromActivity(createActivity(1));
+    await store.addFromActivity(createActivity(2));
+
+    await store.removeUser("aad-1");
+
+    assert.deepEqual(await store.listUserKeys(), ["aad-2"]);
+    assert.equal(await store.findUser("aad-1"), undefined);
+  });
+});
@@ -0,0 +1,70 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac, generateKeyPairSync } from "crypto";
+import { MemoryStorage } from "botbuilder";
+import { sign } from "jsonwebtoken";
+import { AuthenticatedNotifyRequest, NotifyAuthenticator, NotifyCaller } from "../../src/proactive/notifyAuth";
+
+const caller: NotifyCaller = { id: "backend", hmacSecret: "secret", allowedUsers: ["*"], allowedTenants: ["*"] };
+
+function createSignedRequest(body: string): AuthenticatedNotifyRequest {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const headers: { [name: string]: string } = {
+    "x-notify-caller": caller.id,
+    "x-notify-timestamp": timestamp,
+    "x-notify-signature": "sha256=" + createHmac("sha256", caller.hmacSecret).update(`${timestamp}.${body}`).digest("hex"),
+  };
+  return { header: (name: string) => headers[name.toLowerCase()], rawBody: Buffer.from(body) } as unknown as AuthenticatedNotifyRequest;
+}
+
+function createBearerRequest(kid: string): AuthenticatedNotifyRequest {
+  const { privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const token = sign({ azp: "app" }, privateKey, { algorithm: "RS256", keyid: kid });
+  const headers: { [name: string]: string } = { authorization: `Bearer ${token}` };
+  return { header: (name: string) => headers[name.toLowerCase()] } as unknown as AuthenticatedNotifyRequest;
+}
+
+describe("NotifyAuthenticator", () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it("accepts a signed request once across instances sharing the storage", async () => {
+    const storage = new MemoryStorage();
+    const instances = [new NotifyAuthenticator(storage, [caller], ["hmac"]), new NotifyAuthenticator(storage, [caller], ["hmac"])];
+    const request = createSignedRequest('{"user_id":"user-1"}');
+
+    const results = await Promise.allSettled(instances.map((instance) => instance.authenticate(request)));
+
+    assert.equal(results.filter((result) => result.status === "fulfilled").length, 1);
+    const rejected = results.find((result) => result.status === "rejected") as PromiseRejectedResult;
+    assert.equal(rejected.reason.message, "Replayed request");
+  });
+
+  it("rejects a signed request when the replay check can't reach the storage", async () => {
+    const storage = new MemoryStorage();
+    storage.read = async () => {
+      throw new Error("storage unavailable");
+    };
+    const authenticator = new NotifyAuthenticator(storage, [caller], ["hmac"]);
+
+    await assert.rejects(authenticator.authenticate(createSignedRequest("{}")), /storage unavailable/);
+  });
+
+  it("refetches the signing keys for unknown key ids at most once a minute", async () => {
+    let fetches = 0;
+    global.fetch = (async () => {
+      fetches++;
+      return { ok: true, status: 200, json: async () => ({ keys: [] }) };
+    }) as unknown as typeof fetch;
+    const authenticator = new NotifyAuthenticator(new MemoryStorage(), [{ id: "entra", appIds: ["app"] }], ["entra"]);
+
+    for (const kid of ["kid-1", "kid-2", "kid-3"]) {
+      await assert.rejects(authenticator.authenticate(createBearerRequest(kid)), /Unknown signing key/);
+    }
+
+    assert.equal(fetches, 1);
+  });
+});
@@ -0,0 +1,135 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemoryStorage } from "botbuilder";
+import config from "../../src/config";
+import { NotifyJob, NotifyJobManager, NotifyJobValidationError } from "../../src/proactive/notifyJobs";
+import { ConversationReferenceStore } from "../../src/proactive/conversationReferenceStore";
+import { DeliveryResult, ProactiveMessenger } from "../../src/proactive/proactiveMessenger";
+
+const caller = { id: "backend" };
+
+function createJob(heartbeatAt: Date): NotifyJob {
+  return {
+    jobId: "job-1",
+    callerId: caller.id,
+    status: "running",
+    createdAt: new Date(heartbeatAt.getTime() - 60 * 1000).toISOString(),
+    heartbeatAt: heartbeatAt.toISOString(),
+    counts: { total: 2, pending: 1, sent: 1, notFound: 0, optedOut: 0, failed: 0 },
+    recipients: { "user-1": { status: "sent", attempts: 1 }, "user-2": { status: "pending", attempts: 0 } },
+  };
+}
+
+function createManager(storage: MemoryStorage): NotifyJobManager {
+  return new NotifyJobManager(storage, {} as ConversationReferenceStore, {} as ProactiveMessenger);
+}
+
+function createRunningManager(storage: MemoryStorage, deliver: (recipient: string) => Promise<DeliveryResult>): NotifyJobManager {
+  const store = { listUserKeys: async () => ["user-1", "user-2", "user-3"] } as unknown as ConversationReferenceStore;
+  return new NotifyJobManager(storage, store, { deliver } as unknown as ProactiveMessenger);
+}
+
+async function waitUntilFinished(manager: NotifyJobManager, jobId: string): Promise<NotifyJob | undefined> {
+  for (let tries = 0; tries < 100; tries++) {
+    const job = await manager.getJob(jobId, caller);
+    if (job?.status !== "running") {
+      return job;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  return manager.getJob(jobId, caller);
+}
+
+describe("NotifyJobManager", () => {
+  const originalMaxRecipients = config.notifyBatchMaxRecipients;
+
+  afterEach(() => {
+    config.notifyBatchMaxRecipients = originalMaxRecipients;
+  });
+
+  it("marks a running job whose heartbeat stopped as interrupted", async () => {
+    const storage = new MemoryStorage();
+    await storage.write({ "notifyJobs/job-1": createJob(new Date(Date.now() - 10 * 60 * 1000)) });
+
+    const job = await createManager(storage).getJob("job-1", caller);
+
+    assert.equal(job?.status, "interrupted");
+    assert.equal(job?.counts.pending, 1);
+    const stored = (await storage.read(["notifyJobs/job-1"]))["notifyJobs/job-1"];
+    assert.equal(stored.status, "interrupted");
+  });
+
+  it("leaves a job with a recent heartbeat running", async () => {
+    const storage = new MemoryStorage();
+    await storage.write({ "notifyJobs/job-1": createJob(new Date()) });
+
+    const job = await createManager(storage).getJob("job-1", caller);
+
+    assert.equal(job?.status, "running");
+  });
+
+  it("keeps a job running when its instance saves it while it is being marked", async () => {
+    const storage = new MemoryStorage();
+    await storage.write({ "notifyJobs/job-1": createJob(new Date(Date.now() - 10 * 60 * 1000)) });
+    const read = storage.read.bind(storage);
+    let reads = 0;
+    storage.read = async (keys) => {
+      const items = await read(keys);
+      if (++reads === 1) {
+        await storage.write({ "notifyJobs/job-1": { ...createJob(new Date()), eTag: "*" } });
+      }
+      return items;
+    };
+
+    const job = await createManager(storage).getJob("job-1", caller);
+
+    assert.equal(job?.status, "running");
+  });
+
+  it("records a recipient whose delivery threw as failed and completes the job", async () => {
+    const manager = createRunningManager(new MemoryStorage(), async (recipient) => {
+      if (recipient === "user-2") {
+        throw new Error("storage unavailable");
+      }
+      return { status: "sent", attempts: 1 };
+    });
+
+    const started = await manager.startJob(caller, { recipients: ["user-1", "user-2", "user-3"], message: "Hi" });
+    const job = await waitUntilFinished(manager, started.jobId);
+
+    assert.equal(job?.status, "completed");
+    assert.deepEqual(job?.counts, { total: 3, pending: 0, sent: 2, notFound: 0, optedOut: 0, failed: 1 });
+    assert.equal(job?.recipients["user-2"].reason, "storage unavailable");
+  });
+
+  it("leaves a job another instance marked interrupted interrupted", async () => {
+    const storage = new MemoryStorage();
+    let release: () => void = () => undefined;
+    const delivering = new Promise<void>((resolve) => (release = resolve));
+    const manager = createRunningManager(storage, async () => {
+      await delivering;
+      return { status: "sent", attempts: 1 };
+    });
+
+    const started = await manager.startJob(caller, { recipients: ["user-1"], message: "Hi" });
+    const key = `notifyJobs/${started.jobId}`;
+    const stored = (await storage.read([key]))[key];
+    await storage.write({ [key]: { ...stored, status: "interrupted" } });
+    release();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    assert.equal((await storage.read([key]))[key].status, "interrupted");
+  });
+
+  it("refuses a broadcast to more users than the limit before sending anything", async () => {
+    config.notifyBatchMaxRecipients = 2;
+    let deliveries = 0;
+    const manager = createRunningManager(new MemoryStorage(), async () => {
+      deliveries++;
+      return { status: "sent", attempts: 1 };
+    });
+
+    await assert.rejects(manager.startJob(caller, { recipients: "all", message: "Hi" }), NotifyJobValidationError);
+    assert.equal(deliveries, 0);
+  });
+});
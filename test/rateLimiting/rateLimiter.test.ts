@@ -0,0 +1,114 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemoryStorage, StoreItems } from "botbuilder";
+import { RateLimiter, RateLimits } from "../../src/rateLimiting";
+
+const subject = { userKey: "user-1", conversationId: "conversation-1", tenantId: "tenant-1" };
+
+function createLimits(overrides: Partial<RateLimits> = {}): RateLimits {
+  return {
+    user: { perMinute: 60, burst: 3, dailyQuota: 5 },
+    conversation: { perMinute: 0, burst: 0, dailyQuota: 0 },
+    tenant: { perMinute: 600, burst: 100, dailyQuota: 0 },
+    ...overrides,
+  };
+}
+
+// MemoryStorage that lets a test run code before a write, e.g. another instance's write
+class InterceptingStorage extends MemoryStorage {
+  beforeWrite?: (changes: StoreItems) => Promise<void>;
+
+  async write(changes: StoreItems): Promise<void> {
+    const beforeWrite = this.beforeWrite;
+    if (beforeWrite) {
+      await beforeWrite(changes);
+    }
+    return super.write(changes);
+  }
+}
+
+describe("RateLimiter", () => {
+  it("refuses messages beyond the burst without counting them", async () => {
+    const limiter = new RateLimiter(new MemoryStorage(), createLimits());
+
+    for (let i = 0; i < 3; i++) {
+      assert.equal((await limiter.consume(subject)).allowed, true);
+    }
+    const refused = await limiter.consume(subject);
+
+    assert.equal(refused.allowed, false);
+    assert.equal(refused.scope, "user");
+    assert.equal(refused.reason, "rate");
+    assert.ok(refused.retryAfterSeconds > 0);
+    assert.equal((await limiter.getUsage(subject)).user.used, 3);
+  });
+
+  it("refuses messages beyond the daily quota, except those that don't count towards it", async () => {
+    const limiter = new RateLimiter(new MemoryStorage(), createLimits({ user: { perMinute: 0, burst: 0, dailyQuota: 2 } }));
+
+    await limiter.consume(subject);
+    await limiter.consume(subject);
+    const refused = await limiter.consume(subject);
+
+    assert.equal(refused.allowed, false);
+    assert.equal(refused.reason, "quota");
+    assert.equal((await limiter.consume(subject, false)).allowed, true);
+    assert.equal((await limiter.getUsage(subject)).user.used, 2);
+  });
+
+  it("counts a message once on every record when another record conflicts", async () => {
+    const storage = new InterceptingStorage();
+    const limiter = new RateLimiter(storage, createLimits());
+    const other = new RateLimiter(storage, createLimits());
+    await limiter.consume(subject);
+
+    // Another user's message in the tenant is counted between our read and our tenant write
+    let raced = false;
+    storage.beforeWrite = async (changes) => {
+      if (!raced && Object.keys(changes).some((key) => key.startsWith("rateLimits/tenant/"))) {
+        raced = true;
+        storage.beforeWrite = undefined;
+        await other.consume({ ...subject, userKey: "user-2" });
+      }
+    };
+    assert.equal((await limiter.consume(subject)).allowed, true);
+
+    const items = await storage.read(["rateLimits/user/user-1", "rateLimits/tenant/tenant-1"]);
+    assert.equal(raced, true);
+    assert.equal(items["rateLimits/user/user-1"].daily.count, 2);
+    assert.equal(items["rateLimits/tenant/tenant-1"].daily.count, 3);
+  });
+
+  it("counts concurrent first messages once each", async () => {
+    const storage = new MemoryStorage();
+    const limiters = [1, 2, 3].map(() => new RateLimiter(storage, createLimits()));
+
+    const results = await Promise.all(limiters.map((limiter) => limiter.consume(subject)));
+
+    assert.deepEqual(results.map((result) => result.allowed), [true, true, true]);
+    assert.equal((await limiters[0].getUsage(subject)).user.used, 3);
+  });
+
+  it("allows the message when storage fails", async () => {
+    const storage = new MemoryStorage();
+    storage.read = async () => {
+      throw new Error("Service unavailable");
+    };
+
+    assert.equal((await new RateLimiter(storage, createLimits()).consume(subject)).allowed, true);
+  });
+
+  it("allows the message when a record stays contended", async () => {
+    const storage = new InterceptingStorage();
+    const limiter = new RateLimiter(storage, createLimits());
+    let writes = 0;
+    storage.beforeWrite = async () => {
+      writes++;
+      throw new Error(`Storage: error writing due to eTag conflict.`);
+    };
+
+    assert.equal((await limiter.consume(subject)).allowed, true);
+    // Every scope gave up after its own attempts
+    assert.equal(writes, 10);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemoryStorage } from "botbuilder";
+import { SessionStore } from "../../src/sessions/sessionStore";
+
+describe("SessionStore", () => {
+  it("gives instances creating the user's record at the same time the same session", async () => {
+    const storage = new MemoryStorage();
+    const stores = [1, 2, 3].map(() => new SessionStore(storage));
+
+    const sessions = await Promise.all(stores.map((store) => store.getCurrent("user-1", "conversation-1")));
+
+    assert.equal(new Set(sessions.map((session) => session.id)).size, 1);
+  });
+
+  it("counts every message touched concurrently", async () => {
+    const storage = new MemoryStorage();
+    const stores = [1, 2, 3].map(() => new SessionStore(storage));
+
+    await Promise.all(stores.map((store, index) => store.touch("user-1", "conversation-1", `message ${index}`)));
+
+    assert.equal((await stores[0].getCurrent("user-1", "conversation-1")).messageCount, 3);
+  });
+});
@@ -0,0 +1,81 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import { MemoryStorage, Storage, StoreItems } from "botbuilder";
+import { FileStorage, createIfAbsent, isETagConflict, verifyStorage } from "../../src/storage";
+
+const directory = mkdtempSync(path.join(os.tmpdir(), "conditional-writes-"));
+after(() => rmSync(directory, { recursive: true, force: true }));
+
+const providers: { name: string; create: () => Storage }[] = [
+  { name: "MemoryStorage", create: () => new MemoryStorage() },
+  { name: "FileStorage", create: () => new FileStorage(mkdtempSync(path.join(directory, "store-"))) },
+];
+
+for (const { name, create } of providers) {
+  describe(`createIfAbsent with ${name}`, () => {
+    it("creates a missing item and refuses a taken key", async () => {
+      const storage = create();
+
+      assert.equal(await createIfAbsent(storage, "item", { value: 1 }), true);
+      assert.equal(await createIfAbsent(storage, "item", { value: 2 }), false);
+      assert.equal((await storage.read(["item"]))["item"].value, 1);
+    });
+
+    it("lets exactly one of several concurrent writers create the item", async () => {
+      const storage = create();
+
+      const created = await Promise.all([1, 2, 3, 4].map((value) => createIfAbsent(storage, "item", { value })));
+
+      assert.equal(created.filter(Boolean).length, 1);
+    });
+
+    it("passes the startup check", async () => {
+      await verifyStorage(create());
+    });
+  });
+}
+
+describe("createIfAbsent", () => {
+  it("throws storage failures instead of reporting the key as taken", async () => {
+    const storage = new MemoryStorage();
+    storage.write = async () => {
+      throw new Error("Service unavailable");
+    };
+
+    await assert.rejects(createIfAbsent(storage, "item", {}), /Service unavailable/);
+  });
+
+  it("fails the startup check for storage that overwrites taken keys", async () => {
+    // Ignores eTags, like a store without optimistic concurrency
+    class OverwritingStorage extends MemoryStorage {
+      write(changes: StoreItems): Promise<void> {
+        const unconditional: StoreItems = {};
+        for (const [key, item] of Object.entries(changes)) {
+          unconditional[key] = { ...item, eTag: "*" };
+        }
+        return super.write(unconditional);
+      }
+    }
+
+    await assert.rejects(verifyStorage(new OverwritingStorage()), /create-only write overwrote/);
+  });
+});
+
+describe("isETagConflict", () => {
+  it("recognises eTag conflicts from every provider", () => {
+    assert.equal(isETagConflict(new Error('Storage: error writing "item" due to eTag conflict.')), true);
+    assert.equal(isETagConflict({ code: 412, message: "One of the specified pre-condition is not met" }), true);
+    assert.equal(isETagConflict({ statusCode: 412 }), true);
+    assert.equal(isETagConflict({ code: 409, message: "Entity with the specified id already exists in the system." }), true);
+  });
+
+  it("doesn't take other failures for conflicts", () => {
+    assert.equal(isETagConflict(new Error("Service unavailable")), false);
+    assert.equal(isETagConflict({ code: 503 }), false);
+    assert.equal(isETagConflict(undefined), false);
+    assert.equal(isETagConflict("eTag conflict"), false);
+  });
+});